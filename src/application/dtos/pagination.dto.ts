@@ -13,7 +13,8 @@ import { z } from 'zod';
 
 /**
  * Pagination request schema
- * Used for validating incoming pagination parameters
+ * Used for validating incoming pagination parameters.
+ * Pages by cursor by default; `page` switches to offset pagination.
  */
 export const paginationRequestSchema = z.object({
     /** Maximum number of items to return (default: 20, max: 100) */
@@ -29,6 +30,23 @@ export const paginationRequestSchema = z.object({
         .string()
         .optional()
         .describe('Base64-encoded cursor for pagination'),
+
+    /** Page number for offset pagination (optional, instead of a cursor) */
+    page: z.coerce
+        .number()
+        .int()
+        .min(1, 'Page must be at least 1')
+        .optional()
+        .describe('1-based page number, for small tables'),
+
+    /** Include the total item count (costs an extra count query) */
+    includeTotal: z
+        .enum(['true', 'false'])
+        .transform((value) => value === 'true')
+        .optional(),
+}).refine((request) => request.cursor === undefined || request.page === undefined, {
+    message: 'Use either cursor or page, not both',
+    path: ['page'],
 });
 
 /**
@@ -45,10 +63,29 @@ export const paginationMetaSchema = z.object({
     hasNextPage: z.boolean(),
     hasPrevPage: z.boolean(),
     count: z.number().int().min(0),
+    /** Present when the total was requested */
+    total: z.number().int().min(0).optional(),
+    totalPages: z.number().int().min(0).optional(),
+    /** Present in offset mode */
+    page: z.number().int().min(1).optional(),
 });
 
 export type PaginationMeta = z.infer<typeof paginationMetaSchema>;
 
+/**
+ * Absolute URLs of the pages around the current one
+ * `last` is only known in offset mode with a total.
+ */
+export const paginationLinksSchema = z.object({
+    self: z.string().url(),
+    first: z.string().url(),
+    next: z.string().url().nullable(),
+    prev: z.string().url().nullable(),
+    last: z.string().url().nullable(),
+});
+
+export type PaginationLinks = z.infer<typeof paginationLinksSchema>;
+
 /**
  * Factory to create paginated response schema for any data type
  */
@@ -59,8 +59,10 @@ export const ERROR_STATUS_MAP: Record<ApplicationErrorCode | DomainErrorCode, nu
     [DomainErrorCode.INVARIANT_VIOLATION]: 422,
     [DomainErrorCode.PRECONDITION_FAILED]: 412,
     [DomainErrorCode.OPERATION_NOT_ALLOWED]: 403,
+    [DomainErrorCode.CONCURRENCY_CONFLICT]: 409,
     [DomainErrorCode.INVALID_VALUE]: 400,
     [DomainErrorCode.VALUE_OUT_OF_RANGE]: 400,
+    // DomainErrorCode.INVALID_INPUT shares the INVALID_INPUT entry above
 };
 
 /**
@@ -0,0 +1,100 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EVENT STORE PORT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Append only. The past is not edited—it is added to."
+ *
+ * The event store persists the event streams of event-sourced aggregates.
+ * Appends are guarded by optimistic concurrency on the stream version.
+ */
+
+import type { AnyDomainEvent, SerializedDomainEvent } from '../../domain/events/domain-event.js';
+import type { DomainError } from '../../domain/errors/domain.error.js';
+import type { Result } from '../../shared/utils/result.js';
+
+/**
+ * An event as recorded in the store
+ */
+export interface StoredEvent {
+    /** The stream (aggregate ID) the event belongs to */
+    streamId: string;
+    /** Position of the event within its stream, starting at 1 */
+    streamVersion: number;
+    /** Position of the event across all streams, increasing */
+    position: number;
+    /** The serialized event (output of `toJSON()`) */
+    data: SerializedDomainEvent;
+}
+
+/**
+ * Snapshot of an aggregate's state at a stream version
+ */
+export interface Snapshot {
+    streamId: string;
+    /** Stream version the state corresponds to */
+    streamVersion: number;
+    /** The captured state */
+    state: Record<string, unknown>;
+    /** When the snapshot was taken */
+    takenAt: Date;
+}
+
+/**
+ * Event store port (interface)
+ * Infrastructure layer will provide the implementation
+ */
+export interface IEventStore {
+    /**
+     * Append events to a stream
+     * @param expectedVersion - The version the stream must currently be at (0 for a new stream)
+     * @returns Result with the new stream version, or a conflict error
+     */
+    append(
+        streamId: string,
+        events: ReadonlyArray<AnyDomainEvent>,
+        expectedVersion: number
+    ): Promise<Result<number, DomainError>>;
+
+    /**
+     * Read the events of a stream in order
+     * @param fromVersion - First stream version to read (default: 1)
+     */
+    readStream(streamId: string, fromVersion?: number): Promise<StoredEvent[]>;
+
+    /**
+     * Read events across all streams, in store order
+     * @param afterPosition - Only events after this global position
+     */
+    readAll(afterPosition: number, limit: number): Promise<StoredEvent[]>;
+
+    /**
+     * Get the current version of a stream (0 if it does not exist)
+     */
+    getStreamVersion(streamId: string): Promise<number>;
+
+    /**
+     * Store the latest snapshot of a stream, replacing any previous one
+     */
+    saveSnapshot(snapshot: Snapshot): Promise<void>;
+
+    /**
+     * Load the latest snapshot of a stream
+     */
+    loadSnapshot(streamId: string): Promise<Snapshot | null>;
+}
+
+/**
+ * Stores how far each projection has read the event store
+ */
+export interface IProjectionCheckpointStore {
+    /**
+     * Get the last processed global position (0 if none)
+     */
+    get(projectionName: string): Promise<number>;
+
+    /**
+     * Save the last processed global position
+     */
+    save(projectionName: string, position: number): Promise<void>;
+}
@@ -0,0 +1,64 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * OUTBOX PORT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Write it down first. Deliver it later. Never forget it in between."
+ *
+ * The transactional outbox stores domain events in the same transaction
+ * as the aggregate that raised them. A relay later reads the pending
+ * messages and hands them to the dispatcher.
+ */
+
+/**
+ * Delivery status of an outbox message
+ */
+export type OutboxStatus = 'pending' | 'processed' | 'dead';
+
+/**
+ * A domain event stored in the outbox
+ */
+export interface OutboxMessage {
+    /** Outbox row identifier */
+    id: string;
+    /** Identifier of the stored event */
+    eventId: string;
+    /** The type/name of the event */
+    eventType: string;
+    /** ID of the aggregate that produced the event */
+    aggregateId: string;
+    /** Event version for schema evolution */
+    version: number;
+    /** The serialized event (output of `toJSON()`) */
+    payload: Record<string, unknown>;
+    /** When the event occurred */
+    occurredAt: Date;
+    /** Number of failed delivery attempts so far */
+    attempts: number;
+}
+
+/**
+ * Outbox store port
+ * Infrastructure layer will provide the implementation
+ */
+export interface IOutboxStore {
+    /**
+     * Fetch pending messages that are due for delivery, oldest first
+     */
+    fetchPending(limit: number, now: Date): Promise<OutboxMessage[]>;
+
+    /**
+     * Mark a message as delivered
+     */
+    markProcessed(id: string): Promise<void>;
+
+    /**
+     * Record a failed attempt and schedule the next one
+     */
+    markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void>;
+
+    /**
+     * Give up on a message after a permanent failure or too many attempts
+     */
+    markDeadLettered(id: string, error: string): Promise<void>;
+}
@@ -28,4 +28,9 @@ export interface ISocketService {
      * Get the count of connected clients
      */
     getConnectionCount(): number;
+
+    /**
+     * Disconnect all clients and stop accepting connections
+     */
+    close(): Promise<void>;
 }
@@ -0,0 +1,27 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * UNIT OF WORK PORT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "A business transaction succeeds as a whole, or leaves no trace."
+ *
+ * A unit of work hands a use case repositories bound to one transaction,
+ * so writes to several aggregates commit or roll back together.
+ */
+
+/**
+ * Unit of work port
+ * Infrastructure layer will provide the implementation
+ *
+ * @typeParam TRepositories - The repositories available to the work, by name
+ */
+export interface IUnitOfWork<TRepositories> {
+    /**
+     * Run the work in a transaction with repositories bound to it
+     *
+     * Commits when the work resolves. Rolls back when it throws (rethrowing
+     * the error) or resolves with an `Err` result (returning that result).
+     * Pending domain events are only published after the commit.
+     */
+    execute<T>(work: (repositories: TRepositories) => Promise<T>): Promise<T>;
+}
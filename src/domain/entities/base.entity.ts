@@ -10,7 +10,12 @@
  * time and different states. Two entities are equal if their identities match.
  */
 
-import type { Timestamps } from '../../shared/types/index.js';
+import type { SoftDelete, Timestamps } from '../../shared/types/index.js';
+import {
+    EntityDeletedEvent,
+    EntityRestoredEvent,
+    type AnyDomainEvent,
+} from '../events/domain-event.js';
 
 /**
  * Entity properties that all entities share
@@ -19,6 +24,14 @@ export interface EntityProps {
     id: string;
     createdAt?: Date;
     updatedAt?: Date;
+    /**
+     * Optimistic concurrency version, incremented by every write
+     * (0 until first persisted). Repositories only update an entity whose
+     * stored version still matches this one.
+     */
+    version?: number;
+    /** When the entity was soft deleted (null or absent while it is live) */
+    deletedAt?: Date | null;
 }
 
 /**
@@ -26,7 +39,7 @@ export interface EntityProps {
  *
  * @typeParam TProps - The properties interface for the specific entity
  */
-export abstract class Entity<TProps extends EntityProps> {
+export abstract class Entity<TProps extends EntityProps> implements SoftDelete {
     protected readonly _id: string;
     protected props: TProps;
 
@@ -36,6 +49,7 @@ export abstract class Entity<TProps extends EntityProps> {
             ...props,
             createdAt: props.createdAt ?? new Date(),
             updatedAt: props.updatedAt ?? new Date(),
+            version: props.version ?? 0,
         };
     }
 
@@ -60,6 +74,27 @@ export abstract class Entity<TProps extends EntityProps> {
         return this.props.updatedAt ?? new Date();
     }
 
+    /**
+     * Get the version this entity was loaded or last saved at
+     */
+    get version(): number {
+        return this.props.version ?? 0;
+    }
+
+    /**
+     * Get the soft-delete timestamp (null while the entity is live)
+     */
+    get deletedAt(): Date | null {
+        return this.props.deletedAt ?? null;
+    }
+
+    /**
+     * Check whether the entity is soft deleted
+     */
+    get isDeleted(): boolean {
+        return this.deletedAt !== null;
+    }
+
     /**
      * Get timestamps as an object
      */
@@ -85,6 +120,14 @@ export abstract class Entity<TProps extends EntityProps> {
         return this._id === other._id;
     }
 
+    /**
+     * Record the version stored by a successful write
+     * Called by repositories, so the next update expects the new version.
+     */
+    markPersisted(version: number): void {
+        this.props.version = version;
+    }
+
     /**
      * Update the updatedAt timestamp
      * Called internally when entity state changes
@@ -107,19 +150,52 @@ export abstract class Entity<TProps extends EntityProps> {
  * that control access to a cluster of related objects and enforce invariants.
  */
 export abstract class AggregateRoot<TProps extends EntityProps> extends Entity<TProps> {
-    private _domainEvents: DomainEvent[] = [];
+    private _domainEvents: AnyDomainEvent[] = [];
 
     /**
      * Get the domain events that have occurred on this aggregate
      */
-    get domainEvents(): ReadonlyArray<DomainEvent> {
+    get domainEvents(): ReadonlyArray<AnyDomainEvent> {
         return Object.freeze([...this._domainEvents]);
     }
 
+    /**
+     * Soft delete the aggregate, raising an `EntityDeletedEvent`
+     * Persist it with the repository's `softDelete`.
+     */
+    softDelete(): void {
+        if (this.isDeleted) {
+            return;
+        }
+        this.props.deletedAt = new Date();
+        this.touch();
+        this.addDomainEvent(new EntityDeletedEvent(this.id, this.entityType));
+    }
+
+    /**
+     * Restore a soft-deleted aggregate, raising an `EntityRestoredEvent`
+     * Persist it with the repository's `restore`.
+     */
+    restore(): void {
+        if (!this.isDeleted) {
+            return;
+        }
+        this.props.deletedAt = null;
+        this.touch();
+        this.addDomainEvent(new EntityRestoredEvent(this.id, this.entityType));
+    }
+
+    /**
+     * The entity type named in lifecycle events (the class name by default)
+     */
+    protected get entityType(): string {
+        return this.constructor.name;
+    }
+
     /**
      * Add a domain event to be dispatched
      */
-    protected addDomainEvent(event: DomainEvent): void {
+    protected addDomainEvent(event: AnyDomainEvent): void {
         this._domainEvents.push(event);
     }
 
@@ -130,15 +206,3 @@ export abstract class AggregateRoot<TProps extends EntityProps> extends Entity<T
         this._domainEvents = [];
     }
 }
-
-/**
- * Domain event interface
- * Events are immutable facts about something that happened in the domain
- */
-export interface DomainEvent {
-    readonly eventId: string;
-    readonly eventType: string;
-    readonly aggregateId: string;
-    readonly occurredAt: Date;
-    readonly payload: Record<string, unknown>;
-}
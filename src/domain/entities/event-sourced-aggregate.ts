@@ -0,0 +1,114 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EVENT-SOURCED AGGREGATE ROOT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "The present is nothing but the sum of the past, replayed in order."
+ *
+ * An event-sourced aggregate never stores its state directly. Every change
+ * is raised as a domain event and applied; the state is rebuilt by replaying
+ * the aggregate's event stream (optionally starting from a snapshot).
+ */
+
+import { AggregateRoot, type EntityProps } from './base.entity.js';
+import type { AnyDomainEvent } from '../events/domain-event.js';
+
+/**
+ * Base class for aggregates whose state is derived from their events
+ *
+ * @typeParam TProps - The properties interface for the specific aggregate
+ */
+export abstract class EventSourcedAggregateRoot<
+    TProps extends EntityProps
+> extends AggregateRoot<TProps> {
+    private _streamVersion = 0;
+    private _pendingCount = 0;
+
+    /**
+     * Version of the stream this aggregate was loaded from (0 for a new stream)
+     * Used as the expected version for optimistic concurrency when appending.
+     */
+    get streamVersion(): number {
+        return this._streamVersion;
+    }
+
+    /**
+     * Version the stream will have once the pending events are stored
+     */
+    get nextStreamVersion(): number {
+        return this._streamVersion + this._pendingCount;
+    }
+
+    /**
+     * Mutate state in response to an event
+     * Must not raise new events or perform side effects—it runs on replay too.
+     */
+    protected abstract when(event: AnyDomainEvent): void;
+
+    /**
+     * Apply a new event and record it as pending
+     */
+    protected raise(event: AnyDomainEvent): void {
+        this.when(event);
+        this.addDomainEvent(event);
+        this._pendingCount++;
+    }
+
+    /**
+     * Rebuild state by replaying stored events
+     * @param events - Events in stream order, following the current stream version
+     */
+    loadFromHistory(events: ReadonlyArray<AnyDomainEvent>): void {
+        for (const event of events) {
+            this.when(event);
+            this._streamVersion++;
+        }
+    }
+
+    /**
+     * Mark the pending events as stored at the given stream version
+     */
+    markCommitted(streamVersion: number): void {
+        this._streamVersion = streamVersion;
+        this._pendingCount = 0;
+        this.clearDomainEvents();
+    }
+
+    /**
+     * Capture the current state for a snapshot
+     * Override when the props are not plain JSON-compatible data.
+     */
+    toSnapshot(): Record<string, unknown> {
+        return { ...this.toObject() } as Record<string, unknown>;
+    }
+
+    /**
+     * Restore state from a snapshot taken at the given stream version
+     */
+    restoreSnapshot(state: Record<string, unknown>, streamVersion: number): void {
+        this.props = this.fromSnapshot(state);
+        this._streamVersion = streamVersion;
+        this._pendingCount = 0;
+    }
+
+    /**
+     * Convert snapshot state back to props
+     * Override when the props contain more than timestamps that need reviving.
+     */
+    protected fromSnapshot(state: Record<string, unknown>): TProps {
+        const props = { ...state } as unknown as TProps;
+        const { createdAt, updatedAt, deletedAt } = state;
+
+        if (createdAt !== undefined) {
+            props.createdAt = new Date(createdAt as string | Date);
+        }
+        if (updatedAt !== undefined) {
+            props.updatedAt = new Date(updatedAt as string | Date);
+        }
+        if (deletedAt !== undefined) {
+            props.deletedAt = deletedAt === null ? null : new Date(deletedAt as string | Date);
+        }
+
+        return props;
+    }
+}
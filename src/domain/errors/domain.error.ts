@@ -24,10 +24,14 @@ export enum DomainErrorCode {
     INVARIANT_VIOLATION = 'INVARIANT_VIOLATION',
     PRECONDITION_FAILED = 'PRECONDITION_FAILED',
     OPERATION_NOT_ALLOWED = 'OPERATION_NOT_ALLOWED',
+    CONCURRENCY_CONFLICT = 'CONCURRENCY_CONFLICT',
 
     // Value object errors
     INVALID_VALUE = 'INVALID_VALUE',
     VALUE_OUT_OF_RANGE = 'VALUE_OUT_OF_RANGE',
+
+    // Client input the domain cannot interpret
+    INVALID_INPUT = 'INVALID_INPUT',
 }
 
 /**
@@ -134,3 +138,87 @@ export class InvariantViolationError extends DomainError {
         this.name = 'InvariantViolationError';
     }
 }
+
+/**
+ * Serialized domain event that cannot be restored
+ */
+export class UnknownDomainEventError extends DomainError {
+    constructor(eventType: string, version: number) {
+        super(
+            DomainErrorCode.INVALID_VALUE,
+            `No deserializer registered for event '${eventType}' version ${version}`,
+            { context: { eventType, version } }
+        );
+        this.name = 'UnknownDomainEventError';
+    }
+}
+
+/**
+ * Entity was changed by someone else since it was read
+ */
+export class ConcurrencyConflictError extends DomainError {
+    constructor(
+        entityType: string,
+        entityId: string,
+        expectedVersion: number,
+        actualVersion: number
+    ) {
+        super(
+            DomainErrorCode.CONCURRENCY_CONFLICT,
+            `${entityType} '${entityId}' is at version ${actualVersion}, expected ${expectedVersion}`,
+            { entityType, entityId, context: { expectedVersion, actualVersion } }
+        );
+        this.name = 'ConcurrencyConflictError';
+    }
+}
+
+/**
+ * Event stream was appended to by someone else since it was read
+ */
+export class StreamVersionConflictError extends DomainError {
+    constructor(streamId: string, expectedVersion: number, actualVersion: number) {
+        super(
+            DomainErrorCode.PRECONDITION_FAILED,
+            `Stream '${streamId}' is at version ${actualVersion}, expected ${expectedVersion}`,
+            { entityId: streamId, context: { expectedVersion, actualVersion } }
+        );
+        this.name = 'StreamVersionConflictError';
+    }
+}
+
+/**
+ * Query filter that is malformed (unknown operator, wrong operand type)
+ */
+export class InvalidFilterError extends DomainError {
+    constructor(message: string, field?: string) {
+        super(DomainErrorCode.INVALID_VALUE, message, field !== undefined ? { field } : {});
+        this.name = 'InvalidFilterError';
+    }
+}
+
+/**
+ * Valid query filter that the configured database cannot run
+ */
+export class UnsupportedFilterError extends DomainError {
+    constructor(adapter: string, reason: string, field?: string) {
+        super(
+            DomainErrorCode.INVALID_VALUE,
+            `${adapter} cannot run this filter: ${reason}`,
+            { field, context: { adapter } }
+        );
+        this.name = 'UnsupportedFilterError';
+    }
+}
+
+/**
+ * Pagination cursor that is malformed, forged, expired or from another query
+ */
+export class InvalidCursorError extends DomainError {
+    constructor(reason: string) {
+        super(DomainErrorCode.INVALID_INPUT, `Invalid pagination cursor: ${reason}`, {
+            field: 'cursor',
+            context: { reason },
+        });
+        this.name = 'InvalidCursorError';
+    }
+}
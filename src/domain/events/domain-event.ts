@@ -9,10 +9,17 @@
 
 import { randomUUID } from 'crypto';
 
+/**
+ * Default payload type for events that do not declare one
+ */
+export type DomainEventPayload = Record<string, unknown>;
+
 /**
  * Base interface for all domain events
+ *
+ * @typeParam TPayload - The event-specific data
  */
-export interface IDomainEvent {
+export interface IDomainEvent<TPayload extends object = DomainEventPayload> {
     /** Unique identifier for this event instance */
     readonly eventId: string;
     /** The type/name of the event */
@@ -23,24 +30,71 @@ export interface IDomainEvent {
     readonly occurredAt: Date;
     /** Event version for schema evolution */
     readonly version: number;
+    /** Event-specific data */
+    readonly payload: TPayload;
+}
+
+/**
+ * Any domain event, regardless of its payload type
+ */
+export type AnyDomainEvent = IDomainEvent<object>;
+
+/**
+ * Plain JSON representation of a domain event (output of `toJSON()`)
+ */
+export interface SerializedDomainEvent {
+    eventId: string;
+    eventType: string;
+    aggregateId: string;
+    occurredAt: string;
+    version: number;
+    payload: unknown;
+    [key: string]: unknown;
+}
+
+/**
+ * Metadata used to restore an event instead of creating a new one
+ */
+export interface DomainEventMetadata {
+    /** Existing event ID (default: a new UUID) */
+    eventId?: string;
+    /** Original occurrence time (default: now) */
+    occurredAt?: Date;
+    /** Schema version of the event (default: 1) */
+    version?: number;
+}
+
+/**
+ * Extract the metadata of a serialized event for rehydration
+ */
+export function eventMetadataFrom(data: SerializedDomainEvent): DomainEventMetadata {
+    return {
+        eventId: data.eventId,
+        occurredAt: new Date(data.occurredAt),
+        version: data.version,
+    };
 }
 
 /**
  * Abstract base class for domain events
  * Provides common functionality and enforces structure
+ *
+ * @typeParam TPayload - The event-specific data
  */
-export abstract class BaseDomainEvent implements IDomainEvent {
+export abstract class BaseDomainEvent<TPayload extends object = DomainEventPayload>
+    implements IDomainEvent<TPayload> {
     public readonly eventId: string;
     public readonly occurredAt: Date;
     public readonly version: number;
 
     constructor(
         public readonly aggregateId: string,
-        version: number = 1
+        public readonly payload: TPayload,
+        metadata: DomainEventMetadata = {}
     ) {
-        this.eventId = randomUUID();
-        this.occurredAt = new Date();
-        this.version = version;
+        this.eventId = metadata.eventId ?? randomUUID();
+        this.occurredAt = metadata.occurredAt ?? new Date();
+        this.version = metadata.version ?? 1;
     }
 
     /**
@@ -51,37 +105,55 @@ export abstract class BaseDomainEvent implements IDomainEvent {
     /**
      * Convert to a plain object for serialization
      */
-    toJSON(): Record<string, unknown> {
+    toJSON(): SerializedDomainEvent {
         return {
             eventId: this.eventId,
             eventType: this.eventType,
             aggregateId: this.aggregateId,
             occurredAt: this.occurredAt.toISOString(),
             version: this.version,
+            payload: this.payload,
         };
     }
 }
 
+/**
+ * Serialize any domain event to a plain JSON-compatible object
+ * Uses the event's own `toJSON()` when it provides one.
+ */
+export function serializeDomainEvent(event: AnyDomainEvent): SerializedDomainEvent {
+    if (event instanceof BaseDomainEvent) {
+        return event.toJSON();
+    }
+
+    return {
+        ...event,
+        occurredAt: event.occurredAt.toISOString(),
+    };
+}
+
 /**
  * Domain event dispatcher interface
- * Implementations handle the actual dispatching of events
+ * Implementations handle the actual dispatching of events. They may reject
+ * (e.g. when a handler failed), so callers must catch it when that should
+ * not fail the operation (e.g. a write that is already committed).
  */
 export interface IDomainEventDispatcher {
     /**
      * Dispatch a single event
      */
-    dispatch(event: IDomainEvent): Promise<void>;
+    dispatch(event: AnyDomainEvent): Promise<void>;
 
     /**
-     * Dispatch multiple events
+     * Dispatch multiple events, in order
      */
-    dispatchMany(events: IDomainEvent[]): Promise<void>;
+    dispatchMany(events: ReadonlyArray<AnyDomainEvent>): Promise<void>;
 }
 
 /**
  * Domain event handler interface
  */
-export interface IDomainEventHandler<TEvent extends IDomainEvent> {
+export interface IDomainEventHandler<TEvent extends AnyDomainEvent> {
     /**
      * The event type this handler handles
      */
@@ -102,22 +174,23 @@ export class EntityCreatedEvent extends BaseDomainEvent {
     constructor(
         aggregateId: string,
         public readonly entityType: string,
-        public readonly payload: Record<string, unknown>
+        payload: DomainEventPayload,
+        metadata?: DomainEventMetadata
     ) {
-        super(aggregateId);
+        super(aggregateId, payload, metadata);
     }
 
-    override toJSON(): Record<string, unknown> {
+    override toJSON(): SerializedDomainEvent {
         return {
             ...super.toJSON(),
             entityType: this.entityType,
-            payload: this.payload,
         };
     }
 }
 
 /**
  * Example: Entity Updated Event
+ * The payload holds the changed fields.
  */
 export class EntityUpdatedEvent extends BaseDomainEvent {
     public readonly eventType = 'entity.updated';
@@ -125,34 +198,66 @@ export class EntityUpdatedEvent extends BaseDomainEvent {
     constructor(
         aggregateId: string,
         public readonly entityType: string,
-        public readonly changes: Record<string, unknown>
+        changes: DomainEventPayload,
+        metadata?: DomainEventMetadata
     ) {
-        super(aggregateId);
+        super(aggregateId, changes, metadata);
+    }
+
+    /**
+     * The fields that changed
+     */
+    get changes(): DomainEventPayload {
+        return this.payload;
     }
 
-    override toJSON(): Record<string, unknown> {
+    override toJSON(): SerializedDomainEvent {
         return {
             ...super.toJSON(),
             entityType: this.entityType,
-            changes: this.changes,
         };
     }
 }
 
 /**
  * Example: Entity Deleted Event
+ * Raised when an aggregate is soft deleted.
  */
-export class EntityDeletedEvent extends BaseDomainEvent {
+export class EntityDeletedEvent extends BaseDomainEvent<Record<string, never>> {
     public readonly eventType = 'entity.deleted';
 
     constructor(
         aggregateId: string,
-        public readonly entityType: string
+        public readonly entityType: string,
+        metadata?: DomainEventMetadata
+    ) {
+        super(aggregateId, {}, metadata);
+    }
+
+    override toJSON(): SerializedDomainEvent {
+        return {
+            ...super.toJSON(),
+            entityType: this.entityType,
+        };
+    }
+}
+
+/**
+ * Example: Entity Restored Event
+ * Raised when a soft-deleted aggregate is restored.
+ */
+export class EntityRestoredEvent extends BaseDomainEvent<Record<string, never>> {
+    public readonly eventType = 'entity.restored';
+
+    constructor(
+        aggregateId: string,
+        public readonly entityType: string,
+        metadata?: DomainEventMetadata
     ) {
-        super(aggregateId);
+        super(aggregateId, {}, metadata);
     }
 
-    override toJSON(): Record<string, unknown> {
+    override toJSON(): SerializedDomainEvent {
         return {
             ...super.toJSON(),
             entityType: this.entityType,
@@ -0,0 +1,148 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DOMAIN EVENT REGISTRY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "History is rewritten by every generation. Upcasters do it safely."
+ *
+ * The registry maps an `eventType` and `version` to a deserializer that
+ * restores a serialized event. Upcasters migrate events stored with an
+ * older schema version, one version at a time, before they are restored.
+ */
+
+import {
+    EntityCreatedEvent,
+    EntityDeletedEvent,
+    EntityRestoredEvent,
+    EntityUpdatedEvent,
+    eventMetadataFrom,
+    type AnyDomainEvent,
+    type DomainEventPayload,
+    type SerializedDomainEvent,
+} from './domain-event.js';
+import { DomainError, UnknownDomainEventError } from '../errors/domain.error.js';
+import { type Result, ok, err } from '../../shared/utils/result.js';
+
+/**
+ * Restores an event from its serialized form
+ */
+export type DomainEventDeserializer<TEvent extends AnyDomainEvent = AnyDomainEvent> = (
+    data: SerializedDomainEvent
+) => TEvent;
+
+/**
+ * Migrates a serialized event from one version to the next
+ * The registry sets the resulting `version`; upcasters only reshape the data.
+ */
+export type DomainEventUpcaster = (data: SerializedDomainEvent) => SerializedDomainEvent;
+
+/**
+ * Registry of event deserializers and upcasters
+ */
+export class DomainEventRegistry {
+    private readonly deserializers = new Map<string, DomainEventDeserializer>();
+    private readonly upcasters = new Map<string, DomainEventUpcaster>();
+
+    /**
+     * Register the deserializer for a version of an event type
+     */
+    register<TEvent extends AnyDomainEvent>(
+        eventType: string,
+        version: number,
+        deserializer: DomainEventDeserializer<TEvent>
+    ): this {
+        this.deserializers.set(this.key(eventType, version), deserializer);
+        return this;
+    }
+
+    /**
+     * Register an upcaster migrating `fromVersion` to `fromVersion + 1`
+     */
+    registerUpcaster(
+        eventType: string,
+        fromVersion: number,
+        upcaster: DomainEventUpcaster
+    ): this {
+        this.upcasters.set(this.key(eventType, fromVersion), upcaster);
+        return this;
+    }
+
+    /**
+     * Check if a deserializer exists for an event type and version
+     */
+    isRegistered(eventType: string, version: number): boolean {
+        return this.deserializers.has(this.key(eventType, version));
+    }
+
+    /**
+     * Apply every available upcaster to bring an event to its current version
+     */
+    upcast(data: SerializedDomainEvent): SerializedDomainEvent {
+        let current = data;
+        let upcaster = this.upcasters.get(this.key(current.eventType, current.version));
+
+        while (upcaster) {
+            current = { ...upcaster(current), version: current.version + 1 };
+            upcaster = this.upcasters.get(this.key(current.eventType, current.version));
+        }
+
+        return current;
+    }
+
+    /**
+     * Restore a serialized event, upcasting it first
+     */
+    deserialize(data: SerializedDomainEvent): Result<AnyDomainEvent, DomainError> {
+        const current = this.upcast(data);
+        const deserializer = this.deserializers.get(
+            this.key(current.eventType, current.version)
+        );
+
+        if (!deserializer) {
+            return err(new UnknownDomainEventError(current.eventType, current.version));
+        }
+
+        return ok(deserializer(current));
+    }
+
+    private key(eventType: string, version: number): string {
+        return `${eventType}@${version}`;
+    }
+}
+
+/**
+ * Create a registry with the built-in entity lifecycle events
+ */
+export function createDomainEventRegistry(): DomainEventRegistry {
+    return new DomainEventRegistry()
+        .register('entity.created', 1, (data) =>
+            new EntityCreatedEvent(
+                data.aggregateId,
+                String(data['entityType']),
+                data.payload as DomainEventPayload,
+                eventMetadataFrom(data)
+            )
+        )
+        .register('entity.updated', 1, (data) =>
+            new EntityUpdatedEvent(
+                data.aggregateId,
+                String(data['entityType']),
+                data.payload as DomainEventPayload,
+                eventMetadataFrom(data)
+            )
+        )
+        .register('entity.deleted', 1, (data) =>
+            new EntityDeletedEvent(
+                data.aggregateId,
+                String(data['entityType']),
+                eventMetadataFrom(data)
+            )
+        )
+        .register('entity.restored', 1, (data) =>
+            new EntityRestoredEvent(
+                data.aggregateId,
+                String(data['entityType']),
+                eventMetadataFrom(data)
+            )
+        );
+}
@@ -17,13 +17,15 @@ import type {
 } from '../../shared/utils/cursor-pagination.util.js';
 import type { Result } from '../../shared/utils/result.js';
 import type { DomainError } from '../errors/domain.error.js';
+import type { Filter } from './filter.js';
+import type { Specification } from '../specifications/specification.js';
 
 /**
  * Query options for filtering and sorting
  */
 export interface QueryOptions<TEntity> {
-    /** Filter criteria */
-    where?: Partial<TEntity>;
+    /** Filter criteria (plain values match by equality, see `Filter`) */
+    where?: Filter<TEntity>;
     /** Fields to order by */
     orderBy?: {
         field: keyof TEntity;
@@ -33,6 +35,28 @@ export interface QueryOptions<TEntity> {
     includeSoftDeleted?: boolean;
 }
 
+/**
+ * Query options for specification queries (the specification is the filter)
+ */
+export type SpecificationQueryOptions<TEntity> = Omit<QueryOptions<TEntity>, 'where'>;
+
+/**
+ * Options for lookups that hide soft-deleted entities by default
+ */
+export type SoftDeleteOptions<TEntity> = Pick<QueryOptions<TEntity>, 'includeSoftDeleted'>;
+
+/**
+ * Outcome of a bulk write, item by item
+ */
+export interface BulkWriteReport<TEntity> {
+    /** One result per input entity, in input order */
+    results: Array<Result<TEntity, DomainError>>;
+    /** Number of entities written */
+    succeeded: number;
+    /** Number of entities that failed */
+    failed: number;
+}
+
 /**
  * Base repository interface with CRUD operations
  *
@@ -45,15 +69,26 @@ export interface QueryOptions<TEntity> {
 export interface IRepository<TEntity extends Entity<TProps>, TProps extends EntityProps> {
     /**
      * Find an entity by its unique identifier
-     * @returns Result with the entity or an error if not found
+     * @returns Result with the entity or an error if not found (or soft deleted)
      */
-    findById(id: string): Promise<Result<TEntity, DomainError>>;
+    findById(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<Result<TEntity, DomainError>>;
 
     /**
      * Find entities matching the given criteria
      */
     findMany(options?: QueryOptions<TProps>): Promise<TEntity[]>;
 
+    /**
+     * Find entities satisfying a specification
+     */
+    findBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<TEntity[]>;
+
     /**
      * Find entities with cursor pagination
      */
@@ -63,12 +98,13 @@ export interface IRepository<TEntity extends Entity<TProps>, TProps extends Enti
     ): Promise<CursorPaginatedResult<TEntity>>;
 
     /**
-     * Check if an entity with the given ID exists
+     * Check if an entity with the given ID exists (and is not soft deleted)
      */
-    exists(id: string): Promise<boolean>;
+    exists(id: string, options?: SoftDeleteOptions<TProps>): Promise<boolean>;
 
     /**
      * Persist a new entity
+     * Pending domain events of aggregate roots are published once the write succeeds.
      * @returns Result with the created entity or an error
      */
     create(entity: TEntity): Promise<Result<TEntity, DomainError>>;
@@ -79,35 +115,102 @@ export interface IRepository<TEntity extends Entity<TProps>, TProps extends Enti
      */
     update(entity: TEntity): Promise<Result<TEntity, DomainError>>;
 
+    /**
+     * Create an entity, or overwrite it if it exists (without a version check)
+     * @returns Result with the stored entity or an error
+     */
+    upsert(entity: TEntity): Promise<Result<TEntity, DomainError>>;
+
+    /**
+     * Persist new entities in batches
+     * Existing IDs fail individually without failing the other entities.
+     */
+    createMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>>;
+
+    /**
+     * Update existing entities in batches
+     * Missing or stale entities fail individually without failing the others.
+     */
+    updateMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>>;
+
     /**
      * Delete an entity by ID
+     * Pass the entity itself to publish its pending domain events.
      * @returns Result indicating success or failure
      */
-    delete(id: string): Promise<Result<void, DomainError>>;
+    delete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>>;
+
+    /**
+     * Delete every entity satisfying a specification
+     * @returns The number of deleted entities
+     */
+    deleteMany(
+        spec: Specification<TProps>,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<number>;
 
     /**
      * Soft delete an entity by ID (if supported)
+     * Pass the entity itself to publish its pending domain events.
+     * @returns Result indicating success, or not found if missing or already soft deleted
+     */
+    softDelete?(idOrEntity: string | TEntity): Promise<Result<void, DomainError>>;
+
+    /**
+     * Restore a soft-deleted entity (if supported)
+     * Pass the entity itself to publish its pending domain events.
      */
-    softDelete?(id: string): Promise<Result<void, DomainError>>;
+    restore?(idOrEntity: string | TEntity): Promise<Result<void, DomainError>>;
+
+    /**
+     * Permanently delete the entities soft deleted before the given date (if supported)
+     * @returns The number of purged entities
+     */
+    purgeSoftDeleted?(olderThan: Date): Promise<number>;
+
+    /**
+     * Soft delete every entity satisfying a specification (if supported)
+     * @returns The number of soft-deleted entities
+     */
+    softDeleteMany?(spec: Specification<TProps>): Promise<number>;
 
     /**
      * Count entities matching the given criteria
      */
     count(options?: QueryOptions<TProps>): Promise<number>;
+
+    /**
+     * Count entities satisfying a specification
+     */
+    countBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<number>;
 }
 
 /**
  * Read-only repository for query-only use cases
  */
 export interface IReadOnlyRepository<TEntity extends Entity<TProps>, TProps extends EntityProps> {
-    findById(id: string): Promise<Result<TEntity, DomainError>>;
+    findById(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<Result<TEntity, DomainError>>;
     findMany(options?: QueryOptions<TProps>): Promise<TEntity[]>;
+    findBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<TEntity[]>;
     findManyPaginated(
         paginationOptions: CursorPaginationOptions,
         queryOptions?: QueryOptions<TProps>
     ): Promise<CursorPaginatedResult<TEntity>>;
-    exists(id: string): Promise<boolean>;
+    exists(id: string, options?: SoftDeleteOptions<TProps>): Promise<boolean>;
     count(options?: QueryOptions<TProps>): Promise<number>;
+    countBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<number>;
 }
 
 /**
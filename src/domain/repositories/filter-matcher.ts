@@ -0,0 +1,114 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FILTER MATCHER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Evaluates parsed query filters against plain objects, with the same
+ * semantics as the SQL adapters. Used by in-memory repositories and by
+ * specifications checking a single entity.
+ */
+
+import type { FilterCondition, FilterNode } from './filter.js';
+
+function comparable(value: unknown): unknown {
+    return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Outcome of a filter: `null` when unknown, as in SQL comparisons with NULL
+ */
+type Truth = boolean | null;
+
+function isMissing(value: unknown): value is null | undefined {
+    return value === null || value === undefined;
+}
+
+/**
+ * Compare two field values, keeping missing values last
+ */
+export function compareValues(a: unknown, b: unknown, direction: 'asc' | 'desc' = 'asc'): number {
+    if (isMissing(a) || isMissing(b)) {
+        return isMissing(a) === isMissing(b) ? 0 : isMissing(a) ? 1 : -1;
+    }
+
+    const left = comparable(a) as number | string;
+    const right = comparable(b) as number | string;
+    const order = left < right ? -1 : left > right ? 1 : 0;
+    return direction === 'asc' ? order : -order;
+}
+
+function equals(actual: unknown, expected: unknown): boolean {
+    return comparable(actual) === comparable(expected);
+}
+
+function evaluateCondition(record: Record<string, unknown>, condition: FilterCondition): Truth {
+    const actual = record[condition.field];
+    const { value } = condition;
+
+    if (condition.operator === 'isNull') {
+        return isMissing(actual) === value;
+    }
+    // Like SQL, comparisons with a missing value are unknown: neither they
+    // nor their negation match
+    if (isMissing(actual)) {
+        return null;
+    }
+
+    switch (condition.operator) {
+        case 'eq':
+            return equals(actual, value);
+        case 'in':
+            return (value as unknown[]).some((candidate) => equals(actual, candidate));
+        case 'notIn':
+            return !(value as unknown[]).some((candidate) => equals(actual, candidate));
+        case 'gt':
+            return compareValues(actual, value) > 0;
+        case 'gte':
+            return compareValues(actual, value) >= 0;
+        case 'lt':
+            return compareValues(actual, value) < 0;
+        case 'lte':
+            return compareValues(actual, value) <= 0;
+        case 'contains':
+            return typeof actual === 'string' && actual.includes(value as string);
+        case 'startsWith':
+            return typeof actual === 'string' && actual.startsWith(value as string);
+    }
+}
+
+/**
+ * Evaluate a filter tree with SQL's three-valued logic
+ */
+function evaluate(record: Record<string, unknown>, node: FilterNode): Truth {
+    switch (node.kind) {
+        case 'condition':
+            return evaluateCondition(record, node);
+        case 'and':
+        case 'or': {
+            // `false` decides an AND, `true` an OR; otherwise any unknown stays unknown
+            const decisive = node.kind === 'or';
+            let result: Truth = !decisive;
+            for (const child of node.nodes) {
+                const outcome = evaluate(record, child);
+                if (outcome === decisive) {
+                    return decisive;
+                }
+                if (outcome === null) {
+                    result = null;
+                }
+            }
+            return result;
+        }
+        case 'not': {
+            const outcome = evaluate(record, node.node);
+            return outcome === null ? null : !outcome;
+        }
+    }
+}
+
+/**
+ * Check whether a record matches a filter tree
+ */
+export function matchesFilter(record: Record<string, unknown>, node: FilterNode): boolean {
+    return evaluate(record, node) === true;
+}
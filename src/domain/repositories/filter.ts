@@ -0,0 +1,183 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * QUERY FILTERS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Say what you are looking for, not how the database should find it."
+ *
+ * A typed filter language for `QueryOptions.where`. Plain values still mean
+ * equality, so `{ published: true }` keeps working; operator objects and
+ * `and`/`or`/`not` groups express everything else:
+ *
+ * {
+ *   status: { in: ['draft', 'review'] },
+ *   createdAt: { gte: since },
+ *   or: [{ title: { startsWith: 'How' } }, { pinned: true }],
+ * }
+ *
+ * Filters are parsed into a small tree that each adapter translates.
+ */
+
+import { InvalidFilterError } from '../errors/domain.error.js';
+
+/**
+ * Operators available on a single field
+ */
+export interface FieldOperators<V> {
+    /** Value is one of the given values */
+    in?: ReadonlyArray<V>;
+    /** Value is none of the given values */
+    notIn?: ReadonlyArray<V>;
+    gt?: V;
+    gte?: V;
+    lt?: V;
+    lte?: V;
+    /** String value contains the substring */
+    contains?: string;
+    /** String value starts with the prefix */
+    startsWith?: string;
+    /** Value is (true) or is not (false) null */
+    isNull?: boolean;
+}
+
+/**
+ * Filter for a single field: a value (equality) or operators
+ */
+export type FieldFilter<V> = V | null | FieldOperators<NonNullable<V>>;
+
+/**
+ * Filter over the fields of `T`, combinable with logical groups
+ * All conditions at the same level must match.
+ */
+export type Filter<T> = {
+    [K in keyof T]?: FieldFilter<T[K]>;
+} & {
+    and?: ReadonlyArray<Filter<T>>;
+    or?: ReadonlyArray<Filter<T>>;
+    not?: Filter<T>;
+};
+
+/**
+ * Operators of parsed conditions (`eq` for plain values)
+ */
+export type FilterOperator =
+    | 'eq'
+    | 'in'
+    | 'notIn'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'contains'
+    | 'startsWith'
+    | 'isNull';
+
+/**
+ * A comparison on one field
+ */
+export interface FilterCondition {
+    kind: 'condition';
+    field: string;
+    operator: FilterOperator;
+    value: unknown;
+}
+
+/**
+ * Parsed filter tree handed to adapters
+ */
+export type FilterNode =
+    | FilterCondition
+    | { kind: 'and'; nodes: FilterNode[] }
+    | { kind: 'or'; nodes: FilterNode[] }
+    | { kind: 'not'; node: FilterNode };
+
+const FIELD_OPERATORS = new Set<string>([
+    'in', 'notIn', 'gt', 'gte', 'lt', 'lte', 'contains', 'startsWith', 'isNull',
+]);
+
+/**
+ * Whether a field filter is an operator object rather than a value
+ * Dates, arrays and class instances are values.
+ */
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype
+    );
+}
+
+function parseField(field: string, filter: unknown): FilterNode[] {
+    if (filter === undefined) {
+        return [];
+    }
+    if (filter === null) {
+        return [{ kind: 'condition', field, operator: 'isNull', value: true }];
+    }
+    if (!isOperatorObject(filter)) {
+        return [{ kind: 'condition', field, operator: 'eq', value: filter }];
+    }
+
+    const conditions: FilterNode[] = [];
+    for (const [operator, value] of Object.entries(filter)) {
+        if (value === undefined) {
+            continue;
+        }
+        if (!FIELD_OPERATORS.has(operator)) {
+            throw new InvalidFilterError(`Unknown filter operator '${operator}' on '${field}'`, field);
+        }
+        if ((operator === 'in' || operator === 'notIn') && !Array.isArray(value)) {
+            throw new InvalidFilterError(`'${operator}' on '${field}' expects an array`, field);
+        }
+        if ((operator === 'contains' || operator === 'startsWith') && typeof value !== 'string') {
+            throw new InvalidFilterError(`'${operator}' on '${field}' expects a string`, field);
+        }
+        if (operator === 'isNull' && typeof value !== 'boolean') {
+            throw new InvalidFilterError(`'isNull' on '${field}' expects a boolean`, field);
+        }
+        conditions.push({
+            kind: 'condition',
+            field,
+            operator: operator as FilterOperator,
+            value,
+        });
+    }
+    return conditions;
+}
+
+/**
+ * Parse a filter into a tree of conditions
+ * An empty filter parses to an empty `and`, which matches everything.
+ * @throws InvalidFilterError for unknown operators or mistyped operands
+ */
+export function parseFilter<T>(filter: Filter<T>): FilterNode {
+    const nodes: FilterNode[] = [];
+
+    for (const [key, value] of Object.entries(filter as Record<string, unknown>)) {
+        if (value === undefined) {
+            continue;
+        }
+
+        if (key === 'and' || key === 'or') {
+            if (!Array.isArray(value)) {
+                throw new InvalidFilterError(`'${key}' expects an array of filters`);
+            }
+            const children = (value as Array<Filter<T>>).map((child) => parseFilter(child));
+            nodes.push(key === 'and' ? { kind: 'and', nodes: children } : { kind: 'or', nodes: children });
+        } else if (key === 'not') {
+            nodes.push({ kind: 'not', node: parseFilter(value as Filter<T>) });
+        } else {
+            nodes.push(...parseField(key, value));
+        }
+    }
+
+    const [only] = nodes;
+    return only && nodes.length === 1 ? only : { kind: 'and', nodes };
+}
+
+/**
+ * Whether a parsed filter matches everything
+ */
+export function isEmptyFilter(node: FilterNode): boolean {
+    return node.kind === 'and' && node.nodes.length === 0;
+}
@@ -0,0 +1,119 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SPECIFICATION
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Name the rule once. Check it anywhere. Query it everywhere."
+ *
+ * A specification captures a business rule ("published posts by an author
+ * in the last 30 days") as a query filter. The same object checks a single
+ * entity in memory and queries any repository through `findBySpec`.
+ */
+
+import { Entity, type EntityProps } from '../entities/base.entity.js';
+import { parseFilter, type Filter } from '../repositories/filter.js';
+import { matchesFilter } from '../repositories/filter-matcher.js';
+
+/**
+ * Base class for specifications over entities with the given props
+ *
+ * @example
+ * ```ts
+ * class PublishedSince extends Specification<PostProps> {
+ *   constructor(private readonly since: Date) { super(); }
+ *
+ *   toFilter(): Filter<PostProps> {
+ *     return { published: true, publishedAt: { gte: this.since } };
+ *   }
+ * }
+ *
+ * const spec = new PublishedSince(lastMonth).and(new WrittenBy(authorId));
+ * spec.isSatisfiedBy(post);
+ * await postRepository.findBySpec(spec);
+ * ```
+ */
+export abstract class Specification<TProps extends EntityProps> {
+    /**
+     * The rule as a query filter
+     * Called on every check or query, so time-relative rules stay current.
+     */
+    abstract toFilter(): Filter<TProps>;
+
+    /**
+     * Check whether an entity (or its props) satisfies the rule
+     */
+    isSatisfiedBy(candidate: Entity<TProps> | TProps): boolean {
+        const props = candidate instanceof Entity ? candidate.toObject() : candidate;
+        return matchesFilter(props as Record<string, unknown>, parseFilter(this.toFilter()));
+    }
+
+    /**
+     * Satisfied when both this and the other specification are
+     */
+    and(other: Specification<TProps>): Specification<TProps> {
+        return new AndSpecification(this, other);
+    }
+
+    /**
+     * Satisfied when this or the other specification is
+     */
+    or(other: Specification<TProps>): Specification<TProps> {
+        return new OrSpecification(this, other);
+    }
+
+    /**
+     * Satisfied when this specification is not
+     */
+    not(): Specification<TProps> {
+        return new NotSpecification(this);
+    }
+}
+
+class AndSpecification<TProps extends EntityProps> extends Specification<TProps> {
+    constructor(
+        private readonly left: Specification<TProps>,
+        private readonly right: Specification<TProps>
+    ) {
+        super();
+    }
+
+    toFilter(): Filter<TProps> {
+        return { and: [this.left.toFilter(), this.right.toFilter()] } as Filter<TProps>;
+    }
+}
+
+class OrSpecification<TProps extends EntityProps> extends Specification<TProps> {
+    constructor(
+        private readonly left: Specification<TProps>,
+        private readonly right: Specification<TProps>
+    ) {
+        super();
+    }
+
+    toFilter(): Filter<TProps> {
+        return { or: [this.left.toFilter(), this.right.toFilter()] } as Filter<TProps>;
+    }
+}
+
+class NotSpecification<TProps extends EntityProps> extends Specification<TProps> {
+    constructor(private readonly inner: Specification<TProps>) {
+        super();
+    }
+
+    toFilter(): Filter<TProps> {
+        return { not: this.inner.toFilter() } as Filter<TProps>;
+    }
+}
+
+/**
+ * Create a specification from a filter (for ad-hoc rules)
+ */
+export function specification<TProps extends EntityProps>(
+    filter: Filter<TProps> | (() => Filter<TProps>)
+): Specification<TProps> {
+    return new (class extends Specification<TProps> {
+        toFilter(): Filter<TProps> {
+            return typeof filter === 'function' ? filter() : filter;
+        }
+    })();
+}
@@ -5,35 +5,107 @@
  *
  * "A value object has no identity—it is defined entirely by its attributes.
  * Two cursors pointing to the same position are the same cursor."
+ *
+ * The single representation of a pagination cursor. `CursorPaginator`
+ * produces and consumes cursors through this class, so every cursor is
+ * parsed with the same validation.
  */
 
+import { createHmac, timingSafeEqual } from 'node:crypto';
 import { z } from 'zod';
-import type { CursorDirection } from '../../shared/utils/cursor-pagination.util.js';
+import { InvalidCursorError } from '../errors/domain.error.js';
+
+/**
+ * Cursor direction for bidirectional navigation
+ */
+export type CursorDirection = 'forward' | 'backward';
+
+/**
+ * Value of a sort field stored in a cursor
+ */
+export type CursorSortValue = string | number | boolean | Date | null;
+
+/**
+ * Position on a custom sort order, with the cursor value as tie-breaker
+ */
+export interface CursorSortPosition {
+    /** The sort field the cursor was created for */
+    field: string;
+    /** The sort field value of the item at the cursor */
+    value: CursorSortValue;
+}
 
 /**
- * Schema for validating cursor structure
+ * Signing configuration for tamper-proof cursors
+ */
+export interface CursorSigningOptions {
+    /** HMAC-SHA256 key */
+    secret: string;
+    /** Lifetime of issued cursors in seconds (default: no expiry) */
+    ttlSeconds?: number;
+}
+
+/**
+ * Options for encoding and decoding cursors
+ */
+export interface CursorTokenOptions {
+    /** Sign cursors and reject unsigned or tampered ones */
+    signing?: CursorSigningOptions | undefined;
+    /** Fingerprint of the query the cursor belongs to (see `queryFingerprint`) */
+    fingerprint?: string | undefined;
+}
+
+/**
+ * Schema for validating cursor structure (short keys keep cursors compact)
  */
 const cursorPayloadSchema = z.object({
     v: z.string(), // value
     d: z.enum(['forward', 'backward']), // direction
+    s: z // sort field, type tag and serialized value
+        .object({
+            f: z.string(),
+            t: z.enum(['date', 'json']),
+            v: z.union([z.string(), z.number(), z.boolean(), z.null()]),
+        })
+        .optional(),
+    q: z.string().optional(), // query fingerprint
+    x: z.number().optional(), // expiry (epoch ms)
 });
 
+type CursorPayload = z.infer<typeof cursorPayloadSchema>;
+
+function sign(body: string, secret: string): string {
+    return createHmac('sha256', secret).update(body).digest('base64url');
+}
+
+function hasValidSignature(body: string, signature: string, secret: string): boolean {
+    const expected = Buffer.from(sign(body, secret));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function sameSortValue(a: CursorSortValue, b: CursorSortValue): boolean {
+    return a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+}
+
 /**
  * Cursor Value Object
  *
  * Encapsulates the logic for encoding/decoding pagination cursors.
- * This is a value object—two cursors with the same value and direction are equal.
+ * This is a value object—two cursors with the same position and direction are equal.
  */
 export class Cursor {
     private constructor(
         private readonly _value: string,
-        private readonly _direction: CursorDirection
+        private readonly _direction: CursorDirection,
+        private readonly _sort: CursorSortPosition | undefined
     ) {
         Object.freeze(this);
     }
 
     /**
      * The raw cursor value (typically an ID or timestamp)
+     * Breaks ties between items with the same sort value.
      */
     get value(): string {
         return this._value;
@@ -46,63 +118,123 @@ export class Cursor {
         return this._direction;
     }
 
+    /**
+     * The typed sort field value, for cursors on an order other than the cursor value
+     */
+    get sort(): CursorSortPosition | undefined {
+        return this._sort;
+    }
+
     /**
      * Create a new Cursor for forward pagination
      */
-    static forward(value: string): Cursor {
-        return new Cursor(value, 'forward');
+    static forward(value: string, sort?: CursorSortPosition): Cursor {
+        return new Cursor(value, 'forward', sort);
     }
 
     /**
      * Create a new Cursor for backward pagination
      */
-    static backward(value: string): Cursor {
-        return new Cursor(value, 'backward');
+    static backward(value: string, sort?: CursorSortPosition): Cursor {
+        return new Cursor(value, 'backward', sort);
     }
 
     /**
      * Decode a Base64 cursor string into a Cursor value object
-     * @returns Cursor if valid, null if invalid
+     * @param options - Signing and query fingerprint the cursor must match
+     * @throws InvalidCursorError if the cursor is malformed, tampered with,
+     * expired or was issued for another query
      */
-    static decode(encoded: string): Cursor | null {
+    static decode(encoded: string, options: CursorTokenOptions = {}): Cursor {
+        const [body = '', signature, ...rest] = encoded.split('.');
+        if (
+            options.signing &&
+            (signature === undefined ||
+                rest.length > 0 ||
+                !hasValidSignature(body, signature, options.signing.secret))
+        ) {
+            throw new InvalidCursorError('signature does not match');
+        }
+
+        let parsed: CursorPayload;
         try {
-            const payload = Buffer.from(encoded, 'base64url').toString('utf-8');
-            const parsed = cursorPayloadSchema.parse(JSON.parse(payload));
-            return new Cursor(parsed.v, parsed.d);
+            parsed = cursorPayloadSchema.parse(
+                JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'))
+            );
         } catch {
-            return null;
+            throw new InvalidCursorError('malformed cursor');
+        }
+
+        if (parsed.x !== undefined && parsed.x <= Date.now()) {
+            throw new InvalidCursorError('cursor has expired');
+        }
+        if (options.fingerprint !== undefined && parsed.q !== options.fingerprint) {
+            throw new InvalidCursorError('cursor was issued for a different query');
+        }
+
+        const sort = parsed.s && {
+            field: parsed.s.f,
+            value: parsed.s.t === 'date' ? new Date(parsed.s.v as string) : parsed.s.v,
+        };
+        if (sort?.value instanceof Date && Number.isNaN(sort.value.getTime())) {
+            throw new InvalidCursorError('malformed cursor');
         }
+        return new Cursor(parsed.v, parsed.d, sort);
     }
 
     /**
      * Encode this cursor to a Base64 string for API responses
+     * @param options - Sign the cursor and bind it to a query fingerprint
      */
-    encode(): string {
-        const payload = JSON.stringify({
+    encode(options: CursorTokenOptions = {}): string {
+        const payload: CursorPayload = {
             v: this._value,
             d: this._direction,
-        });
-        return Buffer.from(payload).toString('base64url');
+        };
+        if (this._sort) {
+            const { field, value } = this._sort;
+            payload.s = value instanceof Date
+                ? { f: field, t: 'date', v: value.toISOString() }
+                : { f: field, t: 'json', v: value };
+        }
+        if (options.fingerprint !== undefined) {
+            payload.q = options.fingerprint;
+        }
+        if (options.signing?.ttlSeconds !== undefined) {
+            payload.x = Date.now() + options.signing.ttlSeconds * 1000;
+        }
+
+        const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+        return options.signing ? `${body}.${sign(body, options.signing.secret)}` : body;
     }
 
     /**
      * Check equality with another cursor
      */
     equals(other: Cursor): boolean {
-        return this._value === other._value && this._direction === other._direction;
+        return (
+            this._value === other._value &&
+            this._direction === other._direction &&
+            this._sort?.field === other._sort?.field &&
+            sameSortValue(this._sort?.value ?? null, other._sort?.value ?? null)
+        );
     }
 
     /**
      * Create a copy with a different direction
      */
     withDirection(direction: CursorDirection): Cursor {
-        return new Cursor(this._value, direction);
+        return new Cursor(this._value, direction, this._sort);
     }
 
     /**
      * String representation for debugging
      */
     toString(): string {
-        return `Cursor(${this._direction}: ${this._value})`;
+        const sortValue = this._sort?.value instanceof Date
+            ? this._sort.value.toISOString()
+            : String(this._sort?.value);
+        const sort = this._sort ? ` after ${this._sort.field}=${sortValue}` : '';
+        return `Cursor(${this._direction}: ${this._value}${sort})`;
     }
 }
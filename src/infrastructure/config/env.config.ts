@@ -15,6 +15,16 @@ import { config } from 'dotenv';
 // Load .env file
 config();
 
+/**
+ * URL schemes accepted in DATABASE_URL for each DB_TYPE
+ */
+const DATABASE_URL_PROTOCOLS: Partial<Record<string, string[]>> = {
+    postgres: ['postgresql://'],
+    mysql: ['mysql://'],
+    sqlite: ['file:'],
+    mongo: ['mongodb://', 'mongodb+srv://'],
+};
+
 /**
  * Environment Schema
  * This is the single source of truth for all environment variables.
@@ -33,8 +43,9 @@ const envSchema = z.object({
     // ─────────────────────────────────────────────────────────────────────────
     // Database
     // ─────────────────────────────────────────────────────────────────────────
-    DATABASE_URL: z.string().url().startsWith('postgresql://'),
-    DB_TYPE: z.enum(['postgres', 'mysql', 'mongo', 'firestore']).default('postgres'),
+    // Validated against DB_TYPE below
+    DATABASE_URL: z.string().url(),
+    DB_TYPE: z.enum(['postgres', 'mysql', 'sqlite', 'mongo', 'firestore']).default('postgres'),
 
     // Firebase (Required only if DB_TYPE is firestore)
     FIREBASE_PROJECT_ID: z.string().optional(),
@@ -54,11 +65,33 @@ const envSchema = z.object({
     JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
     JWT_EXPIRES_IN: z.string().default('7d'),
 
+    // ─────────────────────────────────────────────────────────────────────────
+    // Domain Events
+    // ─────────────────────────────────────────────────────────────────────────
+    OUTBOX_RELAY_ENABLED: z
+        .enum(['true', 'false'])
+        .default('true')
+        .transform((value) => value === 'true'),
+    OUTBOX_POLL_INTERVAL_MS: z.coerce.number().int().min(100).default(1000),
+    OUTBOX_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(10),
+
     // ─────────────────────────────────────────────────────────────────────────
     // Pagination
     // ─────────────────────────────────────────────────────────────────────────
     DEFAULT_PAGE_SIZE: z.coerce.number().int().min(1).max(100).default(20),
     MAX_PAGE_SIZE: z.coerce.number().int().min(1).max(1000).default(100),
+    // Sign cursors so clients cannot forge them (unsigned when unset)
+    CURSOR_SECRET: z.string().min(32, 'CURSOR_SECRET must be at least 32 characters').optional(),
+    CURSOR_TTL_SECONDS: z.coerce.number().int().min(1).optional(),
+}).superRefine((env, ctx) => {
+    const protocols = DATABASE_URL_PROTOCOLS[env.DB_TYPE];
+    if (protocols && !protocols.some((protocol) => env.DATABASE_URL.startsWith(protocol))) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['DATABASE_URL'],
+            message: `must start with ${protocols.join(' or ')} when DB_TYPE is ${env.DB_TYPE}`,
+        });
+    }
 });
 
 /**
@@ -0,0 +1,58 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CONTAINER MODULES
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Group what changes together. Load only what the environment needs."
+ *
+ * A module bundles related registrations behind a name. Modules can carry
+ * a condition on the environment, which is how the adapters for the
+ * configured `DB_TYPE` are chosen.
+ */
+
+import type { Container } from './container.js';
+
+/**
+ * Decides from the environment whether a module is loaded
+ */
+export type ModuleCondition<TEnv> = (env: TEnv) => boolean;
+
+/**
+ * A named group of registrations
+ */
+export interface ContainerModule<TEnv = unknown> {
+    /** Unique name; a module is only loaded once per container */
+    readonly name: string;
+    /** Only load the module when this returns true (default: always) */
+    readonly when?: ModuleCondition<TEnv>;
+    /** Register the module's dependencies */
+    load(container: Container, env: TEnv): void;
+}
+
+/**
+ * Define a module (an identity helper for type inference)
+ *
+ * @example
+ * ```ts
+ * export const firestoreModule = defineModule<Env>({
+ *   name: 'firestore',
+ *   when: whenEnv('DB_TYPE', 'firestore'),
+ *   load: (container) => {
+ *     container.registerSingleton(TOKENS.Firestore, () => getFirestoreClient());
+ *   },
+ * });
+ * ```
+ */
+export function defineModule<TEnv>(module: ContainerModule<TEnv>): ContainerModule<TEnv> {
+    return module;
+}
+
+/**
+ * Condition matching when an env value is one of the given values
+ */
+export function whenEnv<TEnv, K extends keyof TEnv>(
+    key: K,
+    ...values: ReadonlyArray<TEnv[K]>
+): ModuleCondition<TEnv> {
+    return (env) => values.includes(env[key]);
+}
@@ -0,0 +1,156 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CONTAINER ERRORS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "A wiring mistake found at boot is a bug that never reaches production."
+ *
+ * Errors raised while resolving dependencies. Each carries the resolution
+ * path that led to it, so a failure deep in the graph can be traced back
+ * to the dependency that was actually requested.
+ */
+
+/**
+ * Readable name of a token, with the binding name if any (e.g. `Repository[replica]`)
+ */
+export function describeToken(token: symbol, name?: string): string {
+    const description = token.description ?? token.toString();
+    return name === undefined ? description : `${description}[${name}]`;
+}
+
+/**
+ * Format a resolution path as `A -> B -> C`
+ */
+export function formatResolutionPath(path: ReadonlyArray<string>): string {
+    return path.join(' -> ');
+}
+
+function withPath(message: string, path: ReadonlyArray<string>): string {
+    return path.length > 1 ? `${message} (resolving ${formatResolutionPath(path)})` : message;
+}
+
+/**
+ * Base class for all container errors
+ */
+export class ContainerError extends Error {
+    constructor(
+        message: string,
+        /** Dependencies being resolved when the error occurred, outermost first */
+        public readonly resolutionPath: ReadonlyArray<string> = []
+    ) {
+        super(message);
+        this.name = 'ContainerError';
+    }
+}
+
+/**
+ * A requested dependency has no registration
+ */
+export class MissingRegistrationError extends ContainerError {
+    constructor(dependency: string, path: ReadonlyArray<string> = [dependency]) {
+        super(withPath(`No registration found for token: ${dependency}`, path), path);
+        this.name = 'MissingRegistrationError';
+    }
+}
+
+/**
+ * A dependency was requested without a name, but several bindings could match
+ */
+export class AmbiguousRegistrationError extends ContainerError {
+    constructor(
+        dependency: string,
+        public readonly candidates: ReadonlyArray<string>,
+        path: ReadonlyArray<string> = [dependency]
+    ) {
+        super(
+            withPath(
+                `${dependency} has ${candidates.length} bindings (${candidates.join(', ')}) ` +
+                'and no default. Resolve it by name or with resolveAll().',
+                path
+            ),
+            path
+        );
+        this.name = 'AmbiguousRegistrationError';
+    }
+}
+
+/**
+ * A dependency was registered twice on the same container
+ */
+export class DuplicateRegistrationError extends ContainerError {
+    constructor(dependency: string) {
+        super(
+            `${dependency} is already registered. ` +
+            'Pass { replace: true } or use override() to replace it.'
+        );
+        this.name = 'DuplicateRegistrationError';
+    }
+}
+
+/**
+ * A factory (indirectly) depends on itself
+ */
+export class CircularDependencyError extends ContainerError {
+    constructor(path: ReadonlyArray<string>) {
+        super(`Circular dependency detected: ${formatResolutionPath(path)}`, path);
+        this.name = 'CircularDependencyError';
+    }
+}
+
+/**
+ * A scoped dependency was resolved from the root container
+ */
+export class ScopedResolutionError extends ContainerError {
+    constructor(dependency: string, path: ReadonlyArray<string> = [dependency]) {
+        super(
+            withPath(`Cannot resolve scoped dependency ${dependency} outside of a scope`, path),
+            path
+        );
+        this.name = 'ScopedResolutionError';
+    }
+}
+
+/**
+ * A dependency needing async creation was resolved synchronously
+ */
+export class AsyncResolutionError extends ContainerError {
+    constructor(
+        dependency: string,
+        reason: 'async factory' | 'onInit hook' | 'pending creation',
+        path: ReadonlyArray<string> = [dependency]
+    ) {
+        super(
+            withPath(
+                reason === 'pending creation'
+                    ? `${dependency} is still being created by resolveAsync(). Await it first.`
+                    : `${dependency} has an ${reason}. Use resolveAsync() or initialize() first.`,
+                path
+            ),
+            path
+        );
+        this.name = 'AsyncResolutionError';
+    }
+}
+
+/**
+ * A dependency was resolved from a disposed container
+ */
+export class DisposedContainerError extends ContainerError {
+    constructor(dependency: string) {
+        super(`Cannot resolve ${dependency} from a disposed container`);
+        this.name = 'DisposedContainerError';
+    }
+}
+
+/**
+ * `container.validate()` found registrations that cannot be resolved
+ */
+export class ContainerValidationError extends ContainerError {
+    constructor(public readonly errors: ReadonlyArray<Error>) {
+        super(
+            `Container validation failed with ${errors.length} error(s):\n` +
+            errors.map((error) => `  - ${error.message}`).join('\n')
+        );
+        this.name = 'ContainerValidationError';
+    }
+}
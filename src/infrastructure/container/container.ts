@@ -9,105 +9,559 @@
  * For production, consider using tsyringe or inversify.
  *
  * MULTI-DATABASE STRATEGY:
- * To support multiple databases, register repositories based on `env.DB_TYPE`.
- * Example:
- * if (env.DB_TYPE === 'firestore') {
- *   container.registerSingleton(TOKENS.UserRepo, () => new FirestoreUserRepository());
- * } else {
- *   container.registerSingleton(TOKENS.UserRepo, () => new PrismaUserRepository());
- * }
+ * Registrations are grouped into modules (see `container-module.ts`), and
+ * modules can be loaded conditionally on env values such as `DB_TYPE`:
+ *
+ * export const firestoreModule = defineModule({
+ *   name: 'firestore',
+ *   when: whenEnv('DB_TYPE', 'firestore'),
+ *   load: (c) => c.registerSingleton(TOKENS.UserRepo, () => new FirestoreUserRepository()),
+ * });
+ *
+ * MULTI-BINDINGS AND NAMED BINDINGS:
+ * A token can have several bindings. `registerMulti` contributes one of many
+ * implementations (collected with `resolveAll`), and the `name` option adds
+ * a named binding (resolved with `resolve(token, name)`):
+ *
+ * c.registerSingleton(TOKENS.Database, () => primary);
+ * c.registerSingleton(TOKENS.Database, () => replica, { name: 'replica' });
+ * c.resolve(TOKENS.Database, 'replica');
  */
 
+import {
+    AmbiguousRegistrationError,
+    AsyncResolutionError,
+    CircularDependencyError,
+    ContainerValidationError,
+    DisposedContainerError,
+    DuplicateRegistrationError,
+    MissingRegistrationError,
+    ScopedResolutionError,
+    describeToken,
+} from './container.errors.js';
+
+import type { Token } from './tokens.js';
+import type { ContainerModule } from './container-module.js';
+
+export { createToken, TOKENS, type Token } from './tokens.js';
+
 /**
- * Token type for dependency registration
+ * Factory function type
+ * Factories returning a promise must be resolved with `resolveAsync()`.
  */
-export type Token<T> = symbol & { __type?: T };
+type Factory<T> = (container: Container) => T | Promise<T>;
 
 /**
- * Create a typed injection token
+ * Dependency lifecycle
+ * - singleton: one instance for the root container and all its scopes
+ * - scoped: one instance per scope (e.g. per HTTP request)
+ * - transient: a new instance on every resolve
  */
-export function createToken<T>(description: string): Token<T> {
-    return Symbol(description) as Token<T>;
+export type Lifecycle = 'singleton' | 'scoped' | 'transient';
+
+/**
+ * Hooks run around the lifetime of a created instance
+ */
+export interface LifecycleHooks<T> {
+    /** Run once after the instance is created (requires `resolveAsync()` or `initialize()`) */
+    onInit?: (instance: T, container: Container) => void | Promise<void>;
+    /** Run when the owning container is disposed (default: the instance's `dispose()`) */
+    onDispose?: (instance: T) => void | Promise<void>;
 }
 
 /**
- * Factory function type
+ * Options accepted by the `register*` methods
  */
-type Factory<T> = (container: Container) => T;
+export interface RegistrationOptions<T> extends LifecycleHooks<T> {
+    /** Register a named binding, resolved with `resolve(token, name)` */
+    name?: string;
+    /** Replace an existing registration of the token instead of failing */
+    replace?: boolean;
+}
 
 /**
- * Dependency lifecycle
+ * Options accepted by `registerMulti`
  */
-type Lifecycle = 'singleton' | 'transient';
+export interface MultiRegistrationOptions<T> extends LifecycleHooks<T> {
+    /** Lifecycle of this binding (default: singleton) */
+    lifecycle?: Lifecycle;
+    /** Optional name, to also resolve this binding on its own */
+    name?: string;
+}
 
 /**
- * Registration entry
+ * Registration entry (one binding of a token)
  */
 interface Registration<T> {
+    token: symbol;
+    /** Binding name; undefined for the default binding */
+    name: string | undefined;
+    /** Contributed with `registerMulti` */
+    multi: boolean;
     factory: Factory<T>;
     lifecycle: Lifecycle;
+    hooks: LifecycleHooks<T>;
     instance?: T;
+    pending?: Promise<T>;
+    /** Registered with `registerInstance`: not created (or forgotten) by the container */
+    external?: boolean;
+}
+
+/**
+ * A binding being resolved, for cycle detection and error paths
+ */
+interface ResolutionStep {
+    label: string;
+    registration: Registration<unknown>;
+}
+
+/**
+ * An instance created by a container, kept for disposal
+ */
+interface TrackedInstance {
+    instance: unknown;
+    onDispose?: ((instance: never) => void | Promise<void>) | undefined;
+}
+
+/**
+ * Instances with resources to release when their container is disposed
+ */
+export interface Disposable {
+    dispose(): void | Promise<void>;
+}
+
+function isDisposable(value: unknown): value is Disposable {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as Partial<Disposable>).dispose === 'function'
+    );
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as Partial<Promise<T>>).then === 'function'
+    );
+}
+
+/**
+ * Readable name of a binding
+ */
+function describeBinding<T>(registration: Registration<T>, index: number): string {
+    if (registration.name !== undefined) {
+        return describeToken(registration.token, registration.name);
+    }
+    return registration.multi
+        ? `${describeToken(registration.token)}#${index}`
+        : describeToken(registration.token);
+}
+
+/**
+ * Options for `container.validate()`
+ */
+export interface ValidationOptions {
+    /** Register what the request scope middleware provides (e.g. the request context) */
+    configureScope?: (scope: Container) => void;
+}
+
+/**
+ * A dependency in the graph
+ */
+export interface DependencyGraphNode {
+    token: string;
+    /** Lifecycle of the registration, or null if the token is not registered */
+    lifecycle: Lifecycle | null;
+    registered: boolean;
+}
+
+/**
+ * Dependencies observed while resolving, for debugging
+ */
+export interface DependencyGraph {
+    nodes: DependencyGraphNode[];
+    edges: Array<{ from: string; to: string }>;
 }
 
 /**
  * Simple DI Container
  */
 export class Container {
-    private registrations = new Map<symbol, Registration<unknown>>();
+    private registrations = new Map<symbol, Registration<unknown>[]>();
+    private scopedInstances = new Map<Registration<unknown>, unknown>();
+    private pendingScoped = new Map<Registration<unknown>, Promise<unknown>>();
+    private created: TrackedInstance[] = [];
+    private disposed = false;
+    /** Bindings being resolved, outermost first (set on resolution views only) */
+    private resolving: ReadonlyArray<ResolutionStep> = [];
+    /** Observed dependencies, kept on the root container */
+    private dependencies = new Map<symbol, Set<symbol>>();
+    private observedLifecycles = new Map<symbol, Lifecycle>();
+    private loadedModules = new Set<string>();
+    /** Bindings shadowed by `override()`, restored by `restoreOverrides()` */
+    private overridden = new Map<symbol, Registration<unknown>[] | undefined>();
+    private replacing = false;
+
+    /**
+     * @param parent - The container this scope was created from (none for the root)
+     */
+    constructor(private readonly parent: Container | null = null) { }
+
+    /**
+     * Whether this container is a scope created with `createScope()`
+     */
+    get isScope(): boolean {
+        return this.parent !== null;
+    }
 
     /**
      * Register a singleton (single instance for entire app lifetime)
      */
-    registerSingleton<T>(token: Token<T>, factory: Factory<T>): this {
-        this.registrations.set(token, { factory, lifecycle: 'singleton' });
-        return this;
+    registerSingleton<T>(
+        token: Token<T>,
+        factory: Factory<T>,
+        options: RegistrationOptions<T> = {}
+    ): this {
+        return this.register(token, factory, 'singleton', options);
+    }
+
+    /**
+     * Register a scoped dependency (single instance per scope)
+     * Scoped dependencies can only be resolved from a scope.
+     */
+    registerScoped<T>(
+        token: Token<T>,
+        factory: Factory<T>,
+        options: RegistrationOptions<T> = {}
+    ): this {
+        return this.register(token, factory, 'scoped', options);
     }
 
     /**
      * Register a transient (new instance each time)
+     * Transient instances are owned by the caller and never disposed by the container.
      */
-    registerTransient<T>(token: Token<T>, factory: Factory<T>): this {
-        this.registrations.set(token, { factory, lifecycle: 'transient' });
-        return this;
+    registerTransient<T>(
+        token: Token<T>,
+        factory: Factory<T>,
+        options: Omit<RegistrationOptions<T>, 'onDispose'> = {}
+    ): this {
+        return this.register(token, factory, 'transient', options);
     }
 
     /**
      * Register an existing instance as a singleton
+     * Registered on a scope, the instance is only visible to that scope.
+     * The container only disposes it when an `onDispose` hook is given.
      */
-    registerInstance<T>(token: Token<T>, instance: T): this {
-        this.registrations.set(token, {
+    registerInstance<T>(
+        token: Token<T>,
+        instance: T,
+        options: Omit<RegistrationOptions<T>, 'onInit'> = {}
+    ): this {
+        this.addBinding(token, {
+            token,
+            name: options.name,
+            multi: false,
             factory: () => instance,
             lifecycle: 'singleton',
+            hooks: options,
             instance,
-        });
+            external: true,
+        }, options.replace);
+        if (options.onDispose) {
+            this.created.push({ instance, onDispose: options.onDispose });
+        }
+        return this;
+    }
+
+    /**
+     * Add one of many implementations of a token (e.g. event handlers, health checks)
+     * All of them are resolved with `resolveAll()`.
+     */
+    registerMulti<T>(
+        token: Token<T>,
+        factory: Factory<T>,
+        options: MultiRegistrationOptions<T> = {}
+    ): this {
+        this.addBinding(token, {
+            token,
+            name: options.name,
+            multi: true,
+            factory,
+            lifecycle: options.lifecycle ?? 'singleton',
+            hooks: options,
+        }, false);
+        return this;
+    }
+
+    /**
+     * Load modules whose condition matches the environment, in order
+     * A module is only loaded once; loading it again is a no-op.
+     * @param options.replace - Let the modules replace existing registrations (e.g. test fakes)
+     */
+    load<TEnv>(
+        modules: ReadonlyArray<ContainerModule<TEnv>>,
+        env: TEnv,
+        options: { replace?: boolean } = {}
+    ): this {
+        for (const module of modules) {
+            if (this.loadedModules.has(module.name) || (module.when && !module.when(env))) {
+                continue;
+            }
+
+            this.replacing = options.replace ?? false;
+            try {
+                module.load(this, env);
+            } finally {
+                this.replacing = false;
+            }
+            this.loadedModules.add(module.name);
+        }
+        return this;
+    }
+
+    /**
+     * Names of the modules loaded so far
+     */
+    get modules(): ReadonlyArray<string> {
+        return [...this.loadedModules];
+    }
+
+    /**
+     * Temporarily replace every binding of a token with an instance (useful for testing)
+     * Override before resolving dependents; instances already created keep the original.
+     */
+    override<T>(token: Token<T>, instance: T): this {
+        if (!this.overridden.has(token)) {
+            this.overridden.set(token, this.registrations.get(token));
+        }
+        this.registrations.delete(token);
+        return this.registerInstance(token, instance);
+    }
+
+    /**
+     * Restore every registration replaced by `override()`
+     */
+    restoreOverrides(): this {
+        for (const [token, original] of this.overridden) {
+            if (original) {
+                this.registrations.set(token, original);
+            } else {
+                this.registrations.delete(token);
+            }
+        }
+        this.overridden.clear();
         return this;
     }
 
     /**
      * Resolve a dependency
+     * @param name - Resolve a named binding instead of the default one
+     * @throws AsyncResolutionError if the dependency has an async factory or an
+     * `onInit` hook and was not created with `resolveAsync()` yet
+     * @throws AmbiguousRegistrationError if there is no default binding but several candidates
+     */
+    resolve<T>(token: Token<T>, name?: string): T {
+        const { registration, owner, label } = this.lookup(token, name);
+        return this.resolveBinding(registration, owner, label);
+    }
+
+    /**
+     * Resolve a dependency, awaiting async factories and `onInit` hooks
+     * @param name - Resolve a named binding instead of the default one
      */
-    resolve<T>(token: Token<T>): T {
-        const registration = this.registrations.get(token) as Registration<T> | undefined;
+    async resolveAsync<T>(token: Token<T>, name?: string): Promise<T> {
+        const { registration, owner, label } = this.lookup(token, name);
+        return this.resolveBindingAsync(registration, owner, label);
+    }
+
+    /**
+     * Resolve every binding of a token, in registration order (parent scopes first)
+     * Returns an empty array when nothing is registered.
+     */
+    resolveAll<T>(token: Token<T>): T[] {
+        return this.collectBindings(token).map(({ registration, owner }, index) =>
+            this.resolveBinding(registration, owner, describeBinding(registration, index))
+        );
+    }
 
-        if (!registration) {
-            throw new Error(`No registration found for token: ${token.toString()}`);
+    /**
+     * Resolve every binding of a token, awaiting async factories and `onInit` hooks
+     */
+    async resolveAllAsync<T>(token: Token<T>): Promise<T[]> {
+        const instances: T[] = [];
+        for (const [index, { registration, owner }] of this.collectBindings(token).entries()) {
+            instances.push(
+                await this.resolveBindingAsync(registration, owner, describeBinding(registration, index))
+            );
         }
+        return instances;
+    }
 
-        if (registration.lifecycle === 'singleton') {
-            if (!registration.instance) {
-                registration.instance = registration.factory(this);
+    /**
+     * Create every singleton that has lifecycle hooks, in registration order
+     * Use at startup to connect databases and start adapters.
+     */
+    async initialize(): Promise<void> {
+        for (const [index, registration] of this.ownBindings()) {
+            const { onInit, onDispose } = registration.hooks;
+            if (registration.lifecycle === 'singleton' && (onInit || onDispose)) {
+                await this.resolveBindingAsync(registration, this, describeBinding(registration, index));
             }
-            return registration.instance;
+        }
+    }
+
+    /**
+     * Resolve every registration once, reporting all failures together
+     * Singletons are created (running their `onInit` hooks); scoped and transient
+     * dependencies are created in a throwaway scope. Use at boot to fail fast.
+     * @throws ContainerValidationError listing every registration that failed
+     */
+    async validate(options: ValidationOptions = {}): Promise<void> {
+        const errors: Error[] = [];
+        const scope = this.createScope();
+        options.configureScope?.(scope);
+
+        for (const [index, registration] of this.ownBindings()) {
+            const label = describeBinding(registration, index);
+            try {
+                if (registration.lifecycle === 'singleton') {
+                    await this.resolveBindingAsync(registration, this, label);
+                } else {
+                    await scope.resolveBindingAsync(registration, this, label);
+                }
+            } catch (error) {
+                errors.push(toError(error));
+            }
+        }
+
+        try {
+            await scope.dispose();
+        } catch (error) {
+            errors.push(toError(error));
+        }
+
+        if (errors.length > 0) {
+            throw new ContainerValidationError(errors);
+        }
+    }
+
+    /**
+     * Get the dependencies observed so far (complete after `validate()`)
+     */
+    getDependencyGraph(): DependencyGraph {
+        const root = this.root;
+        const tokens = new Set<symbol>(this.registrations.keys());
+        const edges: DependencyGraph['edges'] = [];
+
+        for (const [from, targets] of root.dependencies) {
+            tokens.add(from);
+            for (const to of targets) {
+                tokens.add(to);
+                edges.push({ from: describeToken(from), to: describeToken(to) });
+            }
+        }
+
+        const nodes = [...tokens].map((token): DependencyGraphNode => {
+            const lifecycle =
+                this.collectBindings(token)[0]?.registration.lifecycle ??
+                root.observedLifecycles.get(token) ??
+                null;
+            return { token: describeToken(token), lifecycle, registered: lifecycle !== null };
+        });
+
+        return { nodes, edges };
+    }
+
+    /**
+     * Dump the dependency graph as JSON or Graphviz DOT
+     * Unregistered dependencies are highlighted in red.
+     */
+    dumpGraph(format: 'json' | 'dot' = 'json'): string {
+        const graph = this.getDependencyGraph();
+
+        if (format === 'json') {
+            return JSON.stringify(graph, null, 2);
         }
 
-        return registration.factory(this);
+        const quote = (value: string): string => `"${value.replace(/"/g, '\\"')}"`;
+        const lines = ['digraph container {', '  node [shape=box];'];
+        for (const node of graph.nodes) {
+            const label = quote(`${node.token}\\n${node.lifecycle ?? 'missing'}`);
+            const style = node.registered ? '' : ', color=red, fontcolor=red';
+            lines.push(`  ${quote(node.token)} [label=${label}${style}];`);
+        }
+        for (const edge of graph.edges) {
+            lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+        }
+        lines.push('}');
+        return lines.join('\n');
     }
 
     /**
      * Check if a token is registered
+     * @param name - Check for a named binding; without it, any binding counts
      */
-    isRegistered<T>(token: Token<T>): boolean {
-        return this.registrations.has(token);
+    isRegistered<T>(token: Token<T>, name?: string): boolean {
+        return this.collectBindings(token).some(
+            ({ registration }) => name === undefined || registration.name === name
+        );
+    }
+
+    /**
+     * Create a child container with its own scoped instances
+     * Registrations are inherited; registrations on the scope stay local to it.
+     */
+    createScope(): Container {
+        return new Container(this);
+    }
+
+    /**
+     * Dispose the instances this container created, in reverse creation order
+     * Dependencies are always created first, so dependents are torn down first.
+     * The root container disposes singletons; scopes dispose scoped instances.
+     */
+    async dispose(): Promise<void> {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+
+        const instances = this.created.reverse();
+        this.created = [];
+        this.scopedInstances.clear();
+
+        let failure: unknown = null;
+        for (const { instance, onDispose } of instances) {
+            try {
+                if (onDispose) {
+                    await onDispose(instance as never);
+                } else if (isDisposable(instance)) {
+                    await instance.dispose();
+                }
+            } catch (error) {
+                // Release the remaining instances before reporting the failure
+                failure ??= error;
+            }
+        }
+
+        // Forget created instances; registered ones belong to the caller
+        for (const [, registration] of this.ownBindings()) {
+            if (!registration.external) {
+                delete registration.instance;
+            }
+            delete registration.pending;
+        }
+
+        if (failure) {
+            throw failure;
+        }
     }
 
     /**
@@ -115,6 +569,297 @@ export class Container {
      */
     clear(): void {
         this.registrations.clear();
+        this.loadedModules.clear();
+        this.overridden.clear();
+        this.scopedInstances.clear();
+        this.pendingScoped.clear();
+        this.created = [];
+        this.disposed = false;
+    }
+
+    private register<T>(
+        token: Token<T>,
+        factory: Factory<T>,
+        lifecycle: Lifecycle,
+        options: RegistrationOptions<T>
+    ): this {
+        this.addBinding(token, {
+            token,
+            name: options.name,
+            multi: false,
+            factory,
+            lifecycle,
+            hooks: options,
+        }, options.replace);
+        return this;
+    }
+
+    /**
+     * Add a binding, rejecting accidental re-registration of the same token and name
+     */
+    private addBinding<T>(
+        token: Token<T>,
+        registration: Registration<T>,
+        replace: boolean | undefined
+    ): void {
+        const bindings = this.registrations.get(token) ?? [];
+        const index = registration.multi
+            ? -1
+            : bindings.findIndex((b) => !b.multi && b.name === registration.name);
+
+        if (index === -1) {
+            bindings.push(registration as Registration<unknown>);
+        } else if (replace || this.replacing) {
+            bindings[index] = registration as Registration<unknown>;
+        } else {
+            throw new DuplicateRegistrationError(describeToken(token, registration.name));
+        }
+
+        this.registrations.set(token, bindings);
+    }
+
+    /**
+     * Resolve one binding according to its lifecycle
+     */
+    private resolveBinding<T>(registration: Registration<T>, owner: Container, label: string): T {
+        const steps = this.enterBinding(registration, label);
+
+        if (registration.lifecycle === 'singleton') {
+            if (registration.instance === undefined) {
+                // A second creation would build another instance
+                if (registration.pending) {
+                    throw new AsyncResolutionError(label, 'pending creation', steps.map((step) => step.label));
+                }
+                // Singletons are built by the container that owns them,
+                // so they can never capture a scoped dependency
+                registration.instance = owner.enter(steps).createSync(registration, label);
+            }
+            return registration.instance;
+        }
+
+        if (registration.lifecycle === 'scoped') {
+            this.assertScope(label, steps);
+            const key = registration as Registration<unknown>;
+            if (this.pendingScoped.has(key)) {
+                throw new AsyncResolutionError(label, 'pending creation', steps.map((step) => step.label));
+            }
+            if (!this.scopedInstances.has(key)) {
+                this.scopedInstances.set(key, this.enter(steps).createSync(registration, label));
+            }
+            return this.scopedInstances.get(key) as T;
+        }
+
+        return this.enter(steps).createSync(registration, label);
+    }
+
+    /**
+     * Resolve one binding according to its lifecycle, awaiting its creation
+     */
+    private async resolveBindingAsync<T>(
+        registration: Registration<T>,
+        owner: Container,
+        label: string
+    ): Promise<T> {
+        const steps = this.enterBinding(registration, label);
+
+        if (registration.lifecycle === 'singleton') {
+            if (registration.instance !== undefined) {
+                return registration.instance;
+            }
+            // Concurrent resolutions share the same creation
+            registration.pending ??= owner.enter(steps).createAsync(registration).then(
+                (instance) => {
+                    registration.instance = instance;
+                    return instance;
+                },
+                (error: unknown) => {
+                    delete registration.pending;
+                    throw error;
+                }
+            );
+            return registration.pending;
+        }
+
+        if (registration.lifecycle === 'scoped') {
+            this.assertScope(label, steps);
+            const key = registration as Registration<unknown>;
+            if (this.scopedInstances.has(key)) {
+                return this.scopedInstances.get(key) as T;
+            }
+
+            let pending = this.pendingScoped.get(key) as Promise<T> | undefined;
+            if (!pending) {
+                pending = this.enter(steps).createAsync(registration).then((instance) => {
+                    this.scopedInstances.set(key, instance);
+                    return instance;
+                }).finally(() => {
+                    this.pendingScoped.delete(key);
+                });
+                this.pendingScoped.set(key, pending);
+            }
+            return pending;
+        }
+
+        return this.enter(steps).createAsync(registration);
+    }
+
+    /**
+     * Create an instance with a synchronous factory and no `onInit` hook
+     */
+    private createSync<T>(registration: Registration<T>, label: string): T {
+        const path = this.resolving.map((step) => step.label);
+
+        if (registration.hooks.onInit) {
+            throw new AsyncResolutionError(label, 'onInit hook', path);
+        }
+
+        const instance = registration.factory(this);
+        if (isPromiseLike(instance)) {
+            instance.catch(() => undefined);
+            throw new AsyncResolutionError(label, 'async factory', path);
+        }
+
+        this.track(registration, instance);
+        return instance;
+    }
+
+    /**
+     * Create an instance, awaiting its factory and `onInit` hook
+     */
+    private async createAsync<T>(registration: Registration<T>): Promise<T> {
+        const instance = await registration.factory(this);
+        await registration.hooks.onInit?.(instance, this);
+        this.track(registration, instance);
+        return instance;
+    }
+
+    /**
+     * Remember a created singleton or scoped instance for disposal
+     */
+    private track<T>(registration: Registration<T>, instance: T): void {
+        if (registration.lifecycle !== 'transient') {
+            this.created.push({ instance, onDispose: registration.hooks.onDispose });
+        }
+    }
+
+    /**
+     * Find the binding to resolve for a token and optional name
+     * Records the dependency for the graph, even when it is missing.
+     */
+    private lookup<T>(
+        token: Token<T>,
+        name: string | undefined
+    ): { registration: Registration<T>; owner: Container; label: string } {
+        const label = describeToken(token, name);
+        const path = [...this.resolving.map((step) => step.label), label];
+
+        if (this.disposed) {
+            throw new DisposedContainerError(label);
+        }
+
+        const root = this.root;
+        const dependent = this.resolving[this.resolving.length - 1];
+        if (dependent) {
+            const targets = root.dependencies.get(dependent.registration.token) ?? new Set<symbol>();
+            root.dependencies.set(dependent.registration.token, targets.add(token));
+        }
+
+        const candidates = this.collectBindings(token);
+        const found =
+            name !== undefined
+                ? candidates.find(({ registration }) => registration.name === name)
+                : this.findDefault(candidates, label, path);
+
+        if (!found) {
+            throw new MissingRegistrationError(label, path);
+        }
+
+        root.observedLifecycles.set(token, found.registration.lifecycle);
+        return { ...found, label };
+    }
+
+    /**
+     * Pick the default binding: the nearest unnamed single binding, or the only candidate
+     */
+    private findDefault<T>(
+        candidates: Array<{ registration: Registration<T>; owner: Container }>,
+        label: string,
+        path: ReadonlyArray<string>
+    ): { registration: Registration<T>; owner: Container } | undefined {
+        const defaults = candidates.filter(
+            ({ registration }) => !registration.multi && registration.name === undefined
+        );
+        if (defaults.length > 0) {
+            // Bindings on the scope shadow those of its parents
+            return defaults[defaults.length - 1];
+        }
+
+        if (candidates.length > 1) {
+            throw new AmbiguousRegistrationError(
+                label,
+                candidates.map(({ registration }, index) => describeBinding(registration, index)),
+                path
+            );
+        }
+        return candidates[0];
+    }
+
+    /**
+     * All bindings of a token on this container and its ancestors, ancestors first
+     */
+    private collectBindings<T>(
+        token: Token<T>
+    ): Array<{ registration: Registration<T>; owner: Container }> {
+        const inherited = this.parent ? this.parent.collectBindings(token) : [];
+        const own = (this.registrations.get(token) ?? []) as Registration<T>[];
+        return [...inherited, ...own.map((registration) => ({ registration, owner: this }))];
+    }
+
+    /**
+     * Bindings registered on this container, with their index among the token's bindings
+     */
+    private *ownBindings(): Generator<[number, Registration<unknown>]> {
+        for (const bindings of this.registrations.values()) {
+            for (const [index, registration] of bindings.entries()) {
+                yield [index, registration];
+            }
+        }
+    }
+
+    /**
+     * Extend the resolution path with a binding, rejecting cycles
+     */
+    private enterBinding<T>(registration: Registration<T>, label: string): ResolutionStep[] {
+        const steps = [...this.resolving, { label, registration: registration as Registration<unknown> }];
+
+        if (this.resolving.some((step) => step.registration === registration)) {
+            throw new CircularDependencyError(steps.map((step) => step.label));
+        }
+        return steps;
+    }
+
+    private assertScope(label: string, steps: ReadonlyArray<ResolutionStep>): void {
+        if (!this.isScope) {
+            throw new ScopedResolutionError(label, steps.map((step) => step.label));
+        }
+    }
+
+    /**
+     * Get a view of this container that remembers the resolution path
+     * Factories receive the view, so nested resolves can detect cycles and
+     * report where they came from. All state is shared with this container.
+     */
+    private enter(steps: ReadonlyArray<ResolutionStep>): Container {
+        const view = Object.create(this) as Container;
+        view.resolving = steps;
+        return view;
+    }
+
+    /**
+     * The container at the top of the scope hierarchy
+     */
+    private get root(): Container {
+        return this.parent ? this.parent.root : this;
     }
 }
 
@@ -122,20 +867,3 @@ export class Container {
  * Global container instance
  */
 export const container = new Container();
-
-// ═══════════════════════════════════════════════════════════════════════════
-// TOKENS
-// ═══════════════════════════════════════════════════════════════════════════
-
-import type { ILogger, ILoggerFactory } from '../../application/ports/logger.port.js';
-import type { ISocketService } from '../../application/ports/socket.port.js';
-
-export const TOKENS = {
-    Logger: createToken<ILogger>('Logger'),
-    LoggerFactory: createToken<ILoggerFactory>('LoggerFactory'),
-    // Repositories...
-    SocketService: createToken<ISocketService>('SocketService'),
-} as const;
-
-import { SocketIOService } from '../socket/socket.io.service.js';
-container.registerSingleton(TOKENS.SocketService, () => new SocketIOService());
@@ -0,0 +1,60 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CORE MODULE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Logging, real-time messaging and the in-process domain event plumbing.
+ * Loaded for every database type.
+ */
+
+import { defineModule } from '../container-module.js';
+import { TOKENS } from '../tokens.js';
+import type { Env } from '../../config/env.config.js';
+import { loggerFactory } from '../../logging/pino.logger.js';
+import { SocketIOService } from '../../socket/socket.io.service.js';
+import { InProcessEventDispatcher } from '../../events/in-process.event-dispatcher.js';
+import { createDomainEventRegistry } from '../../../domain/events/event-registry.js';
+
+export const coreModule = defineModule<Env>({
+    name: 'core',
+    load: (container, env) => {
+        container.registerInstance(TOKENS.LoggerFactory, loggerFactory);
+        container.registerSingleton(TOKENS.Logger, (c) =>
+            c.resolve(TOKENS.LoggerFactory).create('app')
+        );
+        container.registerSingleton(TOKENS.SocketService, () => new SocketIOService(), {
+            onDispose: (socketService) => socketService.close(),
+        });
+        container.registerScoped(TOKENS.RequestLogger, (c) =>
+            c.resolve(TOKENS.LoggerFactory).create('http').child({
+                requestId: c.resolve(TOKENS.RequestContext).requestId,
+            })
+        );
+        container.registerSingleton(TOKENS.EventDispatcher, (c) => {
+            // Failed handlers reject the dispatch, so the outbox relay retries the event
+            const dispatcher = new InProcessEventDispatcher(
+                c.resolve(TOKENS.LoggerFactory).create('domain-events'),
+                { rejectOnHandlerFailure: true }
+            );
+            // Contribute handlers from any module, e.g.:
+            // container.registerMulti(TOKENS.EventHandler, () => new SendWelcomeEmailHandler());
+            for (const handler of c.resolveAll(TOKENS.EventHandler)) {
+                dispatcher.register(handler);
+            }
+            return dispatcher;
+        });
+        if (env.CURSOR_SECRET) {
+            // Picked up by the base repositories to sign pagination cursors
+            container.registerInstance(TOKENS.CursorSigning, {
+                secret: env.CURSOR_SECRET,
+                ...(env.CURSOR_TTL_SECONDS !== undefined && { ttlSeconds: env.CURSOR_TTL_SECONDS }),
+            });
+        }
+        container.registerSingleton(TOKENS.EventRegistry, () =>
+            // Register your events and upcasters here, e.g.:
+            // .register('post.published', 2, (data) => PostPublishedEvent.fromJSON(data))
+            // .registerUpcaster('post.published', 1, (data) => ({ ...data, payload: { ... } }))
+            createDomainEventRegistry()
+        );
+    },
+});
@@ -0,0 +1,28 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FIRESTORE MODULE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * The Firestore client and repositories.
+ * Loaded when `DB_TYPE` is `firestore`.
+ */
+
+import { defineModule, whenEnv } from '../container-module.js';
+import { TOKENS } from '../tokens.js';
+import type { Env } from '../../config/env.config.js';
+import {
+    getFirestoreClient,
+    closeFirestoreClient,
+} from '../../database/firebase/client.js';
+
+export const firestoreModule = defineModule<Env>({
+    name: 'firestore',
+    when: whenEnv('DB_TYPE', 'firestore'),
+    load: (container) => {
+        container.registerSingleton(TOKENS.Firestore, () => getFirestoreClient(), {
+            onDispose: () => closeFirestoreClient(),
+        });
+        // Register your Firestore repositories here, e.g.:
+        // container.registerSingleton(TOKENS.UserRepo, () => new FirestoreUserRepository());
+    },
+});
@@ -0,0 +1,24 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * APPLICATION MODULES
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Every module of the application, in load order. Modules whose condition
+ * does not match the environment are skipped.
+ */
+
+import type { ContainerModule } from '../container-module.js';
+import type { Env } from '../../config/env.config.js';
+import { coreModule } from './core.module.js';
+import { prismaModule } from './prisma.module.js';
+import { firestoreModule } from './firestore.module.js';
+import { mongoModule } from './mongo.module.js';
+
+export { coreModule, prismaModule, firestoreModule, mongoModule };
+
+export const appModules: ReadonlyArray<ContainerModule<Env>> = [
+    coreModule,
+    prismaModule,
+    firestoreModule,
+    mongoModule,
+];
@@ -0,0 +1,36 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MONGODB MODULE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * The MongoDB client and repositories.
+ * Loaded when `DB_TYPE` is `mongo`.
+ */
+
+import { defineModule, whenEnv } from '../container-module.js';
+import { TOKENS } from '../tokens.js';
+import type { Env } from '../../config/env.config.js';
+import {
+    getMongoClient,
+    connectMongo,
+    disconnectMongo,
+} from '../../database/mongo/client.js';
+
+export const mongoModule = defineModule<Env>({
+    name: 'mongo',
+    when: whenEnv('DB_TYPE', 'mongo'),
+    load: (container) => {
+        // Connected by `container.initialize()` and closed by `container.dispose()`
+        container.registerSingleton(TOKENS.MongoClient, () => getMongoClient(), {
+            onInit: () => connectMongo(),
+            onDispose: () => disconnectMongo(),
+        });
+        container.registerSingleton(TOKENS.MongoDatabase, (c) =>
+            c.resolve(TOKENS.MongoClient).db()
+        );
+        // Register your MongoDB repositories here, e.g.:
+        // container.registerSingleton(TOKENS.UserRepo, (c) =>
+        //     new MongoUserRepository({ db: c.resolve(TOKENS.MongoDatabase) })
+        // );
+    },
+});
@@ -0,0 +1,92 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA MODULE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * The Prisma client and the adapters built on it: the transactional
+ * outbox, the event store and the projection runner.
+ * Loaded when `DB_TYPE` is a SQL database.
+ */
+
+import { defineModule, whenEnv } from '../container-module.js';
+import { TOKENS } from '../tokens.js';
+import type { Env } from '../../config/env.config.js';
+import {
+    prisma,
+    connectDatabase,
+    disconnectDatabase,
+} from '../../database/prisma/client.js';
+import { PrismaOutboxStore } from '../../database/prisma/prisma-outbox.store.js';
+import {
+    PrismaEventStore,
+    PrismaProjectionCheckpointStore,
+} from '../../database/prisma/prisma-event.store.js';
+import { OutboxRelay, createRegistryDeserializer } from '../../events/outbox-relay.js';
+import { ProjectionRunner } from '../../events/projection-runner.js';
+
+export const prismaModule = defineModule<Env>({
+    name: 'prisma',
+    when: whenEnv('DB_TYPE', 'postgres', 'mysql', 'sqlite'),
+    load: (container, env) => {
+        // Connected by `container.initialize()` and closed by `container.dispose()`
+        container.registerSingleton(TOKENS.PrismaClient, () => prisma, {
+            onInit: () => connectDatabase(),
+            onDispose: () => disconnectDatabase(),
+        });
+        container.registerSingleton(TOKENS.OutboxStore, (c) =>
+            new PrismaOutboxStore(c.resolve(TOKENS.PrismaClient))
+        );
+        container.registerSingleton(
+            TOKENS.OutboxRelay,
+            (c) =>
+                new OutboxRelay(
+                    c.resolve(TOKENS.OutboxStore),
+                    c.resolve(TOKENS.EventDispatcher),
+                    c.resolve(TOKENS.LoggerFactory).create('outbox-relay'),
+                    {
+                        pollIntervalMs: env.OUTBOX_POLL_INTERVAL_MS,
+                        maxAttempts: env.OUTBOX_MAX_ATTEMPTS,
+                        deserialize: createRegistryDeserializer(c.resolve(TOKENS.EventRegistry)),
+                    }
+                ),
+            {
+                // Deliver domain events stored in the outbox
+                onInit: (relay) => {
+                    if (env.OUTBOX_RELAY_ENABLED) {
+                        relay.start();
+                    }
+                },
+                onDispose: (relay) => relay.stop(),
+            }
+        );
+        container.registerSingleton(TOKENS.EventStore, (c) =>
+            new PrismaEventStore(c.resolve(TOKENS.PrismaClient))
+        );
+        container.registerSingleton(TOKENS.ProjectionCheckpointStore, (c) =>
+            new PrismaProjectionCheckpointStore(c.resolve(TOKENS.PrismaClient))
+        );
+        container.registerSingleton(
+            TOKENS.ProjectionRunner,
+            (c) =>
+                // Register your read model projections here, e.g.:
+                // .register(new PostSummaryProjection())
+                new ProjectionRunner(
+                    c.resolve(TOKENS.EventStore),
+                    c.resolve(TOKENS.ProjectionCheckpointStore),
+                    c.resolve(TOKENS.EventRegistry),
+                    c.resolve(TOKENS.LoggerFactory).create('projections')
+                ),
+            {
+                // Feed read models from the event store
+                onInit: (runner) => {
+                    if (runner.hasProjections) {
+                        runner.start();
+                    }
+                },
+                onDispose: (runner) => runner.stop(),
+            }
+        );
+        // Register your Prisma repositories here, e.g.:
+        // container.registerSingleton(TOKENS.UserRepo, () => new PrismaUserRepository());
+    },
+});
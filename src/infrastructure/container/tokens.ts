@@ -0,0 +1,70 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * INJECTION TOKENS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Name a thing and you can ask for it. Type the name and you can trust it."
+ *
+ * Tokens identify dependencies in the container. They live apart from the
+ * registrations, so importing a token never wires anything up.
+ */
+
+import type { ILogger, ILoggerFactory } from '../../application/ports/logger.port.js';
+import type { ISocketService } from '../../application/ports/socket.port.js';
+import type {
+    AnyDomainEvent,
+    IDomainEventDispatcher,
+    IDomainEventHandler,
+} from '../../domain/events/domain-event.js';
+import type { DomainEventRegistry } from '../../domain/events/event-registry.js';
+import type { IOutboxStore } from '../../application/ports/outbox.port.js';
+import type { OutboxRelay } from '../events/outbox-relay.js';
+import type {
+    IEventStore,
+    IProjectionCheckpointStore,
+} from '../../application/ports/event-store.port.js';
+import type { ProjectionRunner } from '../events/projection-runner.js';
+import type { RequestContext } from '../../shared/types/index.js';
+import type { CursorSigningOptions } from '../../shared/utils/cursor-pagination.util.js';
+import type { PrismaClient } from '@prisma/client';
+import type { Firestore } from 'firebase-admin/firestore';
+import type { Db, MongoClient } from 'mongodb';
+
+/**
+ * Token type for dependency registration
+ */
+export type Token<T> = symbol & { __type?: T };
+
+/**
+ * Create a typed injection token
+ */
+export function createToken<T>(description: string): Token<T> {
+    return Symbol(description) as Token<T>;
+}
+
+export const TOKENS = {
+    // Infrastructure
+    PrismaClient: createToken<PrismaClient>('PrismaClient'),
+    Firestore: createToken<Firestore>('Firestore'),
+    MongoClient: createToken<MongoClient>('MongoClient'),
+    MongoDatabase: createToken<Db>('MongoDatabase'),
+    Logger: createToken<ILogger>('Logger'),
+    LoggerFactory: createToken<ILoggerFactory>('LoggerFactory'),
+    SocketService: createToken<ISocketService>('SocketService'),
+    // Domain events
+    EventDispatcher: createToken<IDomainEventDispatcher>('EventDispatcher'),
+    EventRegistry: createToken<DomainEventRegistry>('EventRegistry'),
+    /** Multi-binding: contribute handlers with `registerMulti()` */
+    EventHandler: createToken<IDomainEventHandler<AnyDomainEvent>>('EventHandler'),
+    OutboxStore: createToken<IOutboxStore>('OutboxStore'),
+    OutboxRelay: createToken<OutboxRelay>('OutboxRelay'),
+    EventStore: createToken<IEventStore>('EventStore'),
+    ProjectionCheckpointStore: createToken<IProjectionCheckpointStore>('ProjectionCheckpointStore'),
+    ProjectionRunner: createToken<ProjectionRunner>('ProjectionRunner'),
+    // Request-scoped (resolve from `req.scope`)
+    RequestContext: createToken<RequestContext>('RequestContext'),
+    RequestLogger: createToken<ILogger>('RequestLogger'),
+    // Pagination (registered when CURSOR_SECRET is set)
+    CursorSigning: createToken<CursorSigningOptions>('CursorSigning'),
+    // Repositories...
+} as const;
@@ -0,0 +1,163 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FIRESTORE FILTER TRANSLATOR
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Translates parsed query filters into Firestore `Filter`s. Firestore has
+ * no substring search and restricts how negations combine, so some valid
+ * filters are rejected with an `UnsupportedFilterError` rather than being
+ * silently approximated.
+ */
+
+import { Filter, type WhereFilterOp } from 'firebase-admin/firestore';
+import type {
+    FilterCondition,
+    FilterNode,
+    FilterOperator,
+} from '../../../domain/repositories/filter.js';
+import { UnsupportedFilterError } from '../../../domain/errors/domain.error.js';
+
+const ADAPTER = 'Firestore';
+
+/** Firestore limits on disjunctions */
+const MAX_IN_VALUES = 30;
+const MAX_NOT_IN_VALUES = 10;
+
+/**
+ * Operators used so far, to check the combinations Firestore rejects
+ */
+interface TranslationState {
+    notEqualFields: string[];
+    usesNotIn: boolean;
+    usesIn: boolean;
+    usesOr: boolean;
+}
+
+type ComparisonOperator = Exclude<FilterOperator, 'contains' | 'startsWith' | 'isNull'>;
+
+const OPERATORS: Record<ComparisonOperator, WhereFilterOp> = {
+    eq: '==',
+    in: 'in',
+    notIn: 'not-in',
+    gt: '>',
+    gte: '>=',
+    lt: '<',
+    lte: '<=',
+};
+
+/** Operators matching the complement (Firestore never matches missing fields) */
+const NEGATED_OPERATORS: Record<ComparisonOperator, WhereFilterOp> = {
+    eq: '!=',
+    in: 'not-in',
+    notIn: 'in',
+    gt: '<=',
+    gte: '<',
+    lt: '>=',
+    lte: '>',
+};
+
+function where(
+    state: TranslationState,
+    field: string,
+    operator: WhereFilterOp,
+    value: unknown
+): Filter {
+    if (operator === 'in' || operator === 'not-in') {
+        const values = value as unknown[];
+        const max = operator === 'in' ? MAX_IN_VALUES : MAX_NOT_IN_VALUES;
+        if (values.length === 0 || values.length > max) {
+            throw new UnsupportedFilterError(
+                ADAPTER,
+                `'${operator}' on '${field}' needs between 1 and ${max} values`,
+                field
+            );
+        }
+    }
+
+    if (operator === '!=' || operator === 'not-in') {
+        state.notEqualFields.push(field);
+    }
+    state.usesNotIn ||= operator === 'not-in';
+    state.usesIn ||= operator === 'in';
+
+    return Filter.where(field, operator, value);
+}
+
+function translateCondition(
+    state: TranslationState,
+    { field, operator, value }: FilterCondition,
+    negated: boolean
+): Filter {
+    if (operator === 'contains') {
+        throw new UnsupportedFilterError(ADAPTER, `'contains' on '${field}' (no substring search)`, field);
+    }
+
+    if (operator === 'startsWith') {
+        if (negated) {
+            throw new UnsupportedFilterError(ADAPTER, `negated 'startsWith' on '${field}'`, field);
+        }
+        // Prefix match as a range: every string starting with the prefix sorts in between
+        return Filter.and(
+            where(state, field, '>=', value),
+            where(state, field, '<', `${value as string}\uf8ff`)
+        );
+    }
+
+    if (operator === 'isNull') {
+        return where(state, field, value !== negated ? '==' : '!=', null);
+    }
+
+    return where(state, field, (negated ? NEGATED_OPERATORS : OPERATORS)[operator], value);
+}
+
+function translate(state: TranslationState, node: FilterNode, negated: boolean): Filter | null {
+    switch (node.kind) {
+        case 'condition':
+            return translateCondition(state, node, negated);
+        case 'not':
+            return translate(state, node.node, !negated);
+        case 'and':
+        case 'or': {
+            // Push negations down to the conditions (De Morgan)
+            const disjunction = (node.kind === 'or') !== negated;
+            const filters = node.nodes
+                .map((child) => translate(state, child, negated))
+                .filter((filter): filter is Filter => filter !== null);
+
+            if (filters.length === 0) {
+                return null;
+            }
+            if (filters.length === 1) {
+                return filters[0] ?? null;
+            }
+            state.usesOr ||= disjunction;
+            return disjunction ? Filter.or(...filters) : Filter.and(...filters);
+        }
+    }
+}
+
+/**
+ * Translate a filter tree into a Firestore filter (null when it matches everything)
+ * @throws UnsupportedFilterError for filters Firestore cannot run
+ */
+export function toFirestoreFilter(node: FilterNode): Filter | null {
+    const state: TranslationState = {
+        notEqualFields: [],
+        usesNotIn: false,
+        usesIn: false,
+        usesOr: false,
+    };
+    const filter = translate(state, node, false);
+
+    if (state.notEqualFields.length > 1) {
+        throw new UnsupportedFilterError(
+            ADAPTER,
+            `only one '!=' or 'not-in' condition per query (found on ${state.notEqualFields.join(', ')})`
+        );
+    }
+    if (state.usesNotIn && (state.usesIn || state.usesOr)) {
+        throw new UnsupportedFilterError(ADAPTER, `'not-in' cannot be combined with 'in' or 'or'`);
+    }
+
+    return filter;
+}
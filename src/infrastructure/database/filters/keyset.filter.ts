@@ -0,0 +1,106 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * KEYSET PAGINATION FILTER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Builds the "rows after this cursor" predicate for paginated queries on any
+ * sort field. The ID breaks ties between rows sharing a sort value:
+ *
+ *   (field > value) OR (field = value AND id > cursorId)
+ *
+ * with `<` instead when walking a descending order forward, or an ascending
+ * one backward. Sort fields should be non-nullable.
+ */
+
+import type { QueryOptions } from '../../../domain/repositories/base.repository.js';
+import { parseFilter, type FilterNode } from '../../../domain/repositories/filter.js';
+import type { Cursor } from '../../../domain/value-objects/cursor.vo.js';
+import { queryFingerprint } from '../../../shared/utils/cursor-pagination.util.js';
+
+/**
+ * The order a paginated query walks
+ */
+export interface KeysetSort {
+    field: string;
+    direction: 'asc' | 'desc';
+}
+
+/**
+ * Resolve the sort of a paginated query (by ID, ascending, by default)
+ */
+export function keysetSort<T>(options?: QueryOptions<T>): KeysetSort {
+    return options?.orderBy
+        ? { field: String(options.orderBy.field), direction: options.orderBy.direction }
+        : { field: 'id', direction: 'asc' };
+}
+
+/**
+ * The fields and operators of a filter, without their values
+ */
+function filterShape(node: FilterNode): unknown {
+    switch (node.kind) {
+        case 'condition':
+            return [node.field, node.operator];
+        case 'and':
+        case 'or':
+            return { [node.kind]: node.nodes.map(filterShape) };
+        case 'not':
+            return { not: filterShape(node.node) };
+    }
+}
+
+/**
+ * Fingerprint of a paginated query, so its cursors are rejected on other queries
+ * Only the shape counts: a client may change filter values (e.g. a search term)
+ * and keep paging, but not the filtered fields, operators or order.
+ */
+export function keysetFingerprint<T>(sort: KeysetSort, options?: QueryOptions<T>): string {
+    return queryFingerprint({
+        where: options?.where ? filterShape(parseFilter(options.where)) : null,
+        sort,
+        includeSoftDeleted: options?.includeSoftDeleted ?? false,
+    });
+}
+
+/**
+ * The direction to scan the index in for a page
+ * Backward pages are read in reverse and restored by the paginator.
+ */
+export function keysetScanDirection(
+    sort: KeysetSort,
+    cursor: Cursor | null
+): 'asc' | 'desc' {
+    if (cursor?.direction !== 'backward') {
+        return sort.direction;
+    }
+    return sort.direction === 'asc' ? 'desc' : 'asc';
+}
+
+/**
+ * Build the predicate selecting the rows past the cursor in scan order
+ */
+export function keysetFilter(sort: KeysetSort, cursor: Cursor): FilterNode {
+    const operator = keysetScanDirection(sort, cursor) === 'asc' ? 'gt' : 'lt';
+    const afterId: FilterNode = {
+        kind: 'condition',
+        field: 'id',
+        operator,
+        value: cursor.value,
+    };
+
+    if (!cursor.sort) {
+        return afterId;
+    }
+
+    const value = cursor.sort.value;
+    return {
+        kind: 'or',
+        nodes: [
+            { kind: 'condition', field: sort.field, operator, value },
+            {
+                kind: 'and',
+                nodes: [{ kind: 'condition', field: sort.field, operator: 'eq', value }, afterId],
+            },
+        ],
+    };
+}
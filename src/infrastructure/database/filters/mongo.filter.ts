@@ -0,0 +1,84 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MONGODB FILTER TRANSLATOR
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Translates parsed query filters into MongoDB query documents.
+ * The entity ID is stored as `_id`. Negations follow SQL: they never match
+ * a missing or null value.
+ */
+
+import type { Document } from 'mongodb';
+import type { FilterCondition, FilterNode } from '../../../domain/repositories/filter.js';
+
+const OPERATORS = {
+    in: '$in',
+    notIn: '$nin',
+    gt: '$gt',
+    gte: '$gte',
+    lt: '$lt',
+    lte: '$lte',
+} as const;
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toCondition({ field, operator, value }: FilterCondition): Document {
+    const name = field === 'id' ? '_id' : field;
+    switch (operator) {
+        case 'eq':
+            return { [name]: value };
+        case 'contains':
+            return { [name]: { $regex: escapeRegExp(String(value)) } };
+        case 'startsWith':
+            return { [name]: { $regex: `^${escapeRegExp(String(value))}` } };
+        case 'isNull':
+            // `null` also matches documents missing the field
+            return { [name]: value ? null : { $ne: null } };
+        default:
+            return { [name]: { [OPERATORS[operator]]: value } };
+    }
+}
+
+/**
+ * Negate a condition the SQL way: a missing or null value matches neither
+ * the condition nor its negation (`$nor` alone would match it)
+ */
+function toNegatedCondition(condition: FilterCondition): Document {
+    if (condition.operator === 'isNull') {
+        return toCondition({ ...condition, value: !condition.value });
+    }
+    const name = condition.field === 'id' ? '_id' : condition.field;
+    return { $and: [{ [name]: { $ne: null } }, { $nor: [toCondition(condition)] }] };
+}
+
+function translate(node: FilterNode, negated: boolean): Document {
+    switch (node.kind) {
+        case 'condition':
+            return negated ? toNegatedCondition(node) : toCondition(node);
+        case 'not':
+            return translate(node.node, !negated);
+        case 'and':
+        case 'or': {
+            // Push negations down to the conditions (De Morgan)
+            const disjunction = (node.kind === 'or') !== negated;
+            const filters = node.nodes.map((child) => translate(child, negated));
+            if (filters.length === 0) {
+                // MongoDB rejects an empty `$or`; like an empty OR in SQL, it matches nothing
+                return disjunction ? { $expr: false } : {};
+            }
+            return disjunction ? { $or: filters } : { $and: filters };
+        }
+    }
+}
+
+/**
+ * Translate a filter tree into a MongoDB query document
+ */
+export function toMongoFilter(node: FilterNode): Document {
+    return translate(node, false);
+}
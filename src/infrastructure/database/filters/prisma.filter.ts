@@ -0,0 +1,37 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA FILTER TRANSLATOR
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Translates parsed query filters into Prisma `where` objects.
+ */
+
+import type { FilterCondition, FilterNode } from '../../../domain/repositories/filter.js';
+
+function toCondition({ field, operator, value }: FilterCondition): Record<string, unknown> {
+    switch (operator) {
+        case 'eq':
+            return { [field]: value };
+        case 'isNull':
+            return { [field]: value ? null : { not: null } };
+        default:
+            // The remaining operators share their names with Prisma's
+            return { [field]: { [operator]: value } };
+    }
+}
+
+/**
+ * Translate a filter tree into a Prisma where clause
+ */
+export function toPrismaWhere(node: FilterNode): Record<string, unknown> {
+    switch (node.kind) {
+        case 'condition':
+            return toCondition(node);
+        case 'and':
+            return node.nodes.length === 0 ? {} : { AND: node.nodes.map(toPrismaWhere) };
+        case 'or':
+            return { OR: node.nodes.map(toPrismaWhere) };
+        case 'not':
+            return { NOT: toPrismaWhere(node.node) };
+    }
+}
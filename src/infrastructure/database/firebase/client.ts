@@ -51,3 +51,21 @@ export function getFirestoreClient(): Firestore {
         throw error;
     }
 }
+
+/**
+ * Terminate the Firestore client, releasing its connections
+ */
+export async function closeFirestoreClient(): Promise<void> {
+    if (!firestoreInstance) {
+        return;
+    }
+
+    try {
+        await firestoreInstance.terminate();
+        logger.info('Firestore client terminated');
+    } catch (error) {
+        logger.error('Error terminating Firestore client', error as Error);
+    } finally {
+        firestoreInstance = null;
+    }
+}
@@ -0,0 +1,211 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FIRESTORE TRANSACTION
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Firestore rejects reads of a transaction once it has written. Repositories
+ * therefore stage their writes here and the writes are applied when the work
+ * is done, so every read of the work comes first. Document reads see the
+ * writes staged before them; query results show the stored documents.
+ */
+
+import type {
+    AggregateField,
+    AggregateQuery,
+    AggregateQuerySnapshot,
+    DocumentData,
+    DocumentReference,
+    Query,
+    QuerySnapshot,
+    Timestamp,
+    Transaction,
+    UpdateData,
+} from 'firebase-admin/firestore';
+import {
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+    type DomainError,
+} from '../../../domain/errors/domain.error.js';
+
+/**
+ * gRPC status code returned when updating a document that does not exist
+ */
+export const NOT_FOUND = 5;
+
+/**
+ * gRPC status code returned when creating a document that already exists
+ */
+export const ALREADY_EXISTS = 6;
+
+/**
+ * gRPC status code returned when a write precondition (e.g. update time) fails
+ */
+export const FAILED_PRECONDITION = 9;
+
+/**
+ * Check the gRPC status code of a Firestore error
+ */
+export function isGrpcError(error: unknown, code: number): boolean {
+    return (error as { code?: unknown } | null)?.code === code;
+}
+
+/**
+ * A document as read, stored or as left by the staged writes
+ * (satisfied by Firestore's `DocumentSnapshot`)
+ */
+export interface DocumentState {
+    readonly id: string;
+    readonly ref: DocumentReference<DocumentData>;
+    readonly exists: boolean;
+    readonly updateTime?: Timestamp | undefined;
+    get(field: string): unknown;
+    data(): DocumentData | undefined;
+}
+
+interface StagedWrite {
+    kind: 'create' | 'update' | 'delete';
+    ref: DocumentReference<DocumentData>;
+    data: DocumentData | null;
+    entityName: string;
+}
+
+/**
+ * A Firestore transaction whose writes wait for the end of the work
+ */
+export class FirestoreTransaction {
+    private readonly reads = new Map<string, Promise<DocumentState>>();
+    private readonly writes: StagedWrite[] = [];
+
+    constructor(private readonly transaction: Transaction) {}
+
+    /**
+     * Read a document, including the writes staged for it so far
+     */
+    async get(ref: DocumentReference<DocumentData>): Promise<DocumentState> {
+        return this.withStagedWrites(await this.read(ref));
+    }
+
+    /**
+     * Read several documents in one round trip
+     */
+    async getAll(refs: Array<DocumentReference<DocumentData>>): Promise<DocumentState[]> {
+        const unread = refs.filter((ref) => !this.reads.has(ref.path));
+        if (unread.length > 0) {
+            const loading = this.transaction.getAll(...unread);
+            unread.forEach((ref, index) => {
+                this.reads.set(ref.path, loading.then((docs) => docs[index]!));
+            });
+        }
+        return Promise.all(refs.map((ref) => this.get(ref)));
+    }
+
+    /**
+     * Run a query (the results do not reflect staged writes)
+     */
+    query(query: Query<DocumentData>): Promise<QuerySnapshot<DocumentData>> {
+        return this.transaction.get(query);
+    }
+
+    /**
+     * Run an aggregation query (the results do not reflect staged writes)
+     */
+    aggregate<T extends { [field: string]: AggregateField<unknown> }>(
+        query: AggregateQuery<T>
+    ): Promise<AggregateQuerySnapshot<T>> {
+        return this.transaction.get(query);
+    }
+
+    /**
+     * Stage the creation of a document (check that it does not exist first)
+     */
+    create(ref: DocumentReference<DocumentData>, data: DocumentData, entityName: string): void {
+        this.writes.push({ kind: 'create', ref, data, entityName });
+    }
+
+    /**
+     * Stage an update of a document with plain field values
+     */
+    update(
+        ref: DocumentReference<DocumentData>,
+        data: UpdateData<DocumentData>,
+        entityName: string
+    ): void {
+        this.writes.push({ kind: 'update', ref, data: data as DocumentData, entityName });
+    }
+
+    /**
+     * Stage the deletion of a document
+     */
+    delete(ref: DocumentReference<DocumentData>, entityName: string): void {
+        this.writes.push({ kind: 'delete', ref, data: null, entityName });
+    }
+
+    /**
+     * Hand the staged writes to the transaction, once the work has done its reads
+     */
+    applyWrites(): void {
+        for (const { kind, ref, data } of this.writes) {
+            if (kind === 'create') {
+                this.transaction.create(ref, data!);
+            } else if (kind === 'update') {
+                this.transaction.update(ref, data!);
+            } else {
+                this.transaction.delete(ref);
+            }
+        }
+    }
+
+    /**
+     * Describe a failed commit of the applied writes as a domain error
+     * (documents changed by others after they were read and checked)
+     * @returns `null` for failures that are not about the written documents
+     */
+    commitFailure(error: unknown): DomainError | null {
+        const failed = (kind: StagedWrite['kind']): StagedWrite | undefined =>
+            this.writes.find((write) => write.kind === kind);
+
+        const created = isGrpcError(error, ALREADY_EXISTS) ? failed('create') : undefined;
+        if (created) {
+            return new EntityAlreadyExistsError(created.entityName, created.ref.id);
+        }
+        const updated = isGrpcError(error, NOT_FOUND) ? failed('update') : undefined;
+        if (updated) {
+            return new EntityNotFoundError(updated.entityName, updated.ref.id);
+        }
+        return null;
+    }
+
+    private read(ref: DocumentReference<DocumentData>): Promise<DocumentState> {
+        let read = this.reads.get(ref.path);
+        if (!read) {
+            read = this.transaction.get(ref);
+            this.reads.set(ref.path, read);
+        }
+        return read;
+    }
+
+    private withStagedWrites(stored: DocumentState): DocumentState {
+        const staged = this.writes.filter((write) => write.ref.path === stored.ref.path);
+        if (staged.length === 0) {
+            return stored;
+        }
+
+        let data = stored.data();
+        for (const write of staged) {
+            if (write.kind === 'create') {
+                data = write.data!;
+            } else if (write.kind === 'update') {
+                data = data && { ...data, ...write.data };
+            } else {
+                data = undefined;
+            }
+        }
+        return {
+            id: stored.id,
+            ref: stored.ref,
+            exists: data !== undefined,
+            get: (field) => data?.[field],
+            data: () => data,
+        };
+    }
+}
@@ -0,0 +1,82 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FIRESTORE UNIT OF WORK
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs the work in a Firestore transaction. Firestore retries the whole
+ * work when documents it read change before the commit, and requires all
+ * reads to come before the first write: the repositories stage their writes
+ * in a `FirestoreTransaction`, applied once the work is done.
+ */
+
+import type { Firestore, Transaction } from 'firebase-admin/firestore';
+import type { IUnitOfWork } from '../../../application/ports/unit-of-work.port.js';
+import { err } from '../../../shared/utils/result.js';
+import type { FirestoreRepositoryOptions } from '../repositories/firestore-base.repository.js';
+import {
+    bindRepositories,
+    isResult,
+    runUnitOfWork,
+    type RepositoryFactories,
+} from '../repositories/unit-of-work.js';
+import { getFirestoreClient } from './client.js';
+import { FirestoreTransaction } from './firestore-transaction.js';
+
+/**
+ * Firestore implementation of the unit of work port
+ *
+ * A commit rejected because a document was created or deleted by someone
+ * else after the work checked it becomes a domain error: returned as an
+ * `Err` when the work resolved with a `Result`, thrown otherwise.
+ *
+ * @example
+ * const unitOfWork = new FirestoreUnitOfWork({
+ *     users: (options) => new FirestoreUserRepository(options),
+ *     posts: (options) => new FirestorePostRepository(options),
+ * });
+ */
+export class FirestoreUnitOfWork<TRepositories> implements IUnitOfWork<TRepositories> {
+    private readonly db: Firestore;
+
+    /**
+     * @param factories - Build each repository from the options binding it to the transaction
+     * @param db - Firestore client (default: the client configured from the environment)
+     */
+    constructor(
+        private readonly factories: RepositoryFactories<TRepositories, FirestoreRepositoryOptions>,
+        db?: Firestore
+    ) {
+        this.db = db ?? getFirestoreClient();
+    }
+
+    async execute<T>(work: (repositories: TRepositories) => Promise<T>): Promise<T> {
+        // The attempt whose writes went to the commit, and what its work resolved with
+        let committing: FirestoreTransaction | undefined;
+        let value: T | undefined;
+
+        try {
+            return await runUnitOfWork<Transaction, T>(
+                (body) => this.db.runTransaction(body),
+                async (tx, transactionScope) => {
+                    committing = undefined;
+                    const transaction = new FirestoreTransaction(tx);
+                    value = await work(
+                        bindRepositories(this.factories, { transaction, transactionScope })
+                    );
+                    transaction.applyWrites();
+                    committing = transaction;
+                    return value;
+                }
+            );
+        } catch (error) {
+            const failure = committing?.commitFailure(error);
+            if (!failure) {
+                throw error;
+            }
+            if (isResult(value)) {
+                return err(failure) as T;
+            }
+            throw failure;
+        }
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY EVENT STORE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Event store kept in process memory. Useful for tests and prototyping;
+ * everything is lost when the process exits.
+ */
+
+import type {
+    IEventStore,
+    IProjectionCheckpointStore,
+    Snapshot,
+    StoredEvent,
+} from '../../../application/ports/event-store.port.js';
+import {
+    serializeDomainEvent,
+    type AnyDomainEvent,
+} from '../../../domain/events/domain-event.js';
+import { DomainError, StreamVersionConflictError } from '../../../domain/errors/domain.error.js';
+import { type Result, ok, err } from '../../../shared/utils/result.js';
+
+/**
+ * Event store backed by in-memory arrays
+ */
+export class InMemoryEventStore implements IEventStore {
+    private readonly events: StoredEvent[] = [];
+    private readonly streams = new Map<string, StoredEvent[]>();
+    private readonly snapshots = new Map<string, Snapshot>();
+
+    async append(
+        streamId: string,
+        events: ReadonlyArray<AnyDomainEvent>,
+        expectedVersion: number
+    ): Promise<Result<number, DomainError>> {
+        const stream = this.streams.get(streamId) ?? [];
+
+        if (stream.length !== expectedVersion) {
+            return err(new StreamVersionConflictError(streamId, expectedVersion, stream.length));
+        }
+
+        for (const event of events) {
+            const stored: StoredEvent = {
+                streamId,
+                streamVersion: stream.length + 1,
+                position: this.events.length + 1,
+                data: serializeDomainEvent(event),
+            };
+            stream.push(stored);
+            this.events.push(stored);
+        }
+
+        this.streams.set(streamId, stream);
+        return ok(stream.length);
+    }
+
+    async readStream(streamId: string, fromVersion = 1): Promise<StoredEvent[]> {
+        return (this.streams.get(streamId) ?? []).filter(
+            (event) => event.streamVersion >= fromVersion
+        );
+    }
+
+    async readAll(afterPosition: number, limit: number): Promise<StoredEvent[]> {
+        return this.events.slice(afterPosition, afterPosition + limit);
+    }
+
+    async getStreamVersion(streamId: string): Promise<number> {
+        return this.streams.get(streamId)?.length ?? 0;
+    }
+
+    async saveSnapshot(snapshot: Snapshot): Promise<void> {
+        this.snapshots.set(snapshot.streamId, snapshot);
+    }
+
+    async loadSnapshot(streamId: string): Promise<Snapshot | null> {
+        return this.snapshots.get(streamId) ?? null;
+    }
+
+    /**
+     * Remove all streams and snapshots (useful for testing)
+     */
+    clear(): void {
+        this.events.length = 0;
+        this.streams.clear();
+        this.snapshots.clear();
+    }
+}
+
+/**
+ * Projection checkpoints kept in process memory
+ */
+export class InMemoryProjectionCheckpointStore implements IProjectionCheckpointStore {
+    private readonly positions = new Map<string, number>();
+
+    async get(projectionName: string): Promise<number> {
+        return this.positions.get(projectionName) ?? 0;
+    }
+
+    async save(projectionName: string, position: number): Promise<void> {
+        this.positions.set(projectionName, position);
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY UNIT OF WORK
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs the work in the transactions of every repository at once, so their
+ * records are restored together on rollback. Useful for tests; like the
+ * repositories' own transactions, it is not isolated from concurrent writes.
+ */
+
+import type { IUnitOfWork } from '../../../application/ports/unit-of-work.port.js';
+import { runUnitOfWork } from '../repositories/unit-of-work.js';
+
+/**
+ * A repository that can roll its own writes back (e.g. `InMemoryBaseRepository`)
+ */
+export interface InMemoryTransactional {
+    transaction<T>(operation: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * In-memory implementation of the unit of work port
+ *
+ * The repositories are shared with the rest of the application, so work
+ * sees and leaves the same records as code outside the unit of work.
+ *
+ * @example
+ * const unitOfWork = new InMemoryUnitOfWork({ users: userRepository, posts: postRepository });
+ */
+export class InMemoryUnitOfWork<TRepositories extends Record<string, InMemoryTransactional>>
+    implements IUnitOfWork<TRepositories> {
+    constructor(private readonly repositories: TRepositories) {}
+
+    async execute<T>(work: (repositories: TRepositories) => Promise<T>): Promise<T> {
+        return runUnitOfWork<void, T>(
+            (body) => this.inTransactions(Object.values(this.repositories), () => body()),
+            () => work(this.repositories)
+        );
+    }
+
+    /**
+     * Nest the transactions of the repositories around the operation
+     */
+    private inTransactions<T>(
+        repositories: InMemoryTransactional[],
+        operation: () => Promise<T>
+    ): Promise<T> {
+        const [first, ...rest] = repositories;
+        if (!first) {
+            return operation();
+        }
+        return first.transaction(() => this.inTransactions(rest, operation));
+    }
+}
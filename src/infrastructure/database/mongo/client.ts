@@ -0,0 +1,69 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MONGODB CLIENT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Singleton MongoDB client with explicit connect/disconnect.
+ */
+
+import { MongoClient, type Db } from 'mongodb';
+import { env } from '../../config/env.config.js';
+import { createLogger } from '../../logging/pino.logger.js';
+
+const logger = createLogger('mongo');
+
+let mongoInstance: MongoClient | null = null;
+
+/**
+ * Get or create the MongoDB client (not yet connected)
+ */
+export function getMongoClient(): MongoClient {
+    if (mongoInstance) {
+        return mongoInstance;
+    }
+
+    if (env.DB_TYPE !== 'mongo') {
+        throw new Error('DB_TYPE is not set to mongo');
+    }
+
+    mongoInstance = new MongoClient(env.DATABASE_URL);
+    return mongoInstance;
+}
+
+/**
+ * Get the database named in `DATABASE_URL`
+ */
+export function getMongoDatabase(): Db {
+    return getMongoClient().db();
+}
+
+/**
+ * Connect to MongoDB
+ */
+export async function connectMongo(): Promise<void> {
+    try {
+        await getMongoClient().connect();
+        logger.info('MongoDB connection established');
+    } catch (error) {
+        logger.fatal('Failed to connect to MongoDB', error as Error);
+        throw error;
+    }
+}
+
+/**
+ * Close the MongoDB client, releasing its connections
+ */
+export async function disconnectMongo(): Promise<void> {
+    if (!mongoInstance) {
+        return;
+    }
+
+    try {
+        await mongoInstance.close();
+        logger.info('MongoDB connection closed');
+    } catch (error) {
+        logger.error('Error closing MongoDB connection', error as Error);
+    } finally {
+        mongoInstance = null;
+    }
+}
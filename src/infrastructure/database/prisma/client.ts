@@ -6,12 +6,23 @@
  * Singleton Prisma client with proper lifecycle management.
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type Prisma } from '@prisma/client';
 import { env, isDevelopment } from '../../config/env.config.js';
 import { createLogger } from '../../logging/pino.logger.js';
 
 const logger = createLogger('prisma');
 
+/**
+ * Query features that differ between the SQL databases in `DB_TYPE`
+ * The client must be generated from the matching schema (`npm run db:generate`).
+ */
+export const databaseFeatures = {
+    /** Native JSON columns (SQLite stores JSON as text) */
+    jsonColumns: env.DB_TYPE !== 'sqlite',
+    /** `createMany({ skipDuplicates })` (unsupported on SQLite) */
+    skipDuplicates: env.DB_TYPE !== 'sqlite',
+};
+
 /**
  * Create the Prisma client with logging and middleware
  */
@@ -60,6 +71,22 @@ function createPrismaClient(): PrismaClient {
     return client;
 }
 
+/**
+ * Prepare an object for a JSON column
+ */
+export function toJsonColumn(value: object): Prisma.InputJsonObject {
+    return (
+        databaseFeatures.jsonColumns ? value : JSON.stringify(value)
+    ) as Prisma.InputJsonObject;
+}
+
+/**
+ * Read an object from a JSON column
+ */
+export function fromJsonColumn<T>(value: unknown): T {
+    return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
 /**
  * Singleton Prisma client instance
  */
@@ -90,11 +117,19 @@ export async function disconnectDatabase(): Promise<void> {
     }
 }
 
+/**
+ * Prisma client bound to an interactive transaction
+ */
+export type PrismaTransactionClient = Omit<
+    PrismaClient,
+    '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
+>;
+
 /**
  * Execute operations within a transaction
  */
 export async function withTransaction<T>(
-    operation: (tx: Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => Promise<T>
+    operation: (tx: PrismaTransactionClient) => Promise<T>
 ): Promise<T> {
     return prisma.$transaction(operation);
 }
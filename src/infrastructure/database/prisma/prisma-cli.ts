@@ -0,0 +1,42 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA CLI
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs the Prisma CLI with the schema variant for `DB_TYPE`, from the
+ * project root (as the `db:*` npm scripts do):
+ *
+ *   tsx src/infrastructure/database/prisma/prisma-cli.ts migrate dev
+ *
+ * Databases without a Prisma schema (mongo, firestore) use the PostgreSQL
+ * one, so the client still generates for type checking.
+ */
+
+import { spawnSync } from 'node:child_process';
+import path from 'node:path';
+import { config } from 'dotenv';
+
+// Load .env file
+config();
+
+/**
+ * Schema file for each SQL database type
+ */
+const SCHEMAS: Partial<Record<string, string>> = {
+    postgres: 'schema.prisma',
+    mysql: 'schema.mysql.prisma',
+    sqlite: 'schema.sqlite.prisma',
+};
+
+const dbType = process.env['DB_TYPE'] ?? 'postgres';
+const schema = path.join(
+    'src/infrastructure/database/prisma',
+    SCHEMAS[dbType] ?? 'schema.prisma'
+);
+
+const result = spawnSync('prisma', [...process.argv.slice(2), '--schema', schema], {
+    stdio: 'inherit',
+    shell: process.platform === 'win32',
+});
+
+process.exit(result.status ?? 1);
@@ -0,0 +1,170 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA EVENT STORE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Event store on the `event_store` table. The unique index on
+ * (stream_id, stream_version) guarantees that two concurrent writers
+ * can never both append at the same stream version.
+ */
+
+import { Prisma, type PrismaClient } from '@prisma/client';
+import type {
+    IEventStore,
+    IProjectionCheckpointStore,
+    Snapshot,
+    StoredEvent,
+} from '../../../application/ports/event-store.port.js';
+import {
+    serializeDomainEvent,
+    type AnyDomainEvent,
+    type SerializedDomainEvent,
+} from '../../../domain/events/domain-event.js';
+import { DomainError, StreamVersionConflictError } from '../../../domain/errors/domain.error.js';
+import { type Result, ok, err } from '../../../shared/utils/result.js';
+import { fromJsonColumn, prisma, toJsonColumn } from './client.js';
+
+/**
+ * Shape of a `StoredEvent` row
+ */
+interface StoredEventRecord {
+    position: number;
+    streamId: string;
+    streamVersion: number;
+    payload: unknown;
+}
+
+/**
+ * Prisma error code for unique constraint violations
+ */
+const UNIQUE_CONSTRAINT_VIOLATION = 'P2002';
+
+/**
+ * Event store backed by Prisma
+ */
+export class PrismaEventStore implements IEventStore {
+    constructor(private readonly db: PrismaClient = prisma) { }
+
+    async append(
+        streamId: string,
+        events: ReadonlyArray<AnyDomainEvent>,
+        expectedVersion: number
+    ): Promise<Result<number, DomainError>> {
+        try {
+            return await this.db.$transaction(async (tx) => {
+                const current = await tx.storedEvent.count({ where: { streamId } });
+                if (current !== expectedVersion) {
+                    return err(new StreamVersionConflictError(streamId, expectedVersion, current));
+                }
+
+                await tx.storedEvent.createMany({
+                    data: events.map((event, index) => ({
+                        streamId,
+                        streamVersion: expectedVersion + index + 1,
+                        eventId: event.eventId,
+                        eventType: event.eventType,
+                        version: event.version,
+                        payload: toJsonColumn(serializeDomainEvent(event)),
+                        occurredAt: event.occurredAt,
+                    })),
+                });
+
+                return ok(expectedVersion + events.length);
+            });
+        } catch (error) {
+            // A concurrent writer appended between our check and our insert
+            if (
+                error instanceof Prisma.PrismaClientKnownRequestError &&
+                error.code === UNIQUE_CONSTRAINT_VIOLATION
+            ) {
+                const actual = await this.getStreamVersion(streamId);
+                return err(new StreamVersionConflictError(streamId, expectedVersion, actual));
+            }
+            throw error;
+        }
+    }
+
+    async readStream(streamId: string, fromVersion = 1): Promise<StoredEvent[]> {
+        const records: StoredEventRecord[] = await this.db.storedEvent.findMany({
+            where: { streamId, streamVersion: { gte: fromVersion } },
+            orderBy: { streamVersion: 'asc' },
+        });
+        return records.map((record) => this.toStoredEvent(record));
+    }
+
+    async readAll(afterPosition: number, limit: number): Promise<StoredEvent[]> {
+        const records: StoredEventRecord[] = await this.db.storedEvent.findMany({
+            where: { position: { gt: afterPosition } },
+            orderBy: { position: 'asc' },
+            take: limit,
+        });
+        return records.map((record) => this.toStoredEvent(record));
+    }
+
+    async getStreamVersion(streamId: string): Promise<number> {
+        const result = await this.db.storedEvent.aggregate({
+            where: { streamId },
+            _max: { streamVersion: true },
+        });
+        return result._max.streamVersion ?? 0;
+    }
+
+    async saveSnapshot(snapshot: Snapshot): Promise<void> {
+        const data = {
+            streamVersion: snapshot.streamVersion,
+            state: toJsonColumn(snapshot.state),
+            takenAt: snapshot.takenAt,
+        };
+
+        await this.db.snapshot.upsert({
+            where: { streamId: snapshot.streamId },
+            create: { streamId: snapshot.streamId, ...data },
+            update: data,
+        });
+    }
+
+    async loadSnapshot(streamId: string): Promise<Snapshot | null> {
+        const record = await this.db.snapshot.findUnique({ where: { streamId } });
+        if (!record) {
+            return null;
+        }
+
+        return {
+            streamId: record.streamId,
+            streamVersion: record.streamVersion,
+            state: fromJsonColumn<Record<string, unknown>>(record.state),
+            takenAt: record.takenAt,
+        };
+    }
+
+    private toStoredEvent(record: StoredEventRecord): StoredEvent {
+        return {
+            streamId: record.streamId,
+            streamVersion: record.streamVersion,
+            position: record.position,
+            data: fromJsonColumn<SerializedDomainEvent>(record.payload),
+        };
+    }
+}
+
+/**
+ * Projection checkpoints on the `projection_checkpoints` table
+ */
+export class PrismaProjectionCheckpointStore implements IProjectionCheckpointStore {
+    constructor(private readonly db: PrismaClient = prisma) { }
+
+    async get(projectionName: string): Promise<number> {
+        const record = await this.db.projectionCheckpoint.findUnique({
+            where: { name: projectionName },
+        });
+        return record?.position ?? 0;
+    }
+
+    async save(projectionName: string, position: number): Promise<void> {
+        await this.db.projectionCheckpoint.upsert({
+            where: { name: projectionName },
+            create: { name: projectionName, position },
+            update: { position },
+        });
+    }
+}
@@ -0,0 +1,109 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA OUTBOX STORE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Outbox persistence on the `outbox_events` table. Events are appended with
+ * the transaction client of the write that raised them, so the aggregate and
+ * its events are committed (or rolled back) together.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { IOutboxStore, OutboxMessage } from '../../../application/ports/outbox.port.js';
+import {
+    serializeDomainEvent,
+    type AnyDomainEvent,
+} from '../../../domain/events/domain-event.js';
+import {
+    fromJsonColumn,
+    prisma,
+    toJsonColumn,
+    type PrismaTransactionClient,
+} from './client.js';
+
+/**
+ * Shape of an `OutboxEvent` row
+ */
+interface OutboxEventRecord {
+    id: string;
+    eventId: string;
+    eventType: string;
+    aggregateId: string;
+    version: number;
+    payload: unknown;
+    occurredAt: Date;
+    attempts: number;
+}
+
+/**
+ * Append domain events to the outbox within an open transaction
+ */
+export async function appendToOutbox(
+    tx: PrismaTransactionClient,
+    events: ReadonlyArray<AnyDomainEvent>
+): Promise<void> {
+    if (events.length === 0) {
+        return;
+    }
+
+    await tx.outboxEvent.createMany({
+        data: events.map((event) => ({
+            eventId: event.eventId,
+            eventType: event.eventType,
+            aggregateId: event.aggregateId,
+            version: event.version,
+            payload: toJsonColumn(serializeDomainEvent(event)),
+            occurredAt: event.occurredAt,
+        })),
+    });
+}
+
+/**
+ * Outbox store backed by Prisma
+ *
+ * Designed for a single relay instance: messages are not leased while
+ * they are being delivered.
+ */
+export class PrismaOutboxStore implements IOutboxStore {
+    constructor(private readonly db: PrismaClient = prisma) { }
+
+    async fetchPending(limit: number, now: Date): Promise<OutboxMessage[]> {
+        const records: OutboxEventRecord[] = await this.db.outboxEvent.findMany({
+            where: { status: 'pending', nextAttemptAt: { lte: now } },
+            orderBy: { occurredAt: 'asc' },
+            take: limit,
+        });
+
+        return records.map((record) => ({
+            id: record.id,
+            eventId: record.eventId,
+            eventType: record.eventType,
+            aggregateId: record.aggregateId,
+            version: record.version,
+            payload: fromJsonColumn<Record<string, unknown>>(record.payload),
+            occurredAt: record.occurredAt,
+            attempts: record.attempts,
+        }));
+    }
+
+    async markProcessed(id: string): Promise<void> {
+        await this.db.outboxEvent.update({
+            where: { id },
+            data: { status: 'processed', processedAt: new Date(), lastError: null },
+        });
+    }
+
+    async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+        await this.db.outboxEvent.update({
+            where: { id },
+            data: { attempts: { increment: 1 }, lastError: error, nextAttemptAt },
+        });
+    }
+
+    async markDeadLettered(id: string, error: string): Promise<void> {
+        await this.db.outboxEvent.update({
+            where: { id },
+            data: { status: 'dead', attempts: { increment: 1 }, lastError: error },
+        });
+    }
+}
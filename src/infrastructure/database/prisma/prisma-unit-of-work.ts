@@ -0,0 +1,50 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA UNIT OF WORK
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs the work in a Prisma interactive transaction. Every repository is
+ * created for the transaction client, so all their queries share it.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { IUnitOfWork } from '../../../application/ports/unit-of-work.port.js';
+import type { PrismaRepositoryOptions } from '../repositories/prisma-base.repository.js';
+import {
+    bindRepositories,
+    runUnitOfWork,
+    type RepositoryFactories,
+} from '../repositories/unit-of-work.js';
+import { prisma, type PrismaTransactionClient } from './client.js';
+
+/**
+ * Prisma implementation of the unit of work port
+ *
+ * @example
+ * const unitOfWork = new PrismaUnitOfWork({
+ *     users: (options) => new PrismaUserRepository(options),
+ *     posts: (options) => new PrismaPostRepository(options),
+ * });
+ */
+export class PrismaUnitOfWork<TRepositories> implements IUnitOfWork<TRepositories> {
+    private readonly db: PrismaClient;
+
+    /**
+     * @param factories - Build each repository from the options binding it to the transaction
+     * @param db - Prisma client (default: the client configured from the environment)
+     */
+    constructor(
+        private readonly factories: RepositoryFactories<TRepositories, PrismaRepositoryOptions>,
+        db?: PrismaClient
+    ) {
+        this.db = db ?? prisma;
+    }
+
+    async execute<T>(work: (repositories: TRepositories) => Promise<T>): Promise<T> {
+        return runUnitOfWork<PrismaTransactionClient, T>(
+            (body) => this.db.$transaction(body),
+            (client, transactionScope) =>
+                work(bindRepositories(this.factories, { client, transactionScope }))
+        );
+    }
+}
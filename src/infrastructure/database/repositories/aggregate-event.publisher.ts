@@ -0,0 +1,131 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * AGGREGATE EVENT PUBLISHER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "An event that is recorded but never told is a secret, not a fact."
+ *
+ * Repositories use this publisher to hand an aggregate's pending domain
+ * events to the dispatcher once a write has succeeded, then clear them.
+ */
+
+import type { ILogger } from '../../../application/ports/logger.port.js';
+import { AggregateRoot, type EntityProps } from '../../../domain/entities/base.entity.js';
+import type {
+    AnyDomainEvent,
+    IDomainEventDispatcher,
+} from '../../../domain/events/domain-event.js';
+import { container } from '../../container/container.js';
+import { TOKENS } from '../../container/tokens.js';
+import type { RepositoryOptions } from './repository.options.js';
+import type { TransactionScope } from './unit-of-work.js';
+
+/**
+ * Publishes the pending events of aggregates after they are persisted
+ */
+export class AggregateEventPublisher {
+    private readonly enabled: boolean;
+    private readonly dispatcher: IDomainEventDispatcher | undefined;
+    private logger: ILogger | undefined;
+    private readonly transactionScope: TransactionScope | undefined;
+
+    constructor(options: RepositoryOptions = {}) {
+        this.enabled = options.publishDomainEvents ?? true;
+        this.dispatcher = options.eventDispatcher;
+        this.logger = options.logger;
+        this.transactionScope = options.transactionScope;
+    }
+
+    /**
+     * Whether events are published for this repository
+     */
+    get isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /**
+     * Get the pending events of an aggregate without clearing them
+     * Entities that are not aggregate roots have no events.
+     */
+    pendingEvents(entity: unknown): AnyDomainEvent[] {
+        if (!this.enabled || !(entity instanceof AggregateRoot)) {
+            return [];
+        }
+
+        return [...(entity as AggregateRoot<EntityProps>).domainEvents];
+    }
+
+    /**
+     * Dispatch and clear the pending events of an aggregate
+     * Within a unit of work, this waits for the commit (events of rolled
+     * back writes stay pending).
+     */
+    async publish(entity: unknown): Promise<void> {
+        if (this.transactionScope) {
+            this.transactionScope.afterCommit(() => this.dispatch(entity));
+            return;
+        }
+        await this.dispatch(entity);
+    }
+
+    /**
+     * Clear the pending events of an aggregate (e.g. once stored in the outbox)
+     */
+    clear(entity: unknown): void {
+        if (entity instanceof AggregateRoot) {
+            entity.clearDomainEvents();
+        }
+    }
+
+    /**
+     * Dispatch and clear the pending events right away
+     */
+    private async dispatch(entity: unknown): Promise<void> {
+        const events = this.pendingEvents(entity);
+        if (events.length === 0) {
+            return;
+        }
+
+        const dispatcher = this.getDispatcher();
+        if (!dispatcher) {
+            // Keep the events pending so they can still be published manually
+            return;
+        }
+
+        try {
+            await dispatcher.dispatchMany(events);
+        } catch (error) {
+            // The write is stored: a failed dispatch must not turn it into a failed one
+            this.getLogger()?.error(
+                'Publishing domain events failed after the write',
+                error instanceof Error ? error : new Error(String(error)),
+                { eventIds: events.map((event) => event.eventId) }
+            );
+        }
+
+        this.clear(entity);
+    }
+
+    /**
+     * Resolve the dispatcher lazily so repositories can be created before it is registered
+     */
+    private getDispatcher(): IDomainEventDispatcher | null {
+        if (this.dispatcher) {
+            return this.dispatcher;
+        }
+
+        return container.isRegistered(TOKENS.EventDispatcher)
+            ? container.resolve(TOKENS.EventDispatcher)
+            : null;
+    }
+
+    /**
+     * Resolve the logger lazily, like the dispatcher
+     */
+    private getLogger(): ILogger | undefined {
+        if (!this.logger && container.isRegistered(TOKENS.LoggerFactory)) {
+            this.logger = container.resolve(TOKENS.LoggerFactory).create('domain-events');
+        }
+        return this.logger;
+    }
+}
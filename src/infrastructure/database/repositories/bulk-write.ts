@@ -0,0 +1,36 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * BULK WRITE HELPERS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shared by the base repositories to report bulk writes item by item.
+ */
+
+import type { BulkWriteReport } from '../../../domain/repositories/base.repository.js';
+import type { DomainError } from '../../../domain/errors/domain.error.js';
+import { isOk, type Result } from '../../../shared/utils/result.js';
+
+/**
+ * Summarize the per-item results of a bulk write
+ */
+export function bulkReport<TEntity>(
+    results: Array<Result<TEntity, DomainError>>
+): BulkWriteReport<TEntity> {
+    const succeeded = results.filter((result) => isOk(result)).length;
+    return { results, succeeded, failed: results.length - succeeded };
+}
+
+/**
+ * Find the indexes of entities whose ID already appeared earlier in the input
+ */
+export function duplicateIndexes(entities: ReadonlyArray<{ id: string }>): Set<number> {
+    const seen = new Set<string>();
+    const duplicates = new Set<number>();
+    entities.forEach((entity, index) => {
+        if (seen.has(entity.id)) {
+            duplicates.add(index);
+        }
+        seen.add(entity.id);
+    });
+    return duplicates;
+}
@@ -0,0 +1,27 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CURSOR SIGNING
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Resolves how base repositories sign their pagination cursors.
+ */
+
+import type { CursorSigningOptions } from '../../../shared/utils/cursor-pagination.util.js';
+import { container } from '../../container/container.js';
+import { TOKENS } from '../../container/tokens.js';
+import type { RepositoryOptions } from './repository.options.js';
+
+/**
+ * The repository's own signing options, else the container's CursorSigning
+ */
+export function resolveCursorSigning(
+    options: RepositoryOptions
+): CursorSigningOptions | undefined {
+    if (options.cursorSigning !== undefined) {
+        return options.cursorSigning ?? undefined;
+    }
+
+    return container.isRegistered(TOKENS.CursorSigning)
+        ? container.resolve(TOKENS.CursorSigning)
+        : undefined;
+}
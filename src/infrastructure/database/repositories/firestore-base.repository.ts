@@ -10,20 +10,96 @@
  */
 
 import {
+    FieldPath,
+    FieldValue,
+    Timestamp,
+    type AggregateField,
+    type AggregateQuery,
+    type AggregateQuerySnapshot,
+    type BulkWriter,
     type CollectionReference,
     type DocumentData,
+    type DocumentReference,
+    type DocumentSnapshot,
+    type Firestore,
+    type Precondition,
     type Query,
+    type QuerySnapshot,
+    type UpdateData,
 } from 'firebase-admin/firestore';
 import type { Entity, EntityProps } from '../../../domain/entities/base.entity.js';
-import type { IRepository, QueryOptions } from '../../../domain/repositories/base.repository.js';
-import { DomainError, EntityNotFoundError } from '../../../domain/errors/domain.error.js';
+import type {
+    BulkWriteReport,
+    IRepository,
+    QueryOptions,
+    SoftDeleteOptions,
+    SpecificationQueryOptions,
+} from '../../../domain/repositories/base.repository.js';
+import {
+    ConcurrencyConflictError,
+    DomainError,
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+} from '../../../domain/errors/domain.error.js';
 import { type Result, ok, err } from '../../../shared/utils/result.js';
 import {
     CursorPaginator,
     type CursorPaginatedResult,
     type CursorPaginationOptions,
+    withTotal,
 } from '../../../shared/utils/cursor-pagination.util.js';
+import { parseFilter, type Filter } from '../../../domain/repositories/filter.js';
+import {
+    specification,
+    type Specification,
+} from '../../../domain/specifications/specification.js';
+import { toFirestoreFilter } from '../filters/firestore.filter.js';
+import {
+    keysetFingerprint,
+    keysetScanDirection,
+    keysetSort,
+} from '../filters/keyset.filter.js';
 import { getFirestoreClient } from '../firebase/client.js';
+import {
+    ALREADY_EXISTS,
+    FAILED_PRECONDITION,
+    FirestoreTransaction,
+    NOT_FOUND,
+    isGrpcError,
+    type DocumentState,
+} from '../firebase/firestore-transaction.js';
+import { AggregateEventPublisher } from './aggregate-event.publisher.js';
+import type { RepositoryOptions } from './repository.options.js';
+import { resolveCursorSigning } from './cursor-signing.js';
+import { bulkReport, duplicateIndexes } from './bulk-write.js';
+
+/**
+ * Maximum number of writes in a Firestore batch or transaction
+ */
+const MAX_BATCH_WRITES = 500;
+
+/**
+ * Read timestamps as dates, so cursors can store them
+ */
+function fromTimestamp(value: unknown): unknown {
+    return value instanceof Timestamp ? value.toDate() : value;
+}
+
+/**
+ * Options for Firestore-backed repositories
+ */
+export interface FirestoreRepositoryOptions extends RepositoryOptions {
+    /**
+     * Firestore client (default: the client configured from the environment)
+     */
+    db?: Firestore;
+    /**
+     * Transaction to run every read and write in (set by `FirestoreUnitOfWork`)
+     * Its writes are staged until the work is done, so writes return the
+     * entity as given instead of reading it back.
+     */
+    transaction?: FirestoreTransaction;
+}
 
 /**
  * Abstract base repository for Firestore-backed entities
@@ -32,16 +108,22 @@ export abstract class FirestoreBaseRepository<
     TEntity extends Entity<TProps>,
     TProps extends EntityProps
 > implements IRepository<TEntity, TProps> {
-    protected readonly db = getFirestoreClient();
+    protected readonly db: Firestore;
     protected readonly paginator: CursorPaginator<string, DocumentData>;
+    protected readonly eventPublisher: AggregateEventPublisher;
+    protected readonly transaction: FirestoreTransaction | undefined;
+
+    constructor(options: FirestoreRepositoryOptions = {}) {
+        this.db = options.db ?? getFirestoreClient();
+        this.eventPublisher = new AggregateEventPublisher(options);
+        this.transaction = options.transaction;
 
-    constructor() {
-        // We use the ID as the cursor value for simplicity in generic implementation
-        // Advanced implementations might use timestamps
+        // The document ID is the cursor value and the tie-breaker on other sort fields
         this.paginator = new CursorPaginator<string, DocumentData>({
             cursorKey: 'id',
             serialize: (v) => v,
             deserialize: (v) => v,
+            signing: resolveCursorSigning(options),
         });
     }
 
@@ -72,10 +154,13 @@ export abstract class FirestoreBaseRepository<
      */
     protected abstract readonly entityName: string;
 
-    async findById(id: string): Promise<Result<TEntity, DomainError>> {
-        const doc = await this.getCollection().doc(id).get();
+    async findById(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<Result<TEntity, DomainError>> {
+        const doc = await this.findDocument(id, options);
 
-        if (!doc.exists) {
+        if (!doc) {
             return err(new EntityNotFoundError(this.entityName, id));
         }
 
@@ -83,7 +168,7 @@ export abstract class FirestoreBaseRepository<
     }
 
     async findMany(options?: QueryOptions<TProps>): Promise<TEntity[]> {
-        let query: Query<DocumentData> = this.getCollection();
+        let query = this.buildQuery(options);
 
         if (options?.orderBy) {
             query = query.orderBy(options.orderBy.field as string, options.orderBy.direction);
@@ -91,128 +176,605 @@ export abstract class FirestoreBaseRepository<
             query = query.orderBy('createdAt', 'desc');
         }
 
-        // Filter support matching
-        if (options?.where) {
-            for (const [key, value] of Object.entries(options.where)) {
-                if (value !== undefined) {
-                    query = query.where(key, '==', value);
-                }
-            }
-        }
-
-        const snapshot = await query.get();
+        const snapshot = await this.getQuery(query);
         return snapshot.docs.map((doc) => this.toDomain(doc.id, doc.data()));
     }
 
+    async findBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<TEntity[]> {
+        return this.findMany({ ...options, where: spec.toFilter() });
+    }
+
     async findManyPaginated(
         paginationOptions: CursorPaginationOptions,
         queryOptions?: QueryOptions<TProps>
     ): Promise<CursorPaginatedResult<TEntity>> {
-        const { limit, cursor } = paginationOptions;
-        const decoded = cursor ? this.paginator.decode(cursor) : null;
-
-        let query: Query<DocumentData> = this.getCollection();
-
-        // Apply filters
-        if (queryOptions?.where) {
-            for (const [key, value] of Object.entries(queryOptions.where)) {
-                if (value !== undefined) {
-                    query = query.where(key, '==', value);
-                }
-            }
+        const { limit, cursor, page: pageNumber } = paginationOptions;
+        const sort = keysetSort(queryOptions);
+        const fingerprint = keysetFingerprint(sort, queryOptions);
+        const position = cursor && pageNumber === undefined
+            ? this.paginator.parse(cursor, fingerprint)
+            : null;
+        const direction = keysetScanDirection(sort, position);
+
+        // Order by the sort field with the document ID as tie-breaker
+        // (sorting on another field than the ID needs a composite index)
+        let query = this.buildQuery(queryOptions);
+        if (sort.field !== 'id') {
+            query = query.orderBy(sort.field, direction);
         }
+        query = query.orderBy(FieldPath.documentId(), direction);
 
-        // Default ordering by ID is required for stable cursor pagination in this simplified implementation
-        // or we need to ensure the order field is unique.
-        // For mixed ordering, Firestore requires composite indexes.
-        if (decoded?.direction === 'backward') {
-            query = query.orderBy('id', 'desc');
-        } else {
-            query = query.orderBy('id', 'asc');
+        // Resume after the cursor position, in the same field order
+        if (position) {
+            query = position.sort
+                ? query.startAfter(position.sort.value, position.value)
+                : query.startAfter(position.value);
         }
 
-        // Apply cursor
-        if (decoded) {
-            // Note: Efficient Firestore cursor pagination typically uses the actual document snapshot
-            // In this generic adapter, we are using the ID which works if ordered by ID
-            // For complex queries, you'd want to pass the last document values
-            query = query.startAfter(decoded.value);
+        // Offset mode skips the previous pages instead (skipped documents are still billed)
+        if (pageNumber !== undefined) {
+            query = query.offset((pageNumber - 1) * limit);
         }
 
         // Fetch limit + 1
         query = query.limit(limit + 1);
-        const snapshot = await query.get();
-
-        const docs = snapshot.docs;
-        const entities = docs.map((doc) => this.toDomain(doc.id, doc.data()));
-
-        const paginatedResult = this.paginator.buildResult(
-            docs.map((d) => ({ ...d.data(), id: d.id })),
-            paginationOptions
-        );
-
-        return {
-            data: entities,
-            pagination: paginatedResult.pagination,
+        const snapshot = await this.getQuery(query);
+
+        const docs = new Map(snapshot.docs.map((doc) => [doc.id, doc]));
+        const records = snapshot.docs.map((doc) => ({
+            id: doc.id,
+            [sort.field]: fromTimestamp(doc.get(sort.field)),
+        }));
+        const page = pageNumber !== undefined
+            ? this.paginator.buildOffsetResult(records, { ...paginationOptions, page: pageNumber })
+            : this.paginator.buildResult(records, paginationOptions, {
+                sortField: sort.field,
+                fingerprint,
+            });
+        const result = {
+            data: page.data.map((record) => {
+                const doc = docs.get(record['id'] as string)!;
+                return this.toDomain(doc.id, doc.data());
+            }),
+            pagination: page.pagination,
         };
+
+        return paginationOptions.includeTotal
+            ? withTotal(result, await this.count(queryOptions), limit)
+            : result;
     }
 
-    async exists(id: string): Promise<boolean> {
-        const doc = await this.getCollection().doc(id).get();
-        return doc.exists;
+    async exists(id: string, options?: SoftDeleteOptions<TProps>): Promise<boolean> {
+        return (await this.findDocument(id, options)) !== null;
     }
 
     async create(entity: TEntity): Promise<Result<TEntity, DomainError>> {
-        const data = this.toPersistence(entity);
-        // Ensure ID is used
-        await this.getCollection().doc(entity.id).set(data);
-        return ok(entity);
+        // Store an explicit null so soft-delete filters match the document
+        const data = { deletedAt: null, ...this.toPersistence(entity), version: 1 };
+        const ref = this.getCollection().doc(entity.id);
+
+        if (this.transaction) {
+            if ((await this.transaction.get(ref)).exists) {
+                return err(new EntityAlreadyExistsError(this.entityName, entity.id));
+            }
+            this.transaction.create(ref, data, this.entityName);
+            entity.markPersisted(1);
+            await this.eventPublisher.publish(entity);
+            return ok(entity);
+        }
+
+        try {
+            await ref.create(data);
+        } catch (error) {
+            if (isGrpcError(error, ALREADY_EXISTS)) {
+                return err(new EntityAlreadyExistsError(this.entityName, entity.id));
+            }
+            throw error;
+        }
+
+        entity.markPersisted(1);
+        await this.eventPublisher.publish(entity);
+        return ok(await this.reload(entity.id));
     }
 
     async update(entity: TEntity): Promise<Result<TEntity, DomainError>> {
-        const exists = await this.exists(entity.id);
-        if (!exists) {
-            return err(new EntityNotFoundError(this.entityName, entity.id));
+        const data = this.toPersistence(entity);
+        const expected = entity.version;
+        const ref = this.getCollection().doc(entity.id);
+
+        // The transaction retries if the document changes between read and write
+        const conflict = await this.inTransaction(async (tx): Promise<DomainError | null> => {
+            const doc = await tx.get(ref);
+            if (!doc.exists) {
+                return new EntityNotFoundError(this.entityName, entity.id);
+            }
+            // Documents written before versioning count as version 1
+            const version = (doc.get('version') as number | undefined) ?? 1;
+            if (version !== expected) {
+                return new ConcurrencyConflictError(this.entityName, entity.id, expected, version);
+            }
+            tx.update(ref, { ...data, version: expected + 1 }, this.entityName);
+            return null;
+        });
+        if (conflict) {
+            return err(conflict);
         }
 
+        entity.markPersisted(expected + 1);
+        await this.eventPublisher.publish(entity);
+        return ok(this.transaction ? entity : await this.reload(entity.id));
+    }
+
+    async upsert(entity: TEntity): Promise<Result<TEntity, DomainError>> {
         const data = this.toPersistence(entity);
-        await this.getCollection().doc(entity.id).update(data);
-        return ok(entity);
+        const ref = this.getCollection().doc(entity.id);
+
+        const version = await this.inTransaction(async (tx): Promise<number | DomainError> => {
+            const doc = await tx.get(ref);
+            if (!doc.exists) {
+                tx.create(ref, { deletedAt: null, ...data, version: 1 }, this.entityName);
+                return 1;
+            }
+            // A loaded entity must still be current; a new one (version 0) overwrites
+            const current = (doc.get('version') as number | undefined) ?? 1;
+            if (entity.version !== 0 && entity.version !== current) {
+                return new ConcurrencyConflictError(this.entityName, entity.id, entity.version, current);
+            }
+            tx.update(ref, { ...data, version: current + 1 }, this.entityName);
+            return current + 1;
+        });
+        if (version instanceof DomainError) {
+            return err(version);
+        }
+
+        entity.markPersisted(version);
+        await this.eventPublisher.publish(entity);
+        return ok(this.transaction ? entity : await this.reload(entity.id));
+    }
+
+    async createMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        const duplicates = duplicateIndexes(entities);
+        const alreadyExists = (entity: TEntity): DomainError =>
+            new EntityAlreadyExistsError(this.entityName, entity.id);
+        const writes = entities.map((entity) => ({
+            ref: this.getCollection().doc(entity.id),
+            data: { deletedAt: null, ...this.toPersistence(entity), version: 1 },
+        }));
+        const failures = entities.map((entity, index) =>
+            duplicates.has(index) ? alreadyExists(entity) : null
+        );
+
+        const transaction = this.transaction;
+        if (transaction) {
+            const stored = await transaction.getAll(writes.map(({ ref }) => ref));
+            writes.forEach(({ ref, data }, index) => {
+                if (stored[index]!.exists && !failures[index]) {
+                    failures[index] = alreadyExists(entities[index]!);
+                }
+                if (!failures[index]) {
+                    transaction.create(ref, data, this.entityName);
+                }
+            });
+        } else {
+            const errors = await this.bulkWrite(writes.map(({ ref, data }, index) =>
+                failures[index] ? null : (writer: BulkWriter) => writer.create(ref, data)
+            ));
+            errors.forEach((error, index) => {
+                if (isGrpcError(error, ALREADY_EXISTS)) {
+                    failures[index] = alreadyExists(entities[index]!);
+                } else if (error) {
+                    throw error;
+                }
+            });
+        }
+
+        return this.completeBulkWrite(entities, failures, () => 1);
     }
 
-    async delete(id: string): Promise<Result<void, DomainError>> {
-        const exists = await this.exists(id);
+    async updateMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        const duplicates = duplicateIndexes(entities);
+        const refs = entities.map((entity) => this.getCollection().doc(entity.id));
+        const transaction = this.transaction;
+        const snapshots = refs.length === 0
+            ? []
+            : transaction
+                ? await transaction.getAll(refs)
+                : await this.db.getAll(...refs);
+
+        // Check the stored versions, then write the entities still current
+        const conflict = (entity: TEntity, version: number): DomainError =>
+            new ConcurrencyConflictError(this.entityName, entity.id, entity.version, version);
+        const failures = entities.map((entity, index): DomainError | null => {
+            const snapshot = snapshots[index];
+            if (!snapshot?.exists) {
+                return new EntityNotFoundError(this.entityName, entity.id);
+            }
+            const version = (snapshot.get('version') as number | undefined) ?? 1;
+            if (duplicates.has(index)) {
+                return conflict(entity, version + 1);
+            }
+            return version === entity.version ? null : conflict(entity, version);
+        });
+        const data = (entity: TEntity): DocumentData =>
+            ({ ...this.toPersistence(entity), version: entity.version + 1 });
+
+        if (transaction) {
+            entities.forEach((entity, index) => {
+                if (!failures[index]) {
+                    transaction.update(refs[index]!, data(entity), this.entityName);
+                }
+            });
+        } else {
+            // The update time precondition rejects documents changed since they were read
+            const errors = await this.bulkWrite(entities.map((entity, index) =>
+                failures[index] ? null : (writer: BulkWriter) =>
+                    writer.update(refs[index]!, data(entity), {
+                        lastUpdateTime: snapshots[index]!.updateTime!,
+                    })
+            ));
+            for (const [index, error] of errors.entries()) {
+                if (isGrpcError(error, FAILED_PRECONDITION)) {
+                    const current = await refs[index]!.get();
+                    const version = (current.get('version') as number | undefined) ?? 1;
+                    failures[index] = conflict(entities[index]!, version);
+                } else if (error) {
+                    throw error;
+                }
+            }
+        }
+
+        return this.completeBulkWrite(entities, failures, (entity) => entity.version + 1);
+    }
+
+    async delete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const exists = await this.exists(id, { includeSoftDeleted: true });
         if (!exists) {
             return err(new EntityNotFoundError(this.entityName, id));
         }
 
-        await this.getCollection().doc(id).delete();
+        const ref = this.getCollection().doc(id);
+        if (this.transaction) {
+            this.transaction.delete(ref, this.entityName);
+        } else {
+            await ref.delete();
+        }
+        await this.eventPublisher.publish(idOrEntity);
         return ok(undefined);
     }
 
-    async softDelete(id: string): Promise<Result<void, DomainError>> {
-        const exists = await this.exists(id);
-        if (!exists) {
+    async deleteMany(
+        spec: Specification<TProps>,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<number> {
+        const query = this.buildQuery({ ...options, where: spec.toFilter() }).select();
+        const snapshot = await this.getQuery(query);
+        await this.writeInBatches(snapshot.docs.map((doc) => doc.ref), null);
+        return snapshot.size;
+    }
+
+    async softDelete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const doc = await this.findDocument(id);
+        if (!doc) {
             return err(new EntityNotFoundError(this.entityName, id));
         }
 
-        await this.getCollection().doc(id).update({ deletedAt: new Date() });
-        return ok(undefined);
+        const deletedAt = typeof idOrEntity === 'string' ? null : idOrEntity.deletedAt;
+        const failure = await this.writeLifecycle(idOrEntity, doc, deletedAt ?? new Date());
+        return failure ? err(failure) : ok(undefined);
+    }
+
+    async restore(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const doc = await this.findDocument(id, { includeSoftDeleted: true });
+        if (!doc) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        const failure = doc.get('deletedAt')
+            ? await this.writeLifecycle(idOrEntity, doc, null)
+            : this.staleVersion(idOrEntity, doc);
+        return failure ? err(failure) : ok(undefined);
+    }
+
+    async purgeSoftDeleted(olderThan: Date): Promise<number> {
+        const purgeable = specification<TProps>(
+            { deletedAt: { lt: olderThan } } as Filter<TProps>
+        );
+        return this.deleteMany(purgeable, { includeSoftDeleted: true });
+    }
+
+    async softDeleteMany(spec: Specification<TProps>): Promise<number> {
+        const query = this.buildQuery({ where: spec.toFilter() }).select('version');
+        const snapshot = await this.getQuery(query);
+        const deletedAt = new Date();
+
+        // Staged writes need plain values, so later reads of the work see them
+        const transaction = this.transaction;
+        if (transaction) {
+            for (const doc of snapshot.docs) {
+                const version = ((doc.get('version') as number | undefined) ?? 1) + 1;
+                transaction.update(doc.ref, { deletedAt, version }, this.entityName);
+            }
+        } else {
+            await this.writeInBatches(snapshot.docs.map((doc) => doc.ref), {
+                deletedAt,
+                version: FieldValue.increment(1),
+            });
+        }
+        return snapshot.size;
     }
 
     async count(options?: QueryOptions<TProps>): Promise<number> {
         // Firestore count aggregation query
+        const snapshot = await this.getAggregate(this.buildQuery(options).count());
+        return snapshot.data().count;
+    }
+
+    async countBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<number> {
+        return this.count({ ...options, where: spec.toFilter() });
+    }
+
+    /**
+     * Store `deletedAt: null` on documents written without the field
+     * Firestore queries never match a missing field, so until then such
+     * documents are found by ID but not by `findMany`, `count` or pagination.
+     * Run once for collections created before soft delete.
+     * @returns The number of documents updated
+     */
+    async backfillSoftDeleteField(): Promise<number> {
+        let updated = 0;
+        let last: DocumentSnapshot<DocumentData> | undefined;
+
+        // Scan the collection in document ID order, one batch at a time
+        for (;;) {
+            let query = this.getCollection()
+                .orderBy(FieldPath.documentId())
+                .select('deletedAt')
+                .limit(MAX_BATCH_WRITES);
+            if (last) {
+                query = query.startAfter(last);
+            }
+            const snapshot = await query.get();
+            const missing = snapshot.docs
+                .filter((doc) => doc.get('deletedAt') === undefined)
+                .map((doc) => doc.ref);
+            await this.writeInBatches(missing, { deletedAt: null });
+            updated += missing.length;
+
+            last = snapshot.docs[snapshot.docs.length - 1];
+            if (!last || snapshot.size < MAX_BATCH_WRITES) {
+                return updated;
+            }
+        }
+    }
+
+    /**
+     * Build a filtered query from query options
+     * @throws UnsupportedFilterError for filters Firestore cannot run
+     */
+    protected buildQuery(options?: QueryOptions<TProps>): Query<DocumentData> {
         let query: Query<DocumentData> = this.getCollection();
 
-        if (options?.where) {
-            for (const [key, value] of Object.entries(options.where)) {
-                if (value !== undefined) {
-                    query = query.where(key, '==', value);
+        const filter = options?.where ? toFirestoreFilter(parseFilter(options.where)) : null;
+        if (filter) {
+            query = query.where(filter);
+        }
+
+        // Exclude soft-deleted records by default (documents need the field,
+        // see `backfillSoftDeleteField`)
+        if (!options?.includeSoftDeleted) {
+            query = query.where('deletedAt', '==', null);
+        }
+
+        return query;
+    }
+
+    /**
+     * Read a stored document, unless it is soft deleted (and those are not included)
+     */
+    protected async findDocument(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<DocumentState | null> {
+        const doc = await this.getDocument(this.getCollection().doc(id));
+        if (!doc.exists || (!options?.includeSoftDeleted && doc.get('deletedAt'))) {
+            return null;
+        }
+        return doc;
+    }
+
+    /**
+     * Read a document, within the bound transaction if any
+     */
+    protected getDocument(ref: DocumentReference<DocumentData>): Promise<DocumentState> {
+        return this.transaction ? this.transaction.get(ref) : ref.get();
+    }
+
+    /**
+     * Run a query, within the bound transaction if any
+     */
+    protected getQuery(query: Query<DocumentData>): Promise<QuerySnapshot<DocumentData>> {
+        return this.transaction ? this.transaction.query(query) : query.get();
+    }
+
+    /**
+     * Run an aggregation query, within the bound transaction if any
+     */
+    protected getAggregate<T extends { [field: string]: AggregateField<unknown> }>(
+        query: AggregateQuery<T>
+    ): Promise<AggregateQuerySnapshot<T>> {
+        return this.transaction ? this.transaction.aggregate(query) : query.get();
+    }
+
+    /**
+     * Run a read-then-write in the bound transaction, or in a transaction of its own
+     */
+    private async inTransaction<T>(write: (tx: FirestoreTransaction) => Promise<T>): Promise<T> {
+        if (this.transaction) {
+            return write(this.transaction);
+        }
+        return this.db.runTransaction(async (transaction) => {
+            const tx = new FirestoreTransaction(transaction);
+            const result = await write(tx);
+            tx.applyWrites();
+            return result;
+        });
+    }
+
+    /**
+     * Reject a write of an entity loaded at another version than the stored one
+     * (writes by ID are not checked)
+     */
+    private staleVersion(
+        source: TEntity | string,
+        doc: DocumentState
+    ): ConcurrencyConflictError | null {
+        const current = (doc.get('version') as number | undefined) ?? 1;
+        return typeof source === 'string' || source.version === current
+            ? null
+            : new ConcurrencyConflictError(this.entityName, source.id, source.version, current);
+    }
+
+    /**
+     * Store a soft delete (a date) or a restore (null) and deliver the pending events
+     * An entity must still be at the version it was loaded at.
+     */
+    private async writeLifecycle(
+        source: TEntity | string,
+        doc: DocumentState,
+        deletedAt: Date | null
+    ): Promise<DomainError | null> {
+        const stale = this.staleVersion(source, doc);
+        if (stale) {
+            return stale;
+        }
+
+        const version = ((doc.get('version') as number | undefined) ?? 1) + 1;
+        if (this.transaction) {
+            this.transaction.update(doc.ref, { deletedAt, version }, this.entityName);
+        } else if (typeof source === 'string') {
+            // Increment the stored version, so a concurrent write's bump is not lost
+            try {
+                await doc.ref.update({ deletedAt, version: FieldValue.increment(1) });
+            } catch (error) {
+                if (isGrpcError(error, NOT_FOUND)) {
+                    return new EntityNotFoundError(this.entityName, source);
                 }
+                throw error;
+            }
+        } else {
+            // The update time precondition rejects a document changed since it was read
+            const precondition: Precondition = doc.updateTime
+                ? { lastUpdateTime: doc.updateTime }
+                : { exists: true };
+            try {
+                await doc.ref.update({ deletedAt, version }, precondition);
+            } catch (error) {
+                if (isGrpcError(error, FAILED_PRECONDITION)) {
+                    const current = (await doc.ref.get()).get('version') as number | undefined;
+                    return new ConcurrencyConflictError(
+                        this.entityName, source.id, source.version, current ?? 1
+                    );
+                }
+                throw error;
             }
         }
+        if (typeof source !== 'string') {
+            source.markPersisted(version);
+        }
+        await this.eventPublisher.publish(source);
+        return null;
+    }
 
-        const snapshot = await query.count().get();
-        return snapshot.data().count;
+    /**
+     * Run writes through a BulkWriter, which batches them within Firestore's limits
+     * @returns The error of each write (`null` when it succeeded or was skipped)
+     */
+    private async bulkWrite(
+        writes: Array<((writer: BulkWriter) => Promise<unknown>) | null>
+    ): Promise<unknown[]> {
+        const writer = this.db.bulkWriter();
+        // Capture failures as values, so none is left unhandled while the writer flushes
+        const outcomes = writes.map((write) =>
+            write ? write(writer).then(() => null, (error: unknown) => error) : null
+        );
+        await writer.close();
+        return Promise.all(outcomes);
+    }
+
+    /**
+     * Record the versions of the written entities, publish their events and report
+     */
+    private async completeBulkWrite(
+        entities: ReadonlyArray<TEntity>,
+        failures: Array<DomainError | null>,
+        nextVersion: (entity: TEntity) => number
+    ): Promise<BulkWriteReport<TEntity>> {
+        const written = entities.filter((_, index) => !failures[index]);
+        for (const entity of written) {
+            entity.markPersisted(nextVersion(entity));
+            await this.eventPublisher.publish(entity);
+        }
+
+        const stored = new Map(written.map((entity) => [entity.id, entity]));
+        if (!this.transaction && written.length > 0) {
+            const docs = await this.db.getAll(...written.map((e) => this.getCollection().doc(e.id)));
+            for (const doc of docs) {
+                stored.set(doc.id, this.toDomain(doc.id, doc.data()!));
+            }
+        }
+
+        return bulkReport(entities.map((entity, index) => {
+            const failure = failures[index];
+            return failure ? err(failure) : ok(stored.get(entity.id)!);
+        }));
+    }
+
+    /**
+     * Apply a deletion (`null`) or the same update to many documents, in batches
+     * within Firestore's 500-write limit (a bound transaction shares that limit)
+     */
+    private async writeInBatches(
+        refs: Array<DocumentReference<DocumentData>>,
+        data: UpdateData<DocumentData> | null
+    ): Promise<void> {
+        if (this.transaction) {
+            for (const ref of refs) {
+                if (data) {
+                    this.transaction.update(ref, data, this.entityName);
+                } else {
+                    this.transaction.delete(ref, this.entityName);
+                }
+            }
+            return;
+        }
+
+        for (let start = 0; start < refs.length; start += MAX_BATCH_WRITES) {
+            const batch = this.db.batch();
+            for (const ref of refs.slice(start, start + MAX_BATCH_WRITES)) {
+                if (data) {
+                    batch.update(ref, data);
+                } else {
+                    batch.delete(ref);
+                }
+            }
+            await batch.commit();
+        }
+    }
+
+    /**
+     * Read back a document after a write, so callers get what was stored
+     */
+    private async reload(id: string): Promise<TEntity> {
+        const doc = await this.getCollection().doc(id).get();
+        return this.toDomain(doc.id, doc.data()!);
     }
 }
@@ -0,0 +1,467 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY BASE REPOSITORY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "The repository hides the persistence reality behind a domain facade."
+ *
+ * This abstract repository keeps records in process memory with the same
+ * semantics as the Prisma and Firestore repositories. Useful for tests and
+ * prototyping; everything is lost when the process exits.
+ */
+
+import type { Entity, EntityProps } from '../../../domain/entities/base.entity.js';
+import type {
+    BulkWriteReport,
+    IRepository,
+    ITransactionalRepository,
+    QueryOptions,
+    SoftDeleteOptions,
+    SpecificationQueryOptions,
+} from '../../../domain/repositories/base.repository.js';
+import {
+    ConcurrencyConflictError,
+    DomainError,
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+} from '../../../domain/errors/domain.error.js';
+import { type Result, ok, err } from '../../../shared/utils/result.js';
+import {
+    createIdPaginator,
+    type CursorPaginatedResult,
+    type CursorPaginationOptions,
+    type CursorPaginator,
+    withTotal,
+} from '../../../shared/utils/cursor-pagination.util.js';
+import { parseFilter, type Filter } from '../../../domain/repositories/filter.js';
+import {
+    specification,
+    type Specification,
+} from '../../../domain/specifications/specification.js';
+import { compareValues, matchesFilter } from '../../../domain/repositories/filter-matcher.js';
+import {
+    keysetFilter,
+    keysetFingerprint,
+    keysetScanDirection,
+    keysetSort,
+} from '../filters/keyset.filter.js';
+import { resolveCursorSigning } from './cursor-signing.js';
+import { bulkReport } from './bulk-write.js';
+import { AggregateEventPublisher } from './aggregate-event.publisher.js';
+import type { RepositoryOptions } from './repository.options.js';
+
+/**
+ * A stored record: the entity's properties plus the soft-delete marker
+ */
+export type InMemoryRecord<TProps extends EntityProps> = TProps & {
+    deletedAt?: Date | null;
+};
+
+/**
+ * Abstract base repository for entities kept in memory
+ *
+ * Writes made inside `transaction()` are rolled back when the operation
+ * throws, and pending domain events are only published once it commits.
+ * Transactions are not isolated from concurrent writes.
+ *
+ * @typeParam TEntity - The domain entity type
+ * @typeParam TProps - The entity's properties type
+ */
+export abstract class InMemoryBaseRepository<
+    TEntity extends Entity<TProps>,
+    TProps extends EntityProps
+> implements ITransactionalRepository<TEntity, TProps> {
+    protected records = new Map<string, InMemoryRecord<TProps>>();
+    protected readonly paginator: CursorPaginator<string, InMemoryRecord<TProps>>;
+    protected readonly eventPublisher: AggregateEventPublisher;
+    /** Written entities whose events are published when the transaction commits */
+    private pendingPublications: Array<TEntity | string> | null = null;
+    /** Versions of the entities written in the transaction, restored on rollback */
+    private previousVersions: Map<TEntity, number> | null = null;
+
+    constructor(options: RepositoryOptions = {}) {
+        this.eventPublisher = new AggregateEventPublisher(options);
+        this.paginator = createIdPaginator<InMemoryRecord<TProps>>(resolveCursorSigning(options));
+    }
+
+    /**
+     * Convert a stored record to a domain entity
+     * Must be implemented by subclasses
+     */
+    protected abstract toDomain(record: InMemoryRecord<TProps>): TEntity;
+
+    /**
+     * The entity type name for error messages
+     */
+    protected abstract readonly entityName: string;
+
+    /**
+     * Convert a domain entity to a stored record
+     * Override to store a different shape than `entity.toObject()`.
+     */
+    protected toPersistence(entity: TEntity): InMemoryRecord<TProps> {
+        return { ...entity.toObject() };
+    }
+
+    async findById(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<Result<TEntity, DomainError>> {
+        const record = this.findRecord(id, options);
+
+        if (!record) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        return ok(this.toDomain({ ...record }));
+    }
+
+    async findMany(options?: QueryOptions<TProps>): Promise<TEntity[]> {
+        const field = (options?.orderBy?.field ?? 'createdAt') as string;
+        const direction = options?.orderBy?.direction ?? 'desc';
+
+        return this.query(options)
+            .sort((a, b) =>
+                compareValues(
+                    (a as Record<string, unknown>)[field],
+                    (b as Record<string, unknown>)[field],
+                    direction
+                )
+            )
+            .map((record) => this.toDomain({ ...record }));
+    }
+
+    async findBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<TEntity[]> {
+        return this.findMany({ ...options, where: spec.toFilter() });
+    }
+
+    async findManyPaginated(
+        paginationOptions: CursorPaginationOptions,
+        queryOptions?: QueryOptions<TProps>
+    ): Promise<CursorPaginatedResult<TEntity>> {
+        const { limit, cursor, page: pageNumber } = paginationOptions;
+        const sort = keysetSort(queryOptions);
+        const fingerprint = keysetFingerprint(sort, queryOptions);
+        const position = cursor && pageNumber === undefined
+            ? this.paginator.parse(cursor, fingerprint)
+            : null;
+        const direction = keysetScanDirection(sort, position);
+        const keyset = position ? keysetFilter(sort, position) : null;
+
+        // Same as the SQL adapters: keyset on the sort field and ID, fetching limit + 1
+        const records = this.query(queryOptions)
+            .filter((record) => !keyset || matchesFilter(record as Record<string, unknown>, keyset))
+            .sort((a, b) =>
+                compareValues(
+                    (a as Record<string, unknown>)[sort.field],
+                    (b as Record<string, unknown>)[sort.field],
+                    direction
+                ) || compareValues(a.id, b.id, direction)
+            )
+            // Offset mode skips the previous pages instead of using a cursor
+            .slice(pageNumber !== undefined ? (pageNumber - 1) * limit : 0)
+            .slice(0, limit + 1);
+
+        const page = pageNumber !== undefined
+            ? this.paginator.buildOffsetResult(records, { ...paginationOptions, page: pageNumber })
+            : this.paginator.buildResult(records, paginationOptions, {
+                sortField: sort.field as keyof InMemoryRecord<TProps> & string,
+                fingerprint,
+            });
+        const result = {
+            data: page.data.map((record) => this.toDomain({ ...record })),
+            pagination: page.pagination,
+        };
+
+        return paginationOptions.includeTotal
+            ? withTotal(result, await this.count(queryOptions), limit)
+            : result;
+    }
+
+    async exists(id: string, options?: SoftDeleteOptions<TProps>): Promise<boolean> {
+        return this.findRecord(id, options) !== undefined;
+    }
+
+    async create(entity: TEntity): Promise<Result<TEntity, DomainError>> {
+        if (this.records.has(entity.id)) {
+            return err(new EntityAlreadyExistsError(this.entityName, entity.id));
+        }
+
+        const record = { ...this.toPersistence(entity), version: 1 };
+        this.records.set(entity.id, record);
+        this.markPersisted(entity, 1);
+        await this.publish(entity);
+        return ok(this.toDomain({ ...record }));
+    }
+
+    async update(entity: TEntity): Promise<Result<TEntity, DomainError>> {
+        const existing = this.records.get(entity.id);
+        if (!existing) {
+            return err(new EntityNotFoundError(this.entityName, entity.id));
+        }
+
+        const expected = entity.version;
+        const version = existing.version ?? 1;
+        if (version !== expected) {
+            return err(
+                new ConcurrencyConflictError(this.entityName, entity.id, expected, version)
+            );
+        }
+
+        const record = { ...existing, ...this.toPersistence(entity), version: expected + 1 };
+        this.records.set(entity.id, record);
+        this.markPersisted(entity, expected + 1);
+        await this.publish(entity);
+        return ok(this.toDomain({ ...record }));
+    }
+
+    async upsert(entity: TEntity): Promise<Result<TEntity, DomainError>> {
+        const existing = this.records.get(entity.id);
+        if (!existing) {
+            return this.create(entity);
+        }
+
+        // A loaded entity must still be current; a new one (version 0) overwrites
+        const current = existing.version ?? 1;
+        if (entity.version !== 0 && entity.version !== current) {
+            return err(
+                new ConcurrencyConflictError(this.entityName, entity.id, entity.version, current)
+            );
+        }
+
+        const version = current + 1;
+        const record = { ...existing, ...this.toPersistence(entity), version };
+        this.records.set(entity.id, record);
+        this.markPersisted(entity, version);
+        await this.publish(entity);
+        return ok(this.toDomain({ ...record }));
+    }
+
+    async createMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        const results: Array<Result<TEntity, DomainError>> = [];
+        for (const entity of entities) {
+            results.push(await this.create(entity));
+        }
+        return bulkReport(results);
+    }
+
+    async updateMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        const results: Array<Result<TEntity, DomainError>> = [];
+        for (const entity of entities) {
+            results.push(await this.update(entity));
+        }
+        return bulkReport(results);
+    }
+
+    async delete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        if (!this.records.delete(id)) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        await this.publish(idOrEntity);
+        return ok(undefined);
+    }
+
+    async deleteMany(
+        spec: Specification<TProps>,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<number> {
+        const matches = this.query({ ...options, where: spec.toFilter() });
+        for (const record of matches) {
+            this.records.delete(record.id);
+        }
+        return matches.length;
+    }
+
+    async softDelete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const record = this.findRecord(id);
+        if (!record) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        const stale = this.staleVersion(idOrEntity, record);
+        if (stale) {
+            return err(stale);
+        }
+
+        const deletedAt = typeof idOrEntity === 'string' ? null : idOrEntity.deletedAt;
+        this.writeLifecycle(idOrEntity, record, deletedAt ?? new Date());
+        await this.publish(idOrEntity);
+        return ok(undefined);
+    }
+
+    async restore(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const record = this.findRecord(id, { includeSoftDeleted: true });
+        if (!record) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        const stale = this.staleVersion(idOrEntity, record);
+        if (stale) {
+            return err(stale);
+        }
+
+        // Restoring an entity that is not deleted writes and publishes nothing
+        if (record.deletedAt) {
+            this.writeLifecycle(idOrEntity, record, null);
+            await this.publish(idOrEntity);
+        }
+        return ok(undefined);
+    }
+
+    async purgeSoftDeleted(olderThan: Date): Promise<number> {
+        const purgeable = specification<TProps>(
+            { deletedAt: { lt: olderThan } } as Filter<TProps>
+        );
+        return this.deleteMany(purgeable, { includeSoftDeleted: true });
+    }
+
+    async softDeleteMany(spec: Specification<TProps>): Promise<number> {
+        const matches = this.query({ where: spec.toFilter() });
+        const deletedAt = new Date();
+        for (const record of matches) {
+            this.records.set(record.id, {
+                ...record,
+                deletedAt,
+                version: (record.version ?? 1) + 1,
+            });
+        }
+        return matches.length;
+    }
+
+    async count(options?: QueryOptions<TProps>): Promise<number> {
+        return this.query(options).length;
+    }
+
+    async countBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<number> {
+        return this.count({ ...options, where: spec.toFilter() });
+    }
+
+    /**
+     * Execute operations within a transaction
+     * The records are restored if the operation throws.
+     */
+    async transaction<T>(
+        operation: (repo: IRepository<TEntity, TProps>) => Promise<T>
+    ): Promise<T> {
+        // Nested transactions join the outer one
+        if (this.pendingPublications) {
+            return operation(this);
+        }
+
+        const snapshot = new Map(this.records);
+        this.pendingPublications = [];
+        this.previousVersions = new Map();
+        try {
+            const result = await operation(this);
+            const committed = this.pendingPublications;
+            this.pendingPublications = null;
+            this.previousVersions = null;
+            for (const source of committed) {
+                await this.eventPublisher.publish(source);
+            }
+            return result;
+        } catch (error) {
+            // Events of rolled back writes stay pending on their aggregates,
+            // and the entities expect the versions they had before
+            this.records = snapshot;
+            for (const [entity, version] of this.previousVersions ?? []) {
+                entity.markPersisted(version);
+            }
+            this.pendingPublications = null;
+            this.previousVersions = null;
+            throw error;
+        }
+    }
+
+    /**
+     * Remove every record (useful between tests)
+     */
+    clear(): void {
+        this.records.clear();
+    }
+
+    /**
+     * Get the records matching the query options
+     */
+    protected query(options?: QueryOptions<TProps>): Array<InMemoryRecord<TProps>> {
+        const filter = parseFilter(options?.where ?? {});
+
+        return [...this.records.values()].filter((record) =>
+            // Exclude soft-deleted records by default
+            (options?.includeSoftDeleted || !record.deletedAt) &&
+            matchesFilter(record as Record<string, unknown>, filter)
+        );
+    }
+
+    /**
+     * Get a stored record, unless it is soft deleted (and those are not included)
+     */
+    protected findRecord(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): InMemoryRecord<TProps> | undefined {
+        const record = this.records.get(id);
+        return record && (options?.includeSoftDeleted || !record.deletedAt) ? record : undefined;
+    }
+
+    /**
+     * Record the version stored by a write, remembering the previous one
+     * while a transaction can still roll back
+     */
+    private markPersisted(entity: TEntity, version: number): void {
+        if (this.previousVersions && !this.previousVersions.has(entity)) {
+            this.previousVersions.set(entity, entity.version);
+        }
+        entity.markPersisted(version);
+    }
+
+    /**
+     * Reject a lifecycle write of an entity loaded at another version than the
+     * stored one (writes by ID are not checked)
+     */
+    private staleVersion(
+        source: TEntity | string,
+        record: InMemoryRecord<TProps>
+    ): ConcurrencyConflictError | null {
+        const current = record.version ?? 1;
+        return typeof source === 'string' || source.version === current
+            ? null
+            : new ConcurrencyConflictError(this.entityName, source.id, source.version, current);
+    }
+
+    /**
+     * Store a soft delete (a date) or a restore (null) and record the new version
+     */
+    private writeLifecycle(
+        source: TEntity | string,
+        record: InMemoryRecord<TProps>,
+        deletedAt: Date | null
+    ): void {
+        const version = (record.version ?? 1) + 1;
+        this.records.set(record.id, { ...record, deletedAt, version });
+        if (typeof source !== 'string') {
+            this.markPersisted(source, version);
+        }
+    }
+
+    /**
+     * Deliver the pending domain events of a write, or defer them to the commit
+     */
+    private async publish(source: TEntity | string): Promise<void> {
+        if (this.pendingPublications) {
+            this.pendingPublications.push(source);
+            return;
+        }
+        await this.eventPublisher.publish(source);
+    }
+}
@@ -0,0 +1,546 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MONGODB BASE REPOSITORY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "The repository hides the persistence reality behind a domain facade."
+ *
+ * This abstract repository provides common CRUD operations with cursor
+ * pagination for MongoDB. The entity ID is stored as the document's `_id`.
+ */
+
+import {
+    MongoBulkWriteError,
+    MongoServerError,
+    type Collection,
+    type Db,
+    type Document,
+    type Filter as MongoQuery,
+    type Sort,
+    type UpdateFilter,
+} from 'mongodb';
+import type { Entity, EntityProps } from '../../../domain/entities/base.entity.js';
+import type {
+    BulkWriteReport,
+    IRepository,
+    QueryOptions,
+    SoftDeleteOptions,
+    SpecificationQueryOptions,
+} from '../../../domain/repositories/base.repository.js';
+import {
+    ConcurrencyConflictError,
+    DomainError,
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+} from '../../../domain/errors/domain.error.js';
+import { type Result, ok, err } from '../../../shared/utils/result.js';
+import {
+    CursorPaginator,
+    type CursorPaginatedResult,
+    type CursorPaginationOptions,
+    withTotal,
+} from '../../../shared/utils/cursor-pagination.util.js';
+import { parseFilter, type Filter } from '../../../domain/repositories/filter.js';
+import {
+    specification,
+    type Specification,
+} from '../../../domain/specifications/specification.js';
+import { toMongoFilter } from '../filters/mongo.filter.js';
+import {
+    keysetFilter,
+    keysetFingerprint,
+    keysetScanDirection,
+    keysetSort,
+} from '../filters/keyset.filter.js';
+import { AggregateEventPublisher } from './aggregate-event.publisher.js';
+import type { RepositoryOptions } from './repository.options.js';
+import { resolveCursorSigning } from './cursor-signing.js';
+import { bulkReport } from './bulk-write.js';
+
+/**
+ * MongoDB error code for duplicate keys
+ */
+const DUPLICATE_KEY = 11000;
+
+/**
+ * A stored document, keyed by the entity ID
+ */
+export interface MongoDocument extends Document {
+    _id: string;
+    version?: number;
+}
+
+/**
+ * A stored document with its `_id` exposed as `id` (the cursor key)
+ */
+type MongoRecord = Document & { id: string };
+
+/**
+ * Options for MongoDB-backed repositories
+ */
+export interface MongoRepositoryOptions extends RepositoryOptions {
+    /**
+     * Database to store the collection in (e.g. the container's MongoDatabase)
+     */
+    db: Db;
+}
+
+/**
+ * The document field storing an entity field
+ */
+function fieldName(field: string): string {
+    return field === 'id' ? '_id' : field;
+}
+
+/**
+ * Match documents at the given version
+ * Documents written before versioning count as version 1.
+ */
+function atVersion(version: number): MongoQuery<MongoDocument> {
+    return version === 1
+        ? { $or: [{ version }, { version: { $exists: false } }] }
+        : { version };
+}
+
+/**
+ * The version of a stored document (1 for documents written before versioning)
+ */
+function storedVersion(document: MongoDocument): number {
+    return document.version ?? 1;
+}
+
+/**
+ * Abstract base repository for MongoDB-backed entities
+ *
+ * @typeParam TEntity - The domain entity type
+ * @typeParam TProps - The entity's properties type
+ */
+export abstract class MongoBaseRepository<
+    TEntity extends Entity<TProps>,
+    TProps extends EntityProps
+> implements IRepository<TEntity, TProps> {
+    protected readonly db: Db;
+    protected readonly paginator: CursorPaginator<string, MongoRecord>;
+    protected readonly eventPublisher: AggregateEventPublisher;
+
+    constructor(options: MongoRepositoryOptions) {
+        this.db = options.db;
+        this.eventPublisher = new AggregateEventPublisher(options);
+        this.paginator = new CursorPaginator<string, MongoRecord>({
+            cursorKey: 'id',
+            serialize: (v) => v,
+            deserialize: (v) => v,
+            signing: resolveCursorSigning(options),
+        });
+    }
+
+    /**
+     * Get the MongoDB collection name
+     */
+    protected abstract readonly collectionName: string;
+
+    /**
+     * Get the MongoDB collection
+     */
+    protected getCollection(): Collection<MongoDocument> {
+        return this.db.collection<MongoDocument>(this.collectionName);
+    }
+
+    /**
+     * Convert a stored document (without its `_id`) to a domain entity
+     */
+    protected abstract toDomain(id: string, data: Document): TEntity;
+
+    /**
+     * Convert a domain entity to document data (the ID and version are managed here)
+     */
+    protected abstract toPersistence(entity: TEntity): Document;
+
+    /**
+     * The entity type name for error messages
+     */
+    protected abstract readonly entityName: string;
+
+    async findById(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<Result<TEntity, DomainError>> {
+        const document = await this.getCollection().findOne(
+            this.buildQuery({ ...options, where: { id } as Filter<TProps> })
+        );
+
+        if (!document) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        return ok(this.fromDocument(document));
+    }
+
+    async findMany(options?: QueryOptions<TProps>): Promise<TEntity[]> {
+        const documents = await this.getCollection()
+            .find(this.buildQuery(options))
+            .sort(options?.orderBy
+                ? { [fieldName(String(options.orderBy.field))]: options.orderBy.direction }
+                : { createdAt: 'desc' })
+            .toArray();
+
+        return documents.map((document) => this.fromDocument(document));
+    }
+
+    async findBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<TEntity[]> {
+        return this.findMany({ ...options, where: spec.toFilter() });
+    }
+
+    async findManyPaginated(
+        paginationOptions: CursorPaginationOptions,
+        queryOptions?: QueryOptions<TProps>
+    ): Promise<CursorPaginatedResult<TEntity>> {
+        const { limit, cursor, page: pageNumber } = paginationOptions;
+        const sort = keysetSort(queryOptions);
+        const fingerprint = keysetFingerprint(sort, queryOptions);
+        const position = cursor && pageNumber === undefined
+            ? this.paginator.parse(cursor, fingerprint)
+            : null;
+        const direction = keysetScanDirection(sort, position);
+
+        // Build the query
+        const query = this.buildQuery(queryOptions);
+        const cursorQuery = position ? toMongoFilter(keysetFilter(sort, position)) : null;
+        const order: Sort = sort.field === 'id'
+            ? { _id: direction }
+            : { [sort.field]: direction, _id: direction };
+
+        // Fetch limit + 1 to detect if there are more items
+        const documents = await this.getCollection()
+            .find(cursorQuery ? { $and: [query, cursorQuery] } : query)
+            .sort(order)
+            // Offset mode skips the previous pages instead of using a cursor
+            .skip(pageNumber !== undefined ? (pageNumber - 1) * limit : 0)
+            .limit(limit + 1)
+            .toArray();
+        const records = documents.map(({ _id, ...data }): MongoRecord => ({ ...data, id: _id }));
+
+        const page = pageNumber !== undefined
+            ? this.paginator.buildOffsetResult(records, { ...paginationOptions, page: pageNumber })
+            : this.paginator.buildResult(records, paginationOptions, {
+                sortField: sort.field,
+                fingerprint,
+            });
+        const result = {
+            data: page.data.map(({ id, ...data }) => this.toDomain(id, data)),
+            pagination: page.pagination,
+        };
+
+        return paginationOptions.includeTotal
+            ? withTotal(result, await this.count(queryOptions), limit)
+            : result;
+    }
+
+    async exists(id: string, options?: SoftDeleteOptions<TProps>): Promise<boolean> {
+        const count = await this.getCollection().countDocuments(
+            this.buildQuery({ ...options, where: { id } as Filter<TProps> }),
+            { limit: 1 }
+        );
+        return count > 0;
+    }
+
+    async create(entity: TEntity): Promise<Result<TEntity, DomainError>> {
+        const document: MongoDocument = {
+            deletedAt: null,
+            ...this.persistenceData(entity),
+            _id: entity.id,
+            version: 1,
+        };
+        try {
+            await this.getCollection().insertOne(document);
+        } catch (error) {
+            if (error instanceof MongoServerError && error.code === DUPLICATE_KEY) {
+                return err(new EntityAlreadyExistsError(this.entityName, entity.id));
+            }
+            throw error;
+        }
+
+        entity.markPersisted(1);
+        await this.eventPublisher.publish(entity);
+        return ok(this.fromDocument(document));
+    }
+
+    async update(entity: TEntity): Promise<Result<TEntity, DomainError>> {
+        const expected = entity.version;
+        // Only write the document still at the version the entity was loaded at
+        const document = await this.getCollection().findOneAndUpdate(
+            { _id: entity.id, ...atVersion(expected) },
+            { $set: { ...this.persistenceData(entity), version: expected + 1 } },
+            { returnDocument: 'after' }
+        );
+        if (!document) {
+            return err(await this.updateConflict(entity.id, expected));
+        }
+
+        entity.markPersisted(expected + 1);
+        await this.eventPublisher.publish(entity);
+        return ok(this.fromDocument(document));
+    }
+
+    async upsert(entity: TEntity): Promise<Result<TEntity, DomainError>> {
+        const data = this.persistenceData(entity);
+        const expected = entity.version;
+
+        // A loaded entity only overwrites the document still at its version
+        if (expected !== 0) {
+            const document = await this.getCollection().findOneAndUpdate(
+                { _id: entity.id, ...atVersion(expected) },
+                { $set: { ...data, version: expected + 1 } },
+                { returnDocument: 'after' }
+            );
+            if (document) {
+                entity.markPersisted(expected + 1);
+                await this.eventPublisher.publish(entity);
+                return ok(this.fromDocument(document));
+            }
+            const conflict = await this.updateConflict(entity.id, expected);
+            if (!(conflict instanceof EntityNotFoundError)) {
+                return err(conflict);
+            }
+        }
+
+        // A new entity (or one whose document is gone) creates or overwrites it
+        const update: UpdateFilter<MongoDocument> = { $set: data, $inc: { version: 1 } };
+        if (!('deletedAt' in data)) {
+            update.$setOnInsert = { deletedAt: null };
+        }
+
+        const document = await this.getCollection().findOneAndUpdate(
+            { _id: entity.id },
+            update,
+            { upsert: true, returnDocument: 'after' }
+        );
+        // An upsert always returns the document, unless the write was not acknowledged
+        if (!document) {
+            throw new Error(`Upsert of ${this.entityName} '${entity.id}' returned no document`);
+        }
+
+        entity.markPersisted(storedVersion(document));
+        await this.eventPublisher.publish(entity);
+        return ok(this.fromDocument(document));
+    }
+
+    async createMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        if (entities.length === 0) {
+            return bulkReport([]);
+        }
+
+        const documents = entities.map((entity): MongoDocument => ({
+            deletedAt: null,
+            ...this.persistenceData(entity),
+            _id: entity.id,
+            version: 1,
+        }));
+
+        // Unordered inserts keep going past duplicates and report them by index
+        const duplicates = new Set<number>();
+        try {
+            await this.getCollection().insertMany(documents, { ordered: false });
+        } catch (error) {
+            if (!(error instanceof MongoBulkWriteError)) {
+                throw error;
+            }
+            const writeErrors = Array.isArray(error.writeErrors)
+                ? error.writeErrors
+                : [error.writeErrors];
+            for (const writeError of writeErrors) {
+                if (writeError.code !== DUPLICATE_KEY) {
+                    throw error;
+                }
+                duplicates.add(writeError.index);
+            }
+        }
+
+        const results: Array<Result<TEntity, DomainError>> = [];
+        for (const [index, entity] of entities.entries()) {
+            if (duplicates.has(index)) {
+                results.push(err(new EntityAlreadyExistsError(this.entityName, entity.id)));
+                continue;
+            }
+            entity.markPersisted(1);
+            await this.eventPublisher.publish(entity);
+            results.push(ok(this.fromDocument(documents[index]!)));
+        }
+        return bulkReport(results);
+    }
+
+    async updateMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        // Each update is conditional on its own version, so they run one by one
+        const results: Array<Result<TEntity, DomainError>> = [];
+        for (const entity of entities) {
+            results.push(await this.update(entity));
+        }
+        return bulkReport(results);
+    }
+
+    async delete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const { deletedCount } = await this.getCollection().deleteOne({ _id: id });
+        if (deletedCount === 0) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        await this.eventPublisher.publish(idOrEntity);
+        return ok(undefined);
+    }
+
+    async deleteMany(
+        spec: Specification<TProps>,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<number> {
+        const { deletedCount } = await this.getCollection().deleteMany(
+            this.buildQuery({ ...options, where: spec.toFilter() })
+        );
+        return deletedCount;
+    }
+
+    async softDelete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const deletedAt = typeof idOrEntity === 'string' ? null : idOrEntity.deletedAt;
+        const written = await this.writeLifecycle(
+            idOrEntity,
+            { deletedAt: null },
+            deletedAt ?? new Date()
+        );
+        if (!written) {
+            const failure = await this.lifecycleFailure(idOrEntity, { deletedAt: null });
+            return err(failure ?? new EntityNotFoundError(this.entityName, id));
+        }
+        return ok(undefined);
+    }
+
+    async restore(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const written = await this.writeLifecycle(idOrEntity, { deletedAt: { $ne: null } }, null);
+        if (!written) {
+            const failure = await this.lifecycleFailure(idOrEntity, {});
+            // Restoring an entity that is not deleted writes and publishes nothing
+            return failure ? err(failure) : ok(undefined);
+        }
+        return ok(undefined);
+    }
+
+    async purgeSoftDeleted(olderThan: Date): Promise<number> {
+        const purgeable = specification<TProps>(
+            { deletedAt: { lt: olderThan } } as Filter<TProps>
+        );
+        return this.deleteMany(purgeable, { includeSoftDeleted: true });
+    }
+
+    async softDeleteMany(spec: Specification<TProps>): Promise<number> {
+        const { modifiedCount } = await this.getCollection().updateMany(
+            this.buildQuery({ where: spec.toFilter() }),
+            { $set: { deletedAt: new Date() }, $inc: { version: 1 } }
+        );
+        return modifiedCount;
+    }
+
+    async count(options?: QueryOptions<TProps>): Promise<number> {
+        return this.getCollection().countDocuments(this.buildQuery(options));
+    }
+
+    async countBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<number> {
+        return this.count({ ...options, where: spec.toFilter() });
+    }
+
+    /**
+     * Convert a stored document to a domain entity
+     */
+    protected fromDocument({ _id, ...data }: MongoDocument): TEntity {
+        return this.toDomain(_id, data);
+    }
+
+    /**
+     * The entity's document data, without the fields managed by the repository
+     */
+    protected persistenceData(entity: TEntity): Document {
+        const { _id, id, version, ...data } = this.toPersistence(entity);
+        return data;
+    }
+
+    /**
+     * Store a soft delete (a date) or a restore (null) on a document in the
+     * given state, and deliver the pending events
+     * An entity must still be at the version it was loaded at; writes by ID are not checked.
+     * Returns false when no document matched.
+     */
+    private async writeLifecycle(
+        source: TEntity | string,
+        state: MongoQuery<MongoDocument>,
+        deletedAt: Date | null
+    ): Promise<boolean> {
+        const id = typeof source === 'string' ? source : source.id;
+        const version = typeof source === 'string' ? {} : atVersion(source.version);
+        const document = await this.getCollection().findOneAndUpdate(
+            { _id: id, ...state, ...version },
+            { $set: { deletedAt }, $inc: { version: 1 } },
+            { returnDocument: 'after' }
+        );
+        if (!document) {
+            return false;
+        }
+
+        if (typeof source !== 'string') {
+            source.markPersisted(storedVersion(document));
+        }
+        await this.eventPublisher.publish(source);
+        return true;
+    }
+
+    /**
+     * Explain why a lifecycle write matched no document: no document in the
+     * given state, or an entity loaded at another version (null if neither)
+     */
+    private async lifecycleFailure(
+        source: TEntity | string,
+        state: MongoQuery<MongoDocument>
+    ): Promise<DomainError | null> {
+        const id = typeof source === 'string' ? source : source.id;
+        const current = await this.getCollection().findOne({ _id: id, ...state });
+        if (!current) {
+            return new EntityNotFoundError(this.entityName, id);
+        }
+        const version = storedVersion(current);
+        return typeof source === 'string' || source.version === version
+            ? null
+            : new ConcurrencyConflictError(this.entityName, id, source.version, version);
+    }
+
+    /**
+     * Explain why a conditional update matched no document
+     */
+    protected async updateConflict(id: string, expectedVersion: number): Promise<DomainError> {
+        const current = await this.getCollection().findOne({ _id: id });
+        if (!current) {
+            return new EntityNotFoundError(this.entityName, id);
+        }
+        const version = storedVersion(current);
+        return new ConcurrencyConflictError(this.entityName, id, expectedVersion, version);
+    }
+
+    /**
+     * Build the MongoDB query from query options
+     */
+    protected buildQuery(options?: QueryOptions<TProps>): MongoQuery<MongoDocument> {
+        const query = options?.where ? toMongoFilter(parseFilter(options.where)) : {};
+
+        // Exclude soft-deleted documents by default (`null` also matches a missing field)
+        if (!options?.includeSoftDeleted) {
+            return Object.keys(query).length === 0
+                ? { deletedAt: null }
+                : { $and: [query, { deletedAt: null }] };
+        }
+
+        return query;
+    }
+}
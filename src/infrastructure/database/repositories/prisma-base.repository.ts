@@ -11,15 +11,78 @@
 
 import type { PrismaClient } from '@prisma/client';
 import type { Entity, EntityProps } from '../../../domain/entities/base.entity.js';
-import type { IRepository, QueryOptions } from '../../../domain/repositories/base.repository.js';
-import { DomainError, EntityNotFoundError } from '../../../domain/errors/domain.error.js';
+import type {
+    BulkWriteReport,
+    IRepository,
+    QueryOptions,
+    SoftDeleteOptions,
+    SpecificationQueryOptions,
+} from '../../../domain/repositories/base.repository.js';
+import {
+    ConcurrencyConflictError,
+    DomainError,
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+} from '../../../domain/errors/domain.error.js';
 import { type Result, ok, err } from '../../../shared/utils/result.js';
 import {
     CursorPaginator,
     type CursorPaginatedResult,
     type CursorPaginationOptions,
+    withTotal,
 } from '../../../shared/utils/cursor-pagination.util.js';
-import { prisma } from '../prisma/client.js';
+import { parseFilter, type Filter } from '../../../domain/repositories/filter.js';
+import {
+    specification,
+    type Specification,
+} from '../../../domain/specifications/specification.js';
+import { toPrismaWhere } from '../filters/prisma.filter.js';
+import {
+    keysetFilter,
+    keysetFingerprint,
+    keysetScanDirection,
+    keysetSort,
+} from '../filters/keyset.filter.js';
+import { resolveCursorSigning } from './cursor-signing.js';
+import {
+    databaseFeatures,
+    prisma,
+    type PrismaTransactionClient,
+} from '../prisma/client.js';
+import { appendToOutbox } from '../prisma/prisma-outbox.store.js';
+import { AggregateEventPublisher } from './aggregate-event.publisher.js';
+import type { RepositoryOptions } from './repository.options.js';
+import { bulkReport, duplicateIndexes } from './bulk-write.js';
+
+/**
+ * Prisma error code for unique constraint violations
+ */
+const UNIQUE_CONSTRAINT_VIOLATION = 'P2002';
+
+/**
+ * Prisma error code for writes to a record that does not exist
+ */
+const RECORD_NOT_FOUND = 'P2025';
+
+/**
+ * Options for Prisma-backed repositories
+ */
+export interface PrismaRepositoryOptions extends RepositoryOptions {
+    /**
+     * Store pending domain events in the outbox table within the same
+     * transaction as the write, instead of dispatching them right away.
+     * The outbox relay delivers them afterwards.
+     */
+    useOutbox?: boolean;
+    /**
+     * Prisma client (default: the client configured from the environment)
+     */
+    prisma?: PrismaClient;
+    /**
+     * Transaction client to run every query on (set by `PrismaUnitOfWork`)
+     */
+    client?: PrismaTransactionClient;
+}
 
 /**
  * Abstract base repository for Prisma-backed entities
@@ -33,23 +96,35 @@ export abstract class PrismaBaseRepository<
     TProps extends EntityProps,
     TPrismaModel
 > implements IRepository<TEntity, TProps> {
-    protected readonly db: PrismaClient;
+    /** Client to open transactions on */
+    protected readonly prisma: PrismaClient;
+    protected readonly db: PrismaTransactionClient;
     protected readonly paginator: CursorPaginator<string, TPrismaModel>;
+    protected readonly eventPublisher: AggregateEventPublisher;
+    protected readonly useOutbox: boolean;
+    /** Whether queries run in a unit of work's transaction */
+    protected readonly inTransaction: boolean;
 
-    constructor() {
-        this.db = prisma;
+    constructor(options: PrismaRepositoryOptions = {}) {
+        this.prisma = options.prisma ?? prisma;
+        this.db = options.client ?? this.prisma;
+        this.inTransaction = options.client !== undefined;
+        this.eventPublisher = new AggregateEventPublisher(options);
+        this.useOutbox = options.useOutbox ?? false;
         this.paginator = new CursorPaginator<string, TPrismaModel>({
             cursorKey: 'id' as keyof TPrismaModel,
             serialize: (v) => v,
             deserialize: (v) => v,
+            signing: resolveCursorSigning(options),
         });
     }
 
     /**
-     * Get the Prisma model delegate (e.g., prisma.user, prisma.post)
+     * Get the Prisma model delegate from the given client (e.g., db.user, db.post)
+     * The client may be bound to a transaction—always use it rather than `this.db`.
      * Must be implemented by subclasses
      */
-    protected abstract getModel(): TPrismaDelegate;
+    protected abstract getModel(db: PrismaTransactionClient): TPrismaDelegate;
 
     /**
      * Convert a Prisma record to a domain entity
@@ -68,12 +143,15 @@ export abstract class PrismaBaseRepository<
      */
     protected abstract readonly entityName: string;
 
-    async findById(id: string): Promise<Result<TEntity, DomainError>> {
-        const record = await (this.getModel() as TPrismaDelegate).findUnique({
+    async findById(
+        id: string,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<Result<TEntity, DomainError>> {
+        const record = await (this.getModel(this.db) as TPrismaDelegate).findUnique({
             where: { id },
         });
 
-        if (!record) {
+        if (!record || (!options?.includeSoftDeleted && isSoftDeleted(record))) {
             return err(new EntityNotFoundError(this.entityName, id));
         }
 
@@ -81,7 +159,7 @@ export abstract class PrismaBaseRepository<
     }
 
     async findMany(options?: QueryOptions<TProps>): Promise<TEntity[]> {
-        const records = await (this.getModel() as TPrismaDelegate).findMany({
+        const records = await (this.getModel(this.db) as TPrismaDelegate).findMany({
             where: this.buildWhereClause(options),
             orderBy: options?.orderBy
                 ? { [options.orderBy.field]: options.orderBy.direction }
@@ -91,123 +169,479 @@ export abstract class PrismaBaseRepository<
         return (records as TPrismaModel[]).map((r: TPrismaModel) => this.toDomain(r));
     }
 
+    async findBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<TEntity[]> {
+        return this.findMany({ ...options, where: spec.toFilter() });
+    }
+
     async findManyPaginated(
         paginationOptions: CursorPaginationOptions,
         queryOptions?: QueryOptions<TProps>
     ): Promise<CursorPaginatedResult<TEntity>> {
-        const { limit, cursor } = paginationOptions;
-        const decoded = cursor ? this.paginator.decode(cursor) : null;
+        const { limit, cursor, page: pageNumber } = paginationOptions;
+        const sort = keysetSort(queryOptions);
+        const fingerprint = keysetFingerprint(sort, queryOptions);
+        const position = cursor && pageNumber === undefined
+            ? this.paginator.parse(cursor, fingerprint)
+            : null;
+        const direction = keysetScanDirection(sort, position);
 
         // Build the query
         const where = this.buildWhereClause(queryOptions);
-        const cursorWhere = decoded
-            ? {
-                id: decoded.direction === 'forward'
-                    ? { gt: decoded.value }
-                    : { lt: decoded.value },
-            }
-            : {};
+        const cursorWhere = position ? toPrismaWhere(keysetFilter(sort, position)) : null;
 
         // Fetch limit + 1 to detect if there are more items
-        const records = await (this.getModel() as TPrismaDelegate).findMany({
-            where: { ...where, ...cursorWhere },
-            orderBy: decoded?.direction === 'backward'
-                ? { id: 'desc' }
-                : { id: 'asc' },
+        const records = await (this.getModel(this.db) as TPrismaDelegate).findMany({
+            where: cursorWhere ? { AND: [where, cursorWhere] } : where,
+            orderBy: sort.field === 'id'
+                ? { id: direction }
+                : [{ [sort.field]: direction }, { id: direction }],
+            // Offset mode skips the previous pages instead of using a cursor
+            ...(pageNumber !== undefined && { skip: (pageNumber - 1) * limit }),
             take: limit + 1,
         });
 
-        // Convert to domain entities
-        const entities = (records as TPrismaModel[]).map((r: TPrismaModel) => this.toDomain(r));
+        // Build paginated result from the records (the paginator handles hasMore detection)
+        const page = pageNumber !== undefined
+            ? this.paginator.buildOffsetResult(records as TPrismaModel[], {
+                ...paginationOptions,
+                page: pageNumber,
+            })
+            : this.paginator.buildResult(records as TPrismaModel[], paginationOptions, {
+                sortField: sort.field as keyof TPrismaModel & string,
+                fingerprint,
+            });
+        const result = {
+            data: page.data.map((record) => this.toDomain(record)),
+            pagination: page.pagination,
+        };
 
-        // Build paginated result (the paginator handles hasMore detection)
-        return this.paginator.buildResult(
-            entities as unknown as TPrismaModel[],
-            paginationOptions
-        ) as unknown as CursorPaginatedResult<TEntity>;
+        return paginationOptions.includeTotal
+            ? withTotal(result, await this.count(queryOptions), limit)
+            : result;
     }
 
-    async exists(id: string): Promise<boolean> {
-        const count = await (this.getModel() as TPrismaDelegate).count({
-            where: { id },
+    async exists(id: string, options?: SoftDeleteOptions<TProps>): Promise<boolean> {
+        const count = await (this.getModel(this.db) as TPrismaDelegate).count({
+            where: this.buildWhereClause({ ...options, where: { id } as Filter<TProps> }),
         });
         return count > 0;
     }
 
     async create(entity: TEntity): Promise<Result<TEntity, DomainError>> {
         const data = this.toPersistence(entity);
-        const record = await (this.getModel() as TPrismaDelegate).create({
-            data,
-        });
-        return ok(this.toDomain(record as TPrismaModel));
+        try {
+            const record = await this.persist(entity, (model) =>
+                model.create({
+                    data: { ...data, version: 1 },
+                })
+            );
+            entity.markPersisted(1);
+            return ok(this.toDomain(record as TPrismaModel));
+        } catch (error) {
+            if (isPrismaError(error, UNIQUE_CONSTRAINT_VIOLATION)) {
+                return err(new EntityAlreadyExistsError(this.entityName, entity.id));
+            }
+            throw error;
+        }
     }
 
     async update(entity: TEntity): Promise<Result<TEntity, DomainError>> {
-        const exists = await this.exists(entity.id);
-        if (!exists) {
-            return err(new EntityNotFoundError(this.entityName, entity.id));
+        const data = this.toPersistence(entity);
+        const expected = entity.version;
+        try {
+            // Only write the row still at the version the entity was loaded at.
+            // Throwing inside `persist` skips event delivery (and rolls back the outbox).
+            const record = await this.persist(entity, async (model) => {
+                const { count } = await model.updateMany({
+                    where: { id: entity.id, version: expected },
+                    data: { ...data, version: expected + 1 },
+                });
+                if (count === 0) {
+                    throw await this.updateConflict(model, entity.id, expected);
+                }
+                return model.findUnique({ where: { id: entity.id } });
+            });
+            entity.markPersisted(expected + 1);
+            return ok(this.toDomain(record as TPrismaModel));
+        } catch (error) {
+            if (error instanceof DomainError) {
+                return err(error);
+            }
+            throw error;
         }
+    }
 
+    async upsert(entity: TEntity): Promise<Result<TEntity, DomainError>> {
         const data = this.toPersistence(entity);
-        const record = await (this.getModel() as TPrismaDelegate).update({
-            where: { id: entity.id },
-            data,
+        const expected = entity.version;
+        try {
+            const record = await this.persist(entity, async (model) => {
+                // A new entity (version 0) creates or overwrites the row
+                if (expected === 0) {
+                    return model.upsert({
+                        where: { id: entity.id },
+                        create: { ...data, version: 1 },
+                        update: { ...data, version: { increment: 1 } },
+                    });
+                }
+
+                // A loaded one only overwrites the row still at its version
+                const { count } = await model.updateMany({
+                    where: { id: entity.id, version: expected },
+                    data: { ...data, version: expected + 1 },
+                });
+                if (count > 0) {
+                    return model.findUnique({ where: { id: entity.id } });
+                }
+                const conflict = await this.updateConflict(model, entity.id, expected);
+                if (conflict instanceof EntityNotFoundError) {
+                    return model.create({ data: { ...data, version: 1 } });
+                }
+                throw conflict;
+            });
+            entity.markPersisted((record as { version: number }).version);
+            return ok(this.toDomain(record as TPrismaModel));
+        } catch (error) {
+            if (error instanceof DomainError) {
+                return err(error);
+            }
+            throw error;
+        }
+    }
+
+    async createMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        const duplicates = duplicateIndexes(entities);
+        const { written, records } = await this.persistMany(async (model) => {
+            const existing = await this.recordsById(model, entities.map((e) => e.id));
+            const written = await this.insertNew(model, entities.filter(
+                (entity, index) => !duplicates.has(index) && !existing.has(entity.id)
+            ));
+            return { written, records: await this.recordsById(model, written.map((e) => e.id)) };
         });
-        return ok(this.toDomain(record as TPrismaModel));
+
+        const created = new Set(written);
+        for (const entity of written) {
+            entity.markPersisted(1);
+        }
+        return bulkReport(entities.map((entity) => {
+            const record = records.get(entity.id);
+            return created.has(entity) && record
+                ? ok(this.toDomain(record))
+                : err(new EntityAlreadyExistsError(this.entityName, entity.id));
+        }));
     }
 
-    async delete(id: string): Promise<Result<void, DomainError>> {
-        const exists = await this.exists(id);
+    async updateMany(entities: ReadonlyArray<TEntity>): Promise<BulkWriteReport<TEntity>> {
+        const { written, failures, records } = await this.persistMany(async (model) => {
+            const written: TEntity[] = [];
+            const failures = new Map<TEntity, DomainError>();
+            for (const entity of entities) {
+                const expected = entity.version;
+                const { count } = await model.updateMany({
+                    where: { id: entity.id, version: expected },
+                    data: { ...this.toPersistence(entity), version: expected + 1 },
+                });
+                if (count === 0) {
+                    failures.set(entity, await this.updateConflict(model, entity.id, expected));
+                } else {
+                    written.push(entity);
+                }
+            }
+            return {
+                written,
+                failures,
+                records: await this.recordsById(model, written.map((e) => e.id)),
+            };
+        });
+
+        for (const entity of written) {
+            entity.markPersisted(entity.version + 1);
+        }
+        return bulkReport(entities.map((entity) => {
+            const failure = failures.get(entity);
+            return failure ? err(failure) : ok(this.toDomain(records.get(entity.id)!));
+        }));
+    }
+
+    async delete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const exists = await this.exists(id, { includeSoftDeleted: true });
         if (!exists) {
             return err(new EntityNotFoundError(this.entityName, id));
         }
 
-        await (this.getModel() as TPrismaDelegate).delete({
-            where: { id },
-        });
+        try {
+            await this.persist(idOrEntity, (model) =>
+                model.delete({
+                    where: { id },
+                })
+            );
+        } catch (error) {
+            // Deleted concurrently since the check
+            if (isPrismaError(error, RECORD_NOT_FOUND)) {
+                return err(new EntityNotFoundError(this.entityName, id));
+            }
+            throw error;
+        }
         return ok(undefined);
     }
 
-    async softDelete(id: string): Promise<Result<void, DomainError>> {
+    async deleteMany(
+        spec: Specification<TProps>,
+        options?: SoftDeleteOptions<TProps>
+    ): Promise<number> {
+        const { count } = await (this.getModel(this.db) as TPrismaDelegate).deleteMany({
+            where: this.buildWhereClause({ ...options, where: spec.toFilter() }),
+        });
+        return count;
+    }
+
+    async softDelete(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
         const exists = await this.exists(id);
         if (!exists) {
             return err(new EntityNotFoundError(this.entityName, id));
         }
 
-        await (this.getModel() as TPrismaDelegate).update({
+        const deletedAt = typeof idOrEntity === 'string' ? null : idOrEntity.deletedAt;
+        return this.writeLifecycle(idOrEntity, deletedAt ?? new Date());
+    }
+
+    async restore(idOrEntity: string | TEntity): Promise<Result<void, DomainError>> {
+        const id = typeof idOrEntity === 'string' ? idOrEntity : idOrEntity.id;
+        const record = await (this.getModel(this.db) as TPrismaDelegate).findUnique({
             where: { id },
-            data: { deletedAt: new Date() },
         });
-        return ok(undefined);
+        if (!record) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        const { version } = record as { version: number };
+        if (typeof idOrEntity !== 'string' && idOrEntity.version !== version) {
+            return err(new ConcurrencyConflictError(this.entityName, id, idOrEntity.version, version));
+        }
+
+        return isSoftDeleted(record) ? this.writeLifecycle(idOrEntity, null) : ok(undefined);
+    }
+
+    async purgeSoftDeleted(olderThan: Date): Promise<number> {
+        const purgeable = specification<TProps>(
+            { deletedAt: { lt: olderThan } } as Filter<TProps>
+        );
+        return this.deleteMany(purgeable, { includeSoftDeleted: true });
+    }
+
+    async softDeleteMany(spec: Specification<TProps>): Promise<number> {
+        const { count } = await (this.getModel(this.db) as TPrismaDelegate).updateMany({
+            where: this.buildWhereClause({ where: spec.toFilter() }),
+            data: { deletedAt: new Date(), version: { increment: 1 } },
+        });
+        return count;
     }
 
     async count(options?: QueryOptions<TProps>): Promise<number> {
-        return (this.getModel() as TPrismaDelegate).count({
+        return (this.getModel(this.db) as TPrismaDelegate).count({
             where: this.buildWhereClause(options),
         });
     }
 
+    async countBySpec(
+        spec: Specification<TProps>,
+        options?: SpecificationQueryOptions<TProps>
+    ): Promise<number> {
+        return this.count({ ...options, where: spec.toFilter() });
+    }
+
+    /**
+     * Run a write and deliver the pending domain events of the written aggregate
+     * With the outbox enabled, the events are stored in the same transaction.
+     */
+    protected async persist<T>(
+        source: TEntity | string,
+        operation: (model: TPrismaDelegate) => Promise<T>
+    ): Promise<T> {
+        if (!this.useOutbox) {
+            const result = await operation(this.getModel(this.db));
+            await this.eventPublisher.publish(source);
+            return result;
+        }
+
+        // Within a unit of work, the outbox rows commit with its transaction
+        if (this.inTransaction) {
+            const result = await operation(this.getModel(this.db));
+            await appendToOutbox(this.db, this.eventPublisher.pendingEvents(source));
+            this.eventPublisher.clear(source);
+            return result;
+        }
+
+        const events = this.eventPublisher.pendingEvents(source);
+        const result = await this.prisma.$transaction(async (tx) => {
+            const value = await operation(this.getModel(tx));
+            await appendToOutbox(tx, events);
+            return value;
+        });
+        this.eventPublisher.clear(source);
+        return result;
+    }
+
+    /**
+     * Store a soft delete (a date) or a restore (null) and deliver the pending events
+     * An entity must still be at the version it was loaded at; writes by ID are not checked.
+     */
+    private async writeLifecycle(
+        source: TEntity | string,
+        deletedAt: Date | null
+    ): Promise<Result<void, DomainError>> {
+        const id = typeof source === 'string' ? source : source.id;
+        const expected = typeof source === 'string' ? undefined : source.version;
+        try {
+            const record = await this.persist(source, async (model) => {
+                const { count } = await model.updateMany({
+                    where: expected === undefined ? { id } : { id, version: expected },
+                    data: { deletedAt, version: { increment: 1 } },
+                });
+                if (count === 0) {
+                    throw await this.updateConflict(model, id, expected ?? 0);
+                }
+                return model.findUnique({ where: { id } });
+            });
+            if (typeof source !== 'string') {
+                source.markPersisted((record as { version: number }).version);
+            }
+            return ok(undefined);
+        } catch (error) {
+            if (error instanceof DomainError) {
+                return err(error);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Run a bulk write in one transaction and deliver the pending domain
+     * events of the aggregates it wrote
+     */
+    protected async persistMany<T extends { written: ReadonlyArray<TEntity> }>(
+        operation: (model: TPrismaDelegate) => Promise<T>
+    ): Promise<T> {
+        const run = async (db: PrismaTransactionClient): Promise<T> => {
+            const value = await operation(this.getModel(db));
+            if (this.useOutbox) {
+                const events = value.written.flatMap((e) => this.eventPublisher.pendingEvents(e));
+                await appendToOutbox(db, events);
+            }
+            return value;
+        };
+
+        const value = this.inTransaction ? await run(this.db) : await this.prisma.$transaction(run);
+        for (const entity of value.written) {
+            if (this.useOutbox) {
+                this.eventPublisher.clear(entity);
+            } else {
+                await this.eventPublisher.publish(entity);
+            }
+        }
+        return value;
+    }
+
+    /**
+     * Insert the rows of new entities
+     * Rows inserted concurrently since the entities were checked are skipped one by
+     * one, so only the inserts that wrote count as created. SQLite cannot skip them,
+     * so the batch fails there instead.
+     * @returns The entities whose rows were inserted
+     */
+    protected async insertNew(
+        model: TPrismaDelegate,
+        entities: ReadonlyArray<TEntity>
+    ): Promise<TEntity[]> {
+        const row = (entity: TEntity) => ({ ...this.toPersistence(entity), version: 1 });
+        if (!databaseFeatures.skipDuplicates) {
+            await model.createMany({ data: entities.map(row) });
+            return [...entities];
+        }
+
+        const inserted: TEntity[] = [];
+        for (const entity of entities) {
+            const { count } = await model.createMany({ data: [row(entity)], skipDuplicates: true });
+            if (count > 0) {
+                inserted.push(entity);
+            }
+        }
+        return inserted;
+    }
+
+    /**
+     * Load the records with the given IDs, by ID
+     */
+    protected async recordsById(
+        model: TPrismaDelegate,
+        ids: string[]
+    ): Promise<Map<string, TPrismaModel>> {
+        const records = await model.findMany({ where: { id: { in: ids } } });
+        return new Map(
+            records.map((record) => [(record as { id: string }).id, record as TPrismaModel])
+        );
+    }
+
+    /**
+     * Explain why a conditional update matched no row
+     */
+    protected async updateConflict(
+        model: TPrismaDelegate,
+        id: string,
+        expectedVersion: number
+    ): Promise<DomainError> {
+        const current = await model.findUnique({ where: { id } });
+        if (!current) {
+            return new EntityNotFoundError(this.entityName, id);
+        }
+        const { version } = current as { version: number };
+        return new ConcurrencyConflictError(this.entityName, id, expectedVersion, version);
+    }
+
     /**
      * Build the where clause from query options
      */
     protected buildWhereClause(
         options?: QueryOptions<TProps>
     ): Record<string, unknown> {
-        const where: Record<string, unknown> = {};
-
-        if (options?.where) {
-            Object.assign(where, options.where);
-        }
+        const where = options?.where ? toPrismaWhere(parseFilter(options.where)) : {};
 
-        // Exclude soft-deleted records by default
+        // Exclude soft-deleted records by default, alongside any filter on `deletedAt`
         if (!options?.includeSoftDeleted) {
-            where['deletedAt'] = null;
+            return Object.keys(where).length === 0
+                ? { deletedAt: null }
+                : { AND: [where, { deletedAt: null }] };
         }
 
         return where;
     }
 }
 
+/**
+ * Check the code of a Prisma request error
+ * Checked by name rather than class: a client generated to its own output
+ * (like the integration tests' one) bundles its own copy of the error classes.
+ */
+function isPrismaError(error: unknown, code: string): boolean {
+    return (
+        error instanceof Error &&
+        error.name === 'PrismaClientKnownRequestError' &&
+        (error as { code?: unknown }).code === code
+    );
+}
+
+/**
+ * Check whether a record is soft deleted
+ */
+function isSoftDeleted(record: unknown): boolean {
+    return Boolean((record as { deletedAt?: Date | null }).deletedAt);
+}
+
 /**
  * Type helper for Prisma model delegates
  */
@@ -215,11 +649,23 @@ type TPrismaDelegate = {
     findUnique: (args: { where: { id: string } }) => Promise<unknown>;
     findMany: (args: {
         where?: Record<string, unknown>;
-        orderBy?: Record<string, string>;
+        orderBy?: Record<string, string> | Array<Record<string, string>>;
+        skip?: number;
         take?: number;
     }) => Promise<unknown[]>;
     create: (args: { data: unknown }) => Promise<unknown>;
+    createMany: (args: { data: unknown[]; skipDuplicates?: boolean }) => Promise<{ count: number }>;
+    upsert: (args: {
+        where: { id: string };
+        create: unknown;
+        update: unknown;
+    }) => Promise<unknown>;
     update: (args: { where: { id: string }; data: unknown }) => Promise<unknown>;
+    updateMany: (args: {
+        where: Record<string, unknown>;
+        data: unknown;
+    }) => Promise<{ count: number }>;
     delete: (args: { where: { id: string } }) => Promise<unknown>;
+    deleteMany: (args: { where: Record<string, unknown> }) => Promise<{ count: number }>;
     count: (args?: { where?: Record<string, unknown> }) => Promise<number>;
 };
@@ -0,0 +1,34 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * REPOSITORY OPTIONS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Options every base repository accepts, whatever its database.
+ */
+
+import type { ILogger } from '../../../application/ports/logger.port.js';
+import type { IDomainEventDispatcher } from '../../../domain/events/domain-event.js';
+import type { CursorSigningOptions } from '../../../shared/utils/cursor-pagination.util.js';
+import type { TransactionScope } from './unit-of-work.js';
+
+/**
+ * Options shared by all base repositories
+ */
+export interface RepositoryOptions {
+    /** Publish pending aggregate events after successful writes (default: true) */
+    publishDomainEvents?: boolean;
+    /** Dispatcher to publish through (default: the container's EventDispatcher) */
+    eventDispatcher?: IDomainEventDispatcher;
+    /** Logger for events that fail to publish (default: from the container's LoggerFactory) */
+    logger?: ILogger;
+    /**
+     * Sign pagination cursors (default: the container's CursorSigning, if registered)
+     * Pass `null` to issue unsigned cursors.
+     */
+    cursorSigning?: CursorSigningOptions | null;
+    /**
+     * Unit of work the repository is bound to (set by `IUnitOfWork` adapters)
+     * Events are then published once it commits.
+     */
+    transactionScope?: TransactionScope;
+}
@@ -0,0 +1,115 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * UNIT OF WORK SUPPORT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Shared plumbing of the `IUnitOfWork` adapters: the scope that defers event
+ * publication to the commit, rollback on `Err` results, and building
+ * transaction-bound repositories from factories.
+ */
+
+import type { Result } from '../../../shared/utils/result.js';
+
+/**
+ * Builds a repository bound to the transaction described by the options
+ */
+export type RepositoryFactories<TRepositories, TOptions> = {
+    [K in keyof TRepositories]: (options: TOptions) => TRepositories[K];
+};
+
+/**
+ * Collects the work to do once a unit of work has committed
+ */
+export class TransactionScope {
+    private readonly callbacks: Array<() => Promise<void>> = [];
+
+    /**
+     * Run a callback after the commit (dropped on rollback)
+     */
+    afterCommit(callback: () => Promise<void>): void {
+        this.callbacks.push(callback);
+    }
+
+    /**
+     * Run the callbacks, in registration order
+     */
+    async committed(): Promise<void> {
+        for (const callback of this.callbacks.splice(0)) {
+            await callback();
+        }
+    }
+}
+
+/**
+ * Thrown inside the transaction to roll back work that resolved with an `Err`
+ */
+class UnitOfWorkRollback extends Error {
+    constructor(readonly result: unknown) {
+        super('Unit of work rolled back');
+        this.name = 'UnitOfWorkRollback';
+    }
+}
+
+/**
+ * Check whether the work resolved with a `Result`
+ */
+export function isResult(value: unknown): value is Result<unknown, unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        'ok' in value &&
+        typeof value.ok === 'boolean' &&
+        (value.ok ? 'value' in value : 'error' in value)
+    );
+}
+
+function isErrResult(value: unknown): boolean {
+    return isResult(value) && !value.ok;
+}
+
+/**
+ * Run a unit of work inside a driver transaction
+ *
+ * @param transaction - Runs its body in a transaction, rolling back when it throws
+ * (the body may be retried, each attempt gets a fresh scope)
+ * @param work - The work, given the transaction and its scope
+ */
+export async function runUnitOfWork<TTransaction, T>(
+    transaction: (body: (tx: TTransaction) => Promise<T>) => Promise<T>,
+    work: (tx: TTransaction, scope: TransactionScope) => Promise<T>
+): Promise<T> {
+    let scope = new TransactionScope();
+    let result: T;
+    try {
+        result = await transaction(async (tx) => {
+            scope = new TransactionScope();
+            const value = await work(tx, scope);
+            if (isErrResult(value)) {
+                throw new UnitOfWorkRollback(value);
+            }
+            return value;
+        });
+    } catch (error) {
+        if (error instanceof UnitOfWorkRollback) {
+            return error.result as T;
+        }
+        throw error;
+    }
+
+    await scope.committed();
+    return result;
+}
+
+/**
+ * Build the repositories of a unit of work with the same options
+ */
+export function bindRepositories<TRepositories, TOptions>(
+    factories: RepositoryFactories<TRepositories, TOptions>,
+    options: TOptions
+): TRepositories {
+    const repositories: Partial<TRepositories> = {};
+    for (const name of Object.keys(factories) as Array<keyof TRepositories>) {
+        repositories[name] = factories[name](options);
+    }
+    return repositories as TRepositories;
+}
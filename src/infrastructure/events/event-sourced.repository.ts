@@ -0,0 +1,149 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EVENT-SOURCED REPOSITORY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "To know where you are, remember every step you took."
+ *
+ * Loads event-sourced aggregates by replaying their stream (starting from
+ * the latest snapshot, if any) and saves them by appending their pending
+ * events with optimistic concurrency on the stream version.
+ */
+
+import type { IEventStore } from '../../application/ports/event-store.port.js';
+import type { ILogger } from '../../application/ports/logger.port.js';
+import type { EventSourcedAggregateRoot } from '../../domain/entities/event-sourced-aggregate.js';
+import type { EntityProps } from '../../domain/entities/base.entity.js';
+import type { AnyDomainEvent, IDomainEventDispatcher } from '../../domain/events/domain-event.js';
+import type { DomainEventRegistry } from '../../domain/events/event-registry.js';
+import { DomainError, EntityNotFoundError } from '../../domain/errors/domain.error.js';
+import { type Result, ok, err, isErr } from '../../shared/utils/result.js';
+
+/**
+ * Creates an empty aggregate to replay events into
+ */
+export type AggregateFactory<TAggregate> = (id: string) => TAggregate;
+
+/**
+ * Event-sourced repository configuration
+ */
+export interface EventSourcedRepositoryOptions {
+    /** Entity name used in error messages (default: 'Aggregate') */
+    entityName?: string;
+    /** Take a snapshot every N events; 0 disables snapshots (default: 0) */
+    snapshotEvery?: number;
+    /** Dispatcher notified of the events once they are stored */
+    eventDispatcher?: IDomainEventDispatcher;
+    /** Logger for events that fail to dispatch once stored */
+    logger?: ILogger;
+}
+
+/**
+ * Repository for event-sourced aggregates
+ *
+ * @typeParam TAggregate - The aggregate type
+ */
+export class EventSourcedRepository<
+    TAggregate extends EventSourcedAggregateRoot<TProps>,
+    TProps extends EntityProps = EntityProps
+> {
+    private readonly entityName: string;
+    private readonly snapshotEvery: number;
+    private readonly eventDispatcher: IDomainEventDispatcher | undefined;
+    private readonly logger: ILogger | undefined;
+
+    constructor(
+        private readonly store: IEventStore,
+        private readonly registry: DomainEventRegistry,
+        private readonly factory: AggregateFactory<TAggregate>,
+        options: EventSourcedRepositoryOptions = {}
+    ) {
+        this.entityName = options.entityName ?? 'Aggregate';
+        this.snapshotEvery = options.snapshotEvery ?? 0;
+        this.eventDispatcher = options.eventDispatcher;
+        this.logger = options.logger;
+    }
+
+    /**
+     * Rebuild an aggregate from its snapshot and stream
+     */
+    async load(id: string): Promise<Result<TAggregate, DomainError>> {
+        const aggregate = this.factory(id);
+        const snapshot = this.snapshotEvery > 0 ? await this.store.loadSnapshot(id) : null;
+
+        if (snapshot) {
+            aggregate.restoreSnapshot(snapshot.state, snapshot.streamVersion);
+        }
+
+        const stored = await this.store.readStream(id, aggregate.streamVersion + 1);
+        if (!snapshot && stored.length === 0) {
+            return err(new EntityNotFoundError(this.entityName, id));
+        }
+
+        const events: AnyDomainEvent[] = [];
+        for (const { data } of stored) {
+            const result = this.registry.deserialize(data);
+            if (isErr(result)) {
+                return result;
+            }
+            events.push(result.value);
+        }
+
+        aggregate.loadFromHistory(events);
+        return ok(aggregate);
+    }
+
+    /**
+     * Append the aggregate's pending events to its stream
+     * Fails with a conflict error if the stream moved since the aggregate was loaded.
+     */
+    async save(aggregate: TAggregate): Promise<Result<TAggregate, DomainError>> {
+        const events = [...aggregate.domainEvents];
+        if (events.length === 0) {
+            return ok(aggregate);
+        }
+
+        const expectedVersion = aggregate.streamVersion;
+        const result = await this.store.append(aggregate.id, events, expectedVersion);
+        if (isErr(result)) {
+            return result;
+        }
+
+        aggregate.markCommitted(result.value);
+
+        if (this.shouldSnapshot(expectedVersion, result.value)) {
+            await this.store.saveSnapshot({
+                streamId: aggregate.id,
+                streamVersion: result.value,
+                state: aggregate.toSnapshot(),
+                takenAt: new Date(),
+            });
+        }
+
+        if (this.eventDispatcher) {
+            try {
+                await this.eventDispatcher.dispatchMany(events);
+            } catch (error) {
+                // The events are stored: a failed dispatch must not fail the save
+                this.logger?.error(
+                    `Dispatching events of ${this.entityName} '${aggregate.id}' failed`,
+                    error instanceof Error ? error : new Error(String(error)),
+                    { eventIds: events.map((event) => event.eventId) }
+                );
+            }
+        }
+
+        return ok(aggregate);
+    }
+
+    /**
+     * Check whether an append crossed a multiple of the snapshot interval
+     */
+    private shouldSnapshot(previousVersion: number, newVersion: number): boolean {
+        if (this.snapshotEvery <= 0) {
+            return false;
+        }
+        return Math.floor(newVersion / this.snapshotEvery) >
+            Math.floor(previousVersion / this.snapshotEvery);
+    }
+}
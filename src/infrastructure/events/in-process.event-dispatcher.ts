@@ -0,0 +1,269 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-PROCESS DOMAIN EVENT DISPATCHER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "An event shouted into the void changes nothing. Someone must listen."
+ *
+ * This is the infrastructure implementation of the domain event dispatcher.
+ * Handlers are registered by event type (or '*' for every event) and are
+ * invoked in the same process. A failing handler never prevents the others
+ * from running—failures are isolated and logged. With `rejectOnHandlerFailure`
+ * they are also reported once every handler has had its turn: `dispatch`
+ * then rejects with an `EventDispatchError` naming the failed handlers.
+ */
+
+import type {
+    AnyDomainEvent,
+    IDomainEventDispatcher,
+    IDomainEventHandler,
+} from '../../domain/events/domain-event.js';
+import type { ILogger } from '../../application/ports/logger.port.js';
+
+/**
+ * Event type used to register a handler for every event
+ */
+export const WILDCARD_EVENT_TYPE = '*';
+
+/**
+ * How a handler is executed relative to the other handlers of an event
+ *
+ * - `sequential`: awaited one after another, in registration order
+ * - `parallel`: started together once all sequential handlers have finished
+ */
+export type HandlerExecutionMode = 'sequential' | 'parallel';
+
+/**
+ * Options for registering a handler
+ */
+export interface HandlerRegistrationOptions {
+    /** Execution mode for this handler (default: sequential) */
+    mode?: HandlerExecutionMode;
+    /** Name used in logs and `EventDispatchError` (default: the handler's class name) */
+    name?: string;
+}
+
+/**
+ * Dispatcher configuration
+ */
+export interface InProcessEventDispatcherOptions {
+    /**
+     * Reject with an `EventDispatchError` once every handler has run if any
+     * failed, e.g. so the outbox relay retries the event (default: false)
+     */
+    rejectOnHandlerFailure?: boolean;
+}
+
+/**
+ * Raised after dispatching when one or more handlers failed (with
+ * `rejectOnHandlerFailure`). Every other handler has still been invoked. Handlers are listed by
+ * their registration name.
+ */
+export class EventDispatchError extends Error {
+    constructor(
+        public readonly eventIds: string[],
+        public readonly failedHandlers: string[]
+    ) {
+        super(
+            `${failedHandlers.length} handler(s) failed: ${failedHandlers.join(', ')}`
+        );
+        this.name = 'EventDispatchError';
+    }
+}
+
+/**
+ * Registered handler entry
+ */
+interface HandlerEntry {
+    handler: IDomainEventHandler<AnyDomainEvent>;
+    mode: HandlerExecutionMode;
+    name: string;
+}
+
+/**
+ * Dispatches domain events to handlers registered in this process
+ */
+export class InProcessEventDispatcher implements IDomainEventDispatcher {
+    private readonly handlers = new Map<string, HandlerEntry[]>();
+    private readonly rejectOnHandlerFailure: boolean;
+
+    constructor(
+        private readonly logger: ILogger,
+        options: InProcessEventDispatcherOptions = {}
+    ) {
+        this.rejectOnHandlerFailure = options.rejectOnHandlerFailure ?? false;
+    }
+
+    /**
+     * Register a handler for its event type
+     * Use an `eventType` of '*' to receive every dispatched event. Name
+     * anonymous handlers (e.g. object literals) so failures can be traced.
+     */
+    register<TEvent extends AnyDomainEvent>(
+        handler: IDomainEventHandler<TEvent>,
+        options: HandlerRegistrationOptions = {}
+    ): this {
+        const entries = this.handlers.get(handler.eventType) ?? [];
+        entries.push({
+            handler: handler as unknown as IDomainEventHandler<AnyDomainEvent>,
+            mode: options.mode ?? 'sequential',
+            name: options.name ?? defaultHandlerName(handler, entries.length),
+        });
+        this.handlers.set(handler.eventType, entries);
+        return this;
+    }
+
+    /**
+     * Remove a previously registered handler
+     */
+    unregister<TEvent extends AnyDomainEvent>(handler: IDomainEventHandler<TEvent>): this {
+        const entries = this.handlers.get(handler.eventType);
+        if (entries) {
+            this.handlers.set(
+                handler.eventType,
+                entries.filter((entry) => entry.handler !== (handler as unknown))
+            );
+        }
+        return this;
+    }
+
+    /**
+     * Check if any handler (including wildcards) would receive the event type
+     */
+    hasHandlers(eventType: string): boolean {
+        return this.getEntries(eventType).length > 0;
+    }
+
+    /**
+     * Remove all handlers (useful for testing)
+     */
+    clear(): void {
+        this.handlers.clear();
+    }
+
+    /**
+     * Run every handler of the event
+     * With `rejectOnHandlerFailure`, rejects with an `EventDispatchError`
+     * once all have run if any failed.
+     */
+    async dispatch(event: AnyDomainEvent): Promise<void> {
+        const entries = this.getEntries(event.eventType);
+
+        this.logger.debug(`Dispatching ${event.eventType}`, {
+            eventId: event.eventId,
+            eventType: event.eventType,
+            aggregateId: event.aggregateId,
+            handlerCount: entries.length,
+        });
+
+        const sequential = entries.filter((entry) => entry.mode === 'sequential');
+        const parallel = entries.filter((entry) => entry.mode === 'parallel');
+
+        const failedHandlers: string[] = [];
+
+        for (const entry of sequential) {
+            if (!(await this.invoke(entry, event))) {
+                failedHandlers.push(entry.name);
+            }
+        }
+
+        const outcomes = await Promise.all(parallel.map((entry) => this.invoke(entry, event)));
+        outcomes.forEach((succeeded, index) => {
+            if (!succeeded) {
+                failedHandlers.push(parallel[index]!.name);
+            }
+        });
+
+        if (failedHandlers.length > 0) {
+            this.logger.warn(`Dispatched ${event.eventType} with failing handlers`, {
+                eventId: event.eventId,
+                eventType: event.eventType,
+                failedHandlers,
+            });
+            if (this.rejectOnHandlerFailure) {
+                throw new EventDispatchError([event.eventId], failedHandlers);
+            }
+        }
+    }
+
+    /**
+     * Dispatch every event (with `rejectOnHandlerFailure`, then reject with
+     * one `EventDispatchError` covering all the failed handlers, if any)
+     */
+    async dispatchMany(events: ReadonlyArray<AnyDomainEvent>): Promise<void> {
+        const failures: EventDispatchError[] = [];
+
+        // Events are dispatched in order—later events may depend on earlier ones
+        for (const event of events) {
+            try {
+                await this.dispatch(event);
+            } catch (error) {
+                if (!(error instanceof EventDispatchError)) {
+                    throw error;
+                }
+                failures.push(error);
+            }
+        }
+
+        if (failures.length > 0) {
+            throw new EventDispatchError(
+                failures.flatMap((failure) => failure.eventIds),
+                failures.flatMap((failure) => failure.failedHandlers)
+            );
+        }
+    }
+
+    /**
+     * Get the handlers for an event type, wildcard handlers last
+     */
+    private getEntries(eventType: string): HandlerEntry[] {
+        const specific = this.handlers.get(eventType) ?? [];
+        const wildcard =
+            eventType === WILDCARD_EVENT_TYPE
+                ? []
+                : this.handlers.get(WILDCARD_EVENT_TYPE) ?? [];
+        return [...specific, ...wildcard];
+    }
+
+    /**
+     * Invoke a single handler, isolating any failure
+     * @returns true if the handler completed successfully
+     */
+    private async invoke({ handler, name }: HandlerEntry, event: AnyDomainEvent): Promise<boolean> {
+        const startedAt = Date.now();
+
+        try {
+            await handler.handle(event);
+            this.logger.trace(`Handler ${name} completed`, {
+                eventId: event.eventId,
+                eventType: event.eventType,
+                durationMs: Date.now() - startedAt,
+            });
+            return true;
+        } catch (error) {
+            this.logger.error(
+                `Handler ${name} failed for ${event.eventType}`,
+                error instanceof Error ? error : new Error(String(error)),
+                {
+                    eventId: event.eventId,
+                    eventType: event.eventType,
+                    aggregateId: event.aggregateId,
+                    durationMs: Date.now() - startedAt,
+                }
+            );
+            return false;
+        }
+    }
+}
+
+/**
+ * Name a handler by its class, or by its event type and registration
+ * position for object literals
+ */
+function defaultHandlerName(handler: { eventType: string }, position: number): string {
+    const className = handler.constructor.name;
+    if (className && className !== 'Object') {
+        return className;
+    }
+    return `${handler.eventType} handler #${position + 1}`;
+}
@@ -0,0 +1,268 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * OUTBOX RELAY
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Patience is the companion of wisdom. So is exponential backoff."
+ *
+ * The relay polls the outbox for pending messages, rehydrates them into
+ * domain events and hands them to the dispatcher. Failed deliveries are
+ * retried with exponential backoff until they are dead-lettered.
+ */
+
+import type { IOutboxStore, OutboxMessage } from '../../application/ports/outbox.port.js';
+import type { ILogger } from '../../application/ports/logger.port.js';
+import type {
+    AnyDomainEvent,
+    IDomainEventDispatcher,
+    SerializedDomainEvent,
+} from '../../domain/events/domain-event.js';
+import type { DomainEventRegistry } from '../../domain/events/event-registry.js';
+import { isErr } from '../../shared/utils/result.js';
+
+/**
+ * Turns a stored outbox message back into a domain event
+ */
+export type OutboxEventDeserializer = (message: OutboxMessage) => AnyDomainEvent;
+
+/**
+ * Outbox relay configuration
+ */
+export interface OutboxRelayOptions {
+    /** Delay between polls when the outbox is drained (default: 1000ms) */
+    pollIntervalMs?: number;
+    /** Maximum messages fetched per poll (default: 50) */
+    batchSize?: number;
+    /** Delivery attempts before a message is dead-lettered (default: 10) */
+    maxAttempts?: number;
+    /** Delay before the first retry, doubled on each attempt (default: 1000ms) */
+    baseBackoffMs?: number;
+    /** Upper bound for the retry delay (default: 5 minutes) */
+    maxBackoffMs?: number;
+    /** Rehydrates stored messages (default: {@link rehydrateOutboxMessage}) */
+    deserialize?: OutboxEventDeserializer;
+}
+
+/**
+ * Raised by deserializers for messages that can never be delivered
+ * Such messages are dead-lettered without further retries.
+ */
+export class UndeliverableEventError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UndeliverableEventError';
+    }
+}
+
+/**
+ * Get the serialized event stored in an outbox message
+ */
+function toSerializedEvent(message: OutboxMessage): SerializedDomainEvent {
+    return {
+        payload: {},
+        ...message.payload,
+        eventId: message.eventId,
+        eventType: message.eventType,
+        aggregateId: message.aggregateId,
+        version: message.version,
+        occurredAt: message.occurredAt.toISOString(),
+    };
+}
+
+/**
+ * Rehydrate a message from its `BaseDomainEvent.toJSON()` payload
+ * Produces a plain event object carrying every serialized field.
+ */
+export function rehydrateOutboxMessage(message: OutboxMessage): AnyDomainEvent {
+    const data = toSerializedEvent(message);
+    return {
+        ...data,
+        payload: (data.payload ?? {}) as object,
+        occurredAt: message.occurredAt,
+    };
+}
+
+/**
+ * Create a deserializer restoring registered event classes, upcasting old versions
+ * Events without a registered deserializer are dead-lettered.
+ */
+export function createRegistryDeserializer(
+    registry: DomainEventRegistry
+): OutboxEventDeserializer {
+    return (message) => {
+        const result = registry.deserialize(toSerializedEvent(message));
+        if (isErr(result)) {
+            throw new UndeliverableEventError(result.error.message);
+        }
+        return result.value;
+    };
+}
+
+/**
+ * Polls the outbox and delivers pending events to the dispatcher
+ */
+export class OutboxRelay {
+    private readonly options: Required<OutboxRelayOptions>;
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private inFlight: Promise<number> | null = null;
+
+    constructor(
+        private readonly store: IOutboxStore,
+        private readonly dispatcher: IDomainEventDispatcher,
+        private readonly logger: ILogger,
+        options: OutboxRelayOptions = {}
+    ) {
+        this.options = {
+            pollIntervalMs: options.pollIntervalMs ?? 1000,
+            batchSize: options.batchSize ?? 50,
+            maxAttempts: options.maxAttempts ?? 10,
+            baseBackoffMs: options.baseBackoffMs ?? 1000,
+            maxBackoffMs: options.maxBackoffMs ?? 5 * 60 * 1000,
+            deserialize: options.deserialize ?? rehydrateOutboxMessage,
+        };
+    }
+
+    /**
+     * Start polling the outbox
+     */
+    start(): void {
+        if (this.running) {
+            this.logger.warn('Outbox relay is already running');
+            return;
+        }
+
+        this.running = true;
+        this.logger.info('Outbox relay started', {
+            pollIntervalMs: this.options.pollIntervalMs,
+            batchSize: this.options.batchSize,
+        });
+        this.schedule(0);
+    }
+
+    /**
+     * Stop polling and wait for the current batch to finish
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (this.inFlight) {
+            await this.inFlight.catch(() => undefined);
+        }
+
+        this.logger.info('Outbox relay stopped');
+    }
+
+    /**
+     * Deliver one batch of due messages
+     * @returns The number of messages fetched
+     */
+    async processBatch(now: Date = new Date()): Promise<number> {
+        const messages = await this.store.fetchPending(this.options.batchSize, now);
+
+        for (const message of messages) {
+            await this.deliver(message, now);
+        }
+
+        return messages.length;
+    }
+
+    /**
+     * Deliver a single message and record the outcome
+     */
+    private async deliver(message: OutboxMessage, now: Date): Promise<void> {
+        let event: AnyDomainEvent;
+
+        try {
+            event = this.options.deserialize(message);
+        } catch (error) {
+            await this.deadLetter(message, describeError(error));
+            return;
+        }
+
+        try {
+            // Dispatchers such as `InProcessEventDispatcher` with `rejectOnHandlerFailure`
+            // reject when a handler failed (after all of them ran); the retry then
+            // redelivers the event to every handler, so they must be idempotent
+            await this.dispatcher.dispatch(event);
+            await this.store.markProcessed(message.id);
+        } catch (error) {
+            const reason = describeError(error);
+            const attempts = message.attempts + 1;
+
+            if (error instanceof UndeliverableEventError || attempts >= this.options.maxAttempts) {
+                await this.deadLetter(message, reason);
+                return;
+            }
+
+            const delay = this.getBackoff(attempts);
+            this.logger.warn(`Delivery of ${message.eventType} failed, retrying`, {
+                eventId: message.eventId,
+                attempts,
+                retryInMs: delay,
+                error: reason,
+            });
+            await this.store.markFailed(message.id, reason, new Date(now.getTime() + delay));
+        }
+    }
+
+    /**
+     * Move a message to the dead-letter state
+     */
+    private async deadLetter(message: OutboxMessage, reason: string): Promise<void> {
+        this.logger.error(
+            `Dead-lettering ${message.eventType}`,
+            new Error(reason),
+            { eventId: message.eventId, attempts: message.attempts + 1 }
+        );
+        await this.store.markDeadLettered(message.id, reason);
+    }
+
+    /**
+     * Exponential backoff for the given attempt number
+     */
+    private getBackoff(attempts: number): number {
+        return Math.min(
+            this.options.baseBackoffMs * 2 ** (attempts - 1),
+            this.options.maxBackoffMs
+        );
+    }
+
+    /**
+     * Schedule the next poll
+     */
+    private schedule(delayMs: number): void {
+        if (!this.running) {
+            return;
+        }
+
+        this.timer = setTimeout(() => {
+            this.inFlight = this.processBatch();
+            this.inFlight
+                .then((fetched) => {
+                    // Keep draining while full batches come back
+                    this.schedule(fetched >= this.options.batchSize ? 0 : this.options.pollIntervalMs);
+                })
+                .catch((error: unknown) => {
+                    this.logger.error('Outbox relay poll failed', toError(error));
+                    this.schedule(this.options.pollIntervalMs);
+                })
+                .finally(() => {
+                    this.inFlight = null;
+                });
+        }, delayMs);
+    }
+}
+
+function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+function describeError(error: unknown): string {
+    return toError(error).message;
+}
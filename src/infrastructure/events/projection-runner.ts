@@ -0,0 +1,193 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PROJECTION RUNNER
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "A read model is just the past, folded into a useful shape."
+ *
+ * The runner reads the event store in order and feeds each event to the
+ * registered projections. Every projection keeps its own checkpoint, so a
+ * new projection replays the full history and a failing one only holds
+ * back itself.
+ */
+
+import type {
+    IEventStore,
+    IProjectionCheckpointStore,
+    StoredEvent,
+} from '../../application/ports/event-store.port.js';
+import type { ILogger } from '../../application/ports/logger.port.js';
+import type { AnyDomainEvent } from '../../domain/events/domain-event.js';
+import type { DomainEventRegistry } from '../../domain/events/event-registry.js';
+import { isErr } from '../../shared/utils/result.js';
+
+/**
+ * A read model fed from the event store
+ */
+export interface IProjection {
+    /** Unique name, used as the checkpoint key */
+    readonly name: string;
+    /** Event types to receive (default: all) */
+    readonly handles?: ReadonlyArray<string>;
+    /** Apply an event to the read model */
+    project(event: AnyDomainEvent, stored: StoredEvent): Promise<void>;
+}
+
+/**
+ * Projection runner configuration
+ */
+export interface ProjectionRunnerOptions {
+    /** Delay between polls when all projections are caught up (default: 1000ms) */
+    pollIntervalMs?: number;
+    /** Maximum events read per projection and poll (default: 100) */
+    batchSize?: number;
+}
+
+/**
+ * Feeds stored events to projections and tracks their checkpoints
+ */
+export class ProjectionRunner {
+    private readonly options: Required<ProjectionRunnerOptions>;
+    private readonly projections = new Map<string, IProjection>();
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private inFlight: Promise<number> | null = null;
+
+    constructor(
+        private readonly store: IEventStore,
+        private readonly checkpoints: IProjectionCheckpointStore,
+        private readonly registry: DomainEventRegistry,
+        private readonly logger: ILogger,
+        options: ProjectionRunnerOptions = {}
+    ) {
+        this.options = {
+            pollIntervalMs: options.pollIntervalMs ?? 1000,
+            batchSize: options.batchSize ?? 100,
+        };
+    }
+
+    /**
+     * Register a projection
+     */
+    register(projection: IProjection): this {
+        if (this.projections.has(projection.name)) {
+            throw new Error(`Projection "${projection.name}" is already registered`);
+        }
+
+        this.projections.set(projection.name, projection);
+        return this;
+    }
+
+    /**
+     * Whether any projection is registered
+     */
+    get hasProjections(): boolean {
+        return this.projections.size > 0;
+    }
+
+    /**
+     * Start polling the event store
+     */
+    start(): void {
+        if (this.running) {
+            this.logger.warn('Projection runner is already running');
+            return;
+        }
+
+        this.running = true;
+        this.logger.info('Projection runner started', {
+            projections: [...this.projections.keys()],
+        });
+        this.schedule(0);
+    }
+
+    /**
+     * Stop polling and wait for the current run to finish
+     */
+    async stop(): Promise<void> {
+        this.running = false;
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (this.inFlight) {
+            await this.inFlight.catch(() => undefined);
+        }
+
+        this.logger.info('Projection runner stopped');
+    }
+
+    /**
+     * Feed one batch of new events to every projection
+     * @returns The number of events projected
+     */
+    async runOnce(): Promise<number> {
+        let projected = 0;
+
+        for (const projection of this.projections.values()) {
+            try {
+                projected += await this.runProjection(projection);
+            } catch (error) {
+                // The checkpoint stays before the failing event, so it is retried
+                this.logger.error(
+                    `Projection ${projection.name} failed`,
+                    error instanceof Error ? error : new Error(String(error))
+                );
+            }
+        }
+
+        return projected;
+    }
+
+    /**
+     * Feed one batch of events to a projection, saving its checkpoint after each event
+     */
+    private async runProjection(projection: IProjection): Promise<number> {
+        const position = await this.checkpoints.get(projection.name);
+        const stored = await this.store.readAll(position, this.options.batchSize);
+
+        for (const entry of stored) {
+            if (!projection.handles || projection.handles.includes(entry.data.eventType)) {
+                const result = this.registry.deserialize(entry.data);
+                if (isErr(result)) {
+                    throw result.error;
+                }
+                await projection.project(result.value, entry);
+            }
+
+            await this.checkpoints.save(projection.name, entry.position);
+        }
+
+        return stored.length;
+    }
+
+    /**
+     * Schedule the next poll
+     */
+    private schedule(delayMs: number): void {
+        if (!this.running) {
+            return;
+        }
+
+        this.timer = setTimeout(() => {
+            this.inFlight = this.runOnce();
+            this.inFlight
+                .then((projected) => {
+                    // Keep catching up while events come back
+                    this.schedule(projected > 0 ? 0 : this.options.pollIntervalMs);
+                })
+                .catch((error: unknown) => {
+                    this.logger.error(
+                        'Projection runner poll failed',
+                        error instanceof Error ? error : new Error(String(error))
+                    );
+                    this.schedule(this.options.pollIntervalMs);
+                })
+                .finally(() => {
+                    this.inFlight = null;
+                });
+        }, delayMs);
+    }
+}
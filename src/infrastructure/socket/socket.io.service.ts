@@ -71,4 +71,18 @@ export class SocketIOService implements ISocketService {
     getConnectionCount(): number {
         return this.io?.engine.clientsCount ?? 0;
     }
+
+    async close(): Promise<void> {
+        if (!this.io) {
+            return;
+        }
+
+        const io = this.io;
+        this.io = null;
+        // Also closes the attached HTTP server, so no new connections are accepted
+        await new Promise<void>((resolve) => {
+            io.close(() => resolve());
+        });
+        this.logger.info('Socket.io closed');
+    }
 }
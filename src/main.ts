@@ -10,10 +10,11 @@
  */
 
 import { createLogger } from './infrastructure/logging/pino.logger.js';
-import { connectDatabase, disconnectDatabase } from './infrastructure/database/prisma/client.js';
 import { startServer } from './presentation/http/server.js';
-import { container, TOKENS } from './infrastructure/container/container.js';
-import { loggerFactory } from './infrastructure/logging/pino.logger.js';
+import { container } from './infrastructure/container/container.js';
+import { TOKENS } from './infrastructure/container/tokens.js';
+import { appModules } from './infrastructure/container/modules/index.js';
+import { env } from './infrastructure/config/env.config.js';
 
 const logger = createLogger('main');
 
@@ -23,15 +24,20 @@ const logger = createLogger('main');
 async function bootstrap(): Promise<void> {
     logger.info('🔧 Initializing application...');
 
-    // Register dependencies
-    container.registerInstance(TOKENS.LoggerFactory, loggerFactory);
-    container.registerSingleton(TOKENS.Logger, (c) =>
-        c.resolve(TOKENS.LoggerFactory).create('app')
-    );
+    // Register dependencies for the configured database
+    container.load(appModules, env);
+    logger.debug('Container modules loaded', { modules: container.modules });
 
-    // Connect to database
+    // Connect databases and start background workers
     logger.info('📦 Connecting to database...');
-    await connectDatabase();
+    await container.initialize();
+
+    // Fail fast on wiring mistakes before accepting traffic
+    await container.validate({
+        configureScope: (scope) =>
+            scope.registerInstance(TOKENS.RequestContext, { requestId: 'boot-validation' }),
+    });
+    logger.debug('Dependency graph', { graph: container.getDependencyGraph() });
 
     // Start HTTP server
     logger.info('🌐 Starting HTTP server...');
@@ -47,7 +53,8 @@ async function shutdown(signal: string): Promise<void> {
     logger.info(`Received ${signal}. Starting graceful shutdown...`);
 
     try {
-        await disconnectDatabase();
+        // Stops workers and adapters before the databases they depend on
+        await container.dispose();
         logger.info('Graceful shutdown completed');
         process.exit(0);
     } catch (error) {
@@ -9,7 +9,12 @@
 
 import type { Response } from 'express';
 import { isErr, type Result } from '../../../shared/utils/result.js';
-import type { PaginatedResponse } from '../../../application/dtos/pagination.dto.js';
+import type {
+    PaginatedResponse,
+    PaginationLinks,
+    PaginationMeta,
+} from '../../../application/dtos/pagination.dto.js';
+import { buildPaginationLinks, formatLinkHeader } from '../../mappers/pagination.mapper.js';
 
 /**
  * Standard success response
@@ -22,15 +27,20 @@ export interface SuccessResponse<T> {
 
 /**
  * Standard paginated response
+ * `pagination` carries `total`/`totalPages` when requested and `page` in offset mode.
  */
 export interface PaginatedSuccessResponse<T> extends SuccessResponse<T[]> {
-    pagination: {
-        nextCursor: string | null;
-        prevCursor: string | null;
-        hasNextPage: boolean;
-        hasPrevPage: boolean;
-        count: number;
-    };
+    pagination: PaginationMeta;
+    /** Absolute page URLs, when requested */
+    links?: PaginationLinks | undefined;
+}
+
+/**
+ * Options for paginated responses
+ */
+export interface PaginatedResponseOptions {
+    /** Also include the page links in the body (default: false) */
+    includeLinks?: boolean;
 }
 
 /**
@@ -69,12 +79,31 @@ export abstract class BaseController {
 
     /**
      * Send a paginated response
+     * Page links are built from the request URL and sent as an RFC 8288 `Link` header.
+     * The scheme is `req.protocol`, which honours `X-Forwarded-Proto` only when
+     * Express `trust proxy` is set; the host is the `Host` header.
      */
-    protected paginated<T>(res: Response, result: PaginatedResponse<T>): void {
+    protected paginated<T>(
+        res: Response,
+        result: PaginatedResponse<T>,
+        options: PaginatedResponseOptions = {}
+    ): void {
+        const { req } = res;
+        const links = buildPaginationLinks(
+            new URL(req.originalUrl, `${req.protocol}://${req.get('host') ?? 'localhost'}`),
+            result.pagination
+        );
+
+        const linkHeader = formatLinkHeader(links);
+        if (linkHeader) {
+            res.setHeader('Link', linkHeader);
+        }
+
         const response: PaginatedSuccessResponse<T> = {
             success: true,
             data: result.data,
             pagination: result.pagination,
+            ...(options.includeLinks && { links }),
         };
         res.status(200).json(response);
     }
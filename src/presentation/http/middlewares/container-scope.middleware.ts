@@ -0,0 +1,110 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CONTAINER SCOPE MIDDLEWARE
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Every request deserves a clean slate."
+ *
+ * This middleware creates a child container for each request, so scoped
+ * dependencies (current user, correlation-aware logger, transaction-bound
+ * repositories) live exactly as long as the request. The scope is disposed
+ * once the response has finished or the connection was closed.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+    container as rootContainer,
+    type Container,
+} from '../../../infrastructure/container/container.js';
+import { TOKENS } from '../../../infrastructure/container/tokens.js';
+import { createLogger } from '../../../infrastructure/logging/pino.logger.js';
+import type { RequestContext } from '../../../shared/types/index.js';
+
+declare module 'express-serve-static-core' {
+    interface Request {
+        /** Request-scoped container, set by `containerScope()` */
+        scope?: Container;
+    }
+}
+
+const logger = createLogger('container-scope');
+
+/**
+ * Container scope middleware options
+ */
+export interface ContainerScopeOptions {
+    /** Container to create scopes from (default: the global container) */
+    container?: Container;
+    /** Register additional per-request instances on the new scope */
+    configure?: (scope: Container, req: Request) => void;
+}
+
+/**
+ * The request ID sent by the client, or a new one
+ * A repeated header arrives as an array; its first value is used.
+ */
+function requestIdOf(req: Request): string {
+    const header = req.headers['x-request-id'];
+    const requestId = Array.isArray(header) ? header[0] : header;
+    return requestId || randomUUID();
+}
+
+/**
+ * Create a middleware attaching a disposable container scope to each request
+ *
+ * @example
+ * ```ts
+ * app.use(containerScope());
+ *
+ * router.get('/me', (req, res) => {
+ *   const logger = getRequestScope(req).resolve(TOKENS.RequestLogger);
+ * });
+ * ```
+ */
+export function containerScope(options: ContainerScopeOptions = {}): RequestHandler {
+    const root = options.container ?? rootContainer;
+
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const scope = root.createScope();
+        const context: RequestContext = {
+            requestId: requestIdOf(req),
+        };
+
+        scope.registerInstance(TOKENS.RequestContext, context);
+        options.configure?.(scope, req);
+        req.scope = scope;
+
+        let released = false;
+        const release = (): void => {
+            if (released) {
+                return;
+            }
+            released = true;
+
+            scope.dispose().catch((error: unknown) => {
+                logger.error(
+                    'Failed to dispose request scope',
+                    error instanceof Error ? error : new Error(String(error)),
+                    { requestId: context.requestId }
+                );
+            });
+        };
+
+        res.on('finish', release);
+        res.on('close', release);
+
+        next();
+    };
+}
+
+/**
+ * Get the container scope of a request
+ * @throws Error if the `containerScope()` middleware is not installed
+ */
+export function getRequestScope(req: Request): Container {
+    if (!req.scope) {
+        throw new Error('No container scope on request. Is containerScope() installed?');
+    }
+    return req.scope;
+}
@@ -12,7 +12,11 @@
 
 import type { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
 import { ZodError } from 'zod';
-import { DomainError, DomainErrorCode } from '../../../domain/errors/domain.error.js';
+import {
+    DomainError,
+    DomainErrorCode,
+    InvalidCursorError,
+} from '../../../domain/errors/domain.error.js';
 import {
     ApplicationError,
     ApplicationErrorCode,
@@ -128,6 +132,10 @@ function getClientDetails(error: Error): Record<string, unknown> | undefined {
         return error.details;
     }
 
+    if (error instanceof InvalidCursorError) {
+        return { field: error.metadata.field, reason: error.metadata.context?.['reason'] };
+    }
+
     if (error instanceof DomainError) {
         // Only include non-sensitive metadata
         const { entityType, field } = error.metadata;
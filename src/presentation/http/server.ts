@@ -14,6 +14,7 @@ import {
     errorHandlerMiddleware,
     notFoundHandler,
 } from './middlewares/error-handler.middleware.js';
+import { containerScope } from './middlewares/container-scope.middleware.js';
 
 const logger = createLogger('http-server');
 
@@ -33,6 +34,9 @@ export function createApp(): Application {
     // Parse URL-encoded bodies
     app.use(express.urlencoded({ extended: true }));
 
+    // Request-scoped dependencies (disposed when the response finishes)
+    app.use(containerScope());
+
     // Request logging
     app.use((req, _res, next) => {
         logger.info(`${req.method} ${req.path}`, {
@@ -92,7 +96,8 @@ export function createApp(): Application {
 }
 
 import { createServer } from 'http';
-import { container, TOKENS } from '../../infrastructure/container/container.js';
+import { container } from '../../infrastructure/container/container.js';
+import { TOKENS } from '../../infrastructure/container/tokens.js';
 import { SocketIOService } from '../../infrastructure/socket/socket.io.service.js';
 
 /**
@@ -6,8 +6,28 @@
  * "Mappers are the bridges between worlds—domain to presentation."
  */
 
-import type { CursorPaginatedResult } from '../../shared/utils/cursor-pagination.util.js';
-import type { PaginatedResponse, PaginationMeta } from '../../application/dtos/pagination.dto.js';
+import type {
+    CursorPaginatedResult,
+    CursorPaginationOptions,
+} from '../../shared/utils/cursor-pagination.util.js';
+import type {
+    PaginatedResponse,
+    PaginationLinks,
+    PaginationMeta,
+    PaginationRequest,
+} from '../../application/dtos/pagination.dto.js';
+
+/**
+ * Map validated pagination parameters to repository pagination options
+ */
+export function toPaginationOptions(request: PaginationRequest): CursorPaginationOptions {
+    return {
+        limit: request.limit,
+        ...(request.cursor !== undefined && { cursor: request.cursor }),
+        ...(request.page !== undefined && { page: request.page }),
+        ...(request.includeTotal !== undefined && { includeTotal: request.includeTotal }),
+    };
+}
 
 /**
  * Map a cursor-paginated result to a DTO response
@@ -30,7 +50,8 @@ export function createPaginationMeta(
     prevCursor: string | null,
     hasNextPage: boolean,
     hasPrevPage: boolean,
-    count: number
+    count: number,
+    totals: Pick<PaginationMeta, 'total' | 'totalPages' | 'page'> = {}
 ): PaginationMeta {
     return {
         nextCursor,
@@ -38,5 +59,57 @@ export function createPaginationMeta(
         hasNextPage,
         hasPrevPage,
         count,
+        ...totals,
     };
 }
+
+/**
+ * Build the page links from the current request URL
+ * Other query parameters (filters, limit, ...) are kept as they are.
+ */
+export function buildPaginationLinks(url: URL, pagination: PaginationMeta): PaginationLinks {
+    const withParams = (params: Record<string, string | null>): string => {
+        const link = new URL(url.href);
+        for (const [name, value] of Object.entries(params)) {
+            if (value === null) {
+                link.searchParams.delete(name);
+            } else {
+                link.searchParams.set(name, value);
+            }
+        }
+        return link.href;
+    };
+
+    if (pagination.page !== undefined) {
+        const { page, totalPages } = pagination;
+        return {
+            self: url.href,
+            first: withParams({ page: '1', cursor: null }),
+            next: pagination.hasNextPage ? withParams({ page: String(page + 1) }) : null,
+            prev: pagination.hasPrevPage ? withParams({ page: String(page - 1) }) : null,
+            last: totalPages !== undefined
+                ? withParams({ page: String(Math.max(totalPages, 1)) })
+                : null,
+        };
+    }
+
+    return {
+        self: url.href,
+        first: withParams({ cursor: null }),
+        next: pagination.nextCursor ? withParams({ cursor: pagination.nextCursor }) : null,
+        prev: pagination.prevCursor ? withParams({ cursor: pagination.prevCursor }) : null,
+        last: null,
+    };
+}
+
+/**
+ * Format page links as an RFC 8288 `Link` header value
+ */
+export function formatLinkHeader(links: PaginationLinks): string {
+    return (['first', 'prev', 'next', 'last'] as const)
+        .flatMap((rel) => {
+            const href = links[rel];
+            return href ? [`<${href}>; rel="${rel}"`] : [];
+        })
+        .join(', ');
+}
@@ -74,3 +74,12 @@ export interface Timestamps {
 export interface SoftDelete {
     readonly deletedAt: Date | null;
 }
+
+/**
+ * Per-request information available to request-scoped dependencies
+ */
+export interface RequestContext {
+    readonly requestId: string;
+    /** Authenticated user, set by the auth middleware */
+    userId?: string;
+}
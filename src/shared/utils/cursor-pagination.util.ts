@@ -7,14 +7,30 @@
  *
  * This utility provides a generic, type-safe implementation of cursor-based
  * pagination that works with any entity and any cursor strategy.
+ *
+ * Cursors are `Cursor` value objects, encoded as base64url JSON. With a
+ * signing secret they carry an HMAC signature (`<payload>.<signature>`) and
+ * optionally an expiry, so clients cannot forge positions. A query
+ * fingerprint ties a cursor to the query it was issued for.
  */
 
+import { createHash } from 'node:crypto';
 import { z } from 'zod';
+import {
+    Cursor,
+    type CursorDirection,
+    type CursorSigningOptions,
+    type CursorSortPosition,
+    type CursorSortValue,
+} from '../../domain/value-objects/cursor.vo.js';
 
-/**
- * Cursor direction for bidirectional navigation
- */
-export type CursorDirection = 'forward' | 'backward';
+export type {
+    CursorDirection,
+    CursorSigningOptions,
+    CursorSortPosition,
+    CursorSortValue,
+    CursorTokenOptions,
+} from '../../domain/value-objects/cursor.vo.js';
 
 /**
  * Decoded cursor containing pagination state
@@ -24,6 +40,8 @@ export interface DecodedCursor<T> {
     value: T;
     /** Direction of pagination */
     direction: CursorDirection;
+    /** Sort position, for cursors on an order other than the cursor key */
+    sort?: CursorSortPosition;
 }
 
 /**
@@ -44,6 +62,12 @@ export interface CursorPaginatedResult<T> {
         hasPrevPage: boolean;
         /** Number of items in current page */
         count: number;
+        /** Number of items matching the query, when requested with `includeTotal` */
+        total?: number;
+        /** Number of pages of `limit` items, when the total is known */
+        totalPages?: number;
+        /** Current 1-based page number, in offset mode */
+        page?: number;
     };
 }
 
@@ -57,6 +81,41 @@ export interface CursorPaginationOptions {
     cursor?: string;
     /** Direction when no cursor is provided */
     defaultDirection?: CursorDirection;
+    /** Also count every item matching the query (runs an extra count) */
+    includeTotal?: boolean;
+    /**
+     * 1-based page number, to page by offset instead of cursors (`cursor` is ignored)
+     * Offsets get slower the deeper the page; meant for small tables.
+     */
+    page?: number;
+}
+
+/**
+ * Fingerprint the shape of a query (filters, ordering, ...)
+ * Key order does not matter; dates are compared by value.
+ */
+export function queryFingerprint(query: unknown): string {
+    const canonical = JSON.stringify(query, (_key, value: unknown) =>
+        typeof value === 'object' && value !== null && !Array.isArray(value)
+            ? Object.fromEntries(
+                Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+            )
+            : value
+    );
+    return createHash('sha256').update(canonical ?? '').digest('base64url').slice(0, 16);
+}
+
+/**
+ * The query a page of results belongs to
+ */
+export interface CursorQuery<TEntity> {
+    /**
+     * Field the query was ordered by, if not the cursor key;
+     * cursors then hold its value with the cursor key as tie-breaker
+     */
+    sortField?: keyof TEntity & string;
+    /** Fingerprint of the query, so cursors cannot be replayed on another one */
+    fingerprint?: string;
 }
 
 /**
@@ -81,6 +140,7 @@ export class CursorPaginator<TCursor, TEntity> {
     private readonly cursorKey: keyof TEntity;
     private readonly serializeCursor: (value: TCursor) => string;
     private readonly deserializeCursor: (value: string) => TCursor;
+    private readonly signing: CursorSigningOptions | undefined;
 
     constructor(options: {
         /** The property of the entity to use as the cursor (e.g., 'id', 'createdAt') */
@@ -89,39 +149,88 @@ export class CursorPaginator<TCursor, TEntity> {
         serialize?: (value: TCursor) => string;
         /** Function to deserialize a string back to the cursor value */
         deserialize?: (value: string) => TCursor;
+        /** Sign issued cursors and reject forged ones */
+        signing?: CursorSigningOptions | undefined;
     }) {
         this.cursorKey = options.cursorKey;
         this.serializeCursor = options.serialize ?? String;
         this.deserializeCursor =
             options.deserialize ?? ((v: string) => v as unknown as TCursor);
+        this.signing = options.signing;
+    }
+
+    /**
+     * Create the cursor for a value and direction
+     * @param sort - Sort position, when paginating on another field than the cursor key
+     */
+    toCursor(value: TCursor, direction: CursorDirection, sort?: CursorSortPosition): Cursor {
+        const serialized = this.serializeCursor(value);
+        return direction === 'forward'
+            ? Cursor.forward(serialized, sort)
+            : Cursor.backward(serialized, sort);
+    }
+
+    /**
+     * Create the cursor pointing at an item
+     * @param query - Sort field of the query, if not the cursor key
+     */
+    cursorAt(
+        item: TEntity,
+        direction: CursorDirection,
+        { sortField }: CursorQuery<TEntity> = {}
+    ): Cursor {
+        const value = item[this.cursorKey] as TCursor;
+        const sort = sortField === undefined || sortField === this.cursorKey
+            ? undefined
+            : { field: sortField, value: (item[sortField] ?? null) as CursorSortValue };
+        return this.toCursor(value, direction, sort);
+    }
+
+    /**
+     * Encode a cursor for API responses, signed when configured
+     * @param fingerprint - Fingerprint of the query, checked again by `parse`
+     */
+    stringify(cursor: Cursor, fingerprint?: string): string {
+        return cursor.encode({ signing: this.signing, fingerprint });
+    }
+
+    /**
+     * Parse and validate an encoded cursor
+     * @param fingerprint - Fingerprint of the current query; must match the cursor's
+     * @throws InvalidCursorError if the cursor is malformed, tampered with,
+     * expired or was issued for another query
+     */
+    parse(encoded: string, fingerprint?: string): Cursor {
+        return Cursor.decode(encoded, { signing: this.signing, fingerprint });
     }
 
     /**
      * Encode a cursor value and direction into a Base64 string
+     * @param sort - Sort position, when paginating on another field than the cursor key
+     * @param fingerprint - Fingerprint of the query, checked again by `decode`
      */
-    encode(value: TCursor, direction: CursorDirection): string {
-        const payload = JSON.stringify({
-            v: this.serializeCursor(value),
-            d: direction,
-        });
-        return Buffer.from(payload).toString('base64url');
+    encode(
+        value: TCursor,
+        direction: CursorDirection,
+        sort?: CursorSortPosition,
+        fingerprint?: string
+    ): string {
+        return this.stringify(this.toCursor(value, direction, sort), fingerprint);
     }
 
     /**
-     * Decode a Base64 cursor string into its value and direction
+     * Decode a Base64 cursor string into its typed value and direction
+     * @param fingerprint - Fingerprint of the current query; must match the cursor's
+     * @throws InvalidCursorError if the cursor is malformed, tampered with,
+     * expired or was issued for another query
      */
-    decode(cursor: string): DecodedCursor<TCursor> | null {
-        try {
-            const payload = Buffer.from(cursor, 'base64url').toString('utf-8');
-            const parsed = JSON.parse(payload) as { v: string; d: CursorDirection };
-
-            return {
-                value: this.deserializeCursor(parsed.v),
-                direction: parsed.d,
-            };
-        } catch {
-            return null;
-        }
+    decode(encoded: string, fingerprint?: string): DecodedCursor<TCursor> {
+        const cursor = this.parse(encoded, fingerprint);
+        return {
+            value: this.deserializeCursor(cursor.value),
+            direction: cursor.direction,
+            ...(cursor.sort && { sort: cursor.sort }),
+        };
     }
 
     /**
@@ -129,15 +238,17 @@ export class CursorPaginator<TCursor, TEntity> {
      *
      * @param entities - The entities fetched from the database (should include 1 extra to detect hasMore)
      * @param options - The pagination options used for the query
+     * @param query - Sort field and fingerprint of the query (see `CursorQuery`)
      * @returns A properly formatted paginated result with bidirectional cursors
      */
     buildResult(
         entities: TEntity[],
-        options: CursorPaginationOptions
+        options: CursorPaginationOptions,
+        query: CursorQuery<TEntity> = {}
     ): CursorPaginatedResult<TEntity> {
         const { limit, cursor } = options;
         const direction: CursorDirection =
-            (cursor ? this.decode(cursor)?.direction : null) ??
+            (cursor ? this.parse(cursor, query.fingerprint).direction : null) ??
             options.defaultDirection ??
             'forward';
 
@@ -165,16 +276,10 @@ export class CursorPaginator<TCursor, TEntity> {
                 hasPrevPage = cursor !== undefined; // Has prev if we came from somewhere
 
                 if (hasNextPage && lastItem) {
-                    nextCursor = this.encode(
-                        lastItem[this.cursorKey] as TCursor,
-                        'forward'
-                    );
+                    nextCursor = this.encodeAt(lastItem, 'forward', query);
                 }
                 if (hasPrevPage && firstItem) {
-                    prevCursor = this.encode(
-                        firstItem[this.cursorKey] as TCursor,
-                        'backward'
-                    );
+                    prevCursor = this.encodeAt(firstItem, 'backward', query);
                 }
             } else {
                 // Moving backward: next goes forward, prev goes backward
@@ -182,16 +287,10 @@ export class CursorPaginator<TCursor, TEntity> {
                 hasPrevPage = hasMore;
 
                 if (hasNextPage && lastItem) {
-                    nextCursor = this.encode(
-                        lastItem[this.cursorKey] as TCursor,
-                        'forward'
-                    );
+                    nextCursor = this.encodeAt(lastItem, 'forward', query);
                 }
                 if (hasPrevPage && firstItem) {
-                    prevCursor = this.encode(
-                        firstItem[this.cursorKey] as TCursor,
-                        'backward'
-                    );
+                    prevCursor = this.encodeAt(firstItem, 'backward', query);
                 }
             }
         }
@@ -208,6 +307,45 @@ export class CursorPaginator<TCursor, TEntity> {
         };
     }
 
+    /**
+     * Build a paginated result for a page fetched by offset
+     *
+     * @param entities - The entities of the page (should include 1 extra to detect hasMore)
+     * @param options - The pagination options used for the query, with `page` set
+     * @returns A result without cursors, carrying the page number
+     */
+    buildOffsetResult(
+        entities: TEntity[],
+        options: CursorPaginationOptions & { page: number }
+    ): CursorPaginatedResult<TEntity> {
+        const { limit, page } = options;
+        const hasMore = entities.length > limit;
+        const data = hasMore ? entities.slice(0, limit) : entities;
+
+        return {
+            data,
+            pagination: {
+                nextCursor: null,
+                prevCursor: null,
+                hasNextPage: hasMore,
+                hasPrevPage: page > 1,
+                count: data.length,
+                page,
+            },
+        };
+    }
+
+    /**
+     * Encode the cursor pointing at an item
+     */
+    private encodeAt(
+        item: TEntity,
+        direction: CursorDirection,
+        query: CursorQuery<TEntity>
+    ): string {
+        return this.stringify(this.cursorAt(item, direction, query), query.fingerprint);
+    }
+
     /**
      * Get the cursor key for use in database queries
      */
@@ -216,17 +354,35 @@ export class CursorPaginator<TCursor, TEntity> {
     }
 }
 
+/**
+ * Add the total item and page counts to a paginated result
+ */
+export function withTotal<T>(
+    result: CursorPaginatedResult<T>,
+    total: number,
+    limit: number
+): CursorPaginatedResult<T> {
+    return {
+        data: result.data,
+        pagination: {
+            ...result.pagination,
+            total,
+            totalPages: Math.ceil(total / limit),
+        },
+    };
+}
+
 /**
  * Factory function to create a string-ID based paginator (most common case)
  */
-export function createIdPaginator<TEntity extends { id: string }>(): CursorPaginator<
-    string,
-    TEntity
-> {
+export function createIdPaginator<TEntity extends { id: string }>(
+    signing?: CursorSigningOptions
+): CursorPaginator<string, TEntity> {
     return new CursorPaginator<string, TEntity>({
         cursorKey: 'id',
         serialize: (v) => v,
         deserialize: (v) => v,
+        signing,
     });
 }
 
@@ -234,11 +390,13 @@ export function createIdPaginator<TEntity extends { id: string }>(): CursorPagin
  * Factory function to create a date-based paginator
  */
 export function createDatePaginator<TEntity>(
-    cursorKey: keyof TEntity
+    cursorKey: keyof TEntity,
+    signing?: CursorSigningOptions
 ): CursorPaginator<Date, TEntity> {
     return new CursorPaginator<Date, TEntity>({
         cursorKey,
         serialize: (v) => v.toISOString(),
         deserialize: (v) => new Date(v),
+        signing,
     });
 }
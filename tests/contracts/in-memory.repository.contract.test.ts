@@ -0,0 +1,42 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY REPOSITORY CONTRACT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import {
+    InMemoryBaseRepository,
+    type InMemoryRecord,
+} from '../../src/infrastructure/database/repositories/in-memory-base.repository';
+import { describeRepositoryContract } from './repository.contract';
+
+interface TaskProps extends EntityProps {
+    title: string;
+}
+
+class Task extends AggregateRoot<TaskProps> {
+    get title(): string {
+        return this.props.title;
+    }
+
+    toObject(): TaskProps {
+        return { ...this.props };
+    }
+}
+
+class InMemoryTaskRepository extends InMemoryBaseRepository<Task, TaskProps> {
+    protected readonly entityName = 'Task';
+
+    protected toDomain(record: InMemoryRecord<TaskProps>): Task {
+        return new Task(record);
+    }
+}
+
+describeRepositoryContract<Task, TaskProps>('InMemoryBaseRepository', {
+    setup: () => new InMemoryTaskRepository({ publishDomainEvents: false }),
+    build: (index, { createdAt }) =>
+        new Task({ id: `task-${String(index).padStart(4, '0')}`, title: `Task ${index}`, createdAt }),
+    modify: (task) => new Task({ ...task.toObject(), title: `${task.title} (edited)` }),
+    whereOf: (task) => ({ title: task.title }),
+});
@@ -0,0 +1,111 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * MONGODB REPOSITORY CONTRACT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs against an in-memory MongoDB server, whose mongod binary is downloaded
+ * on first use. Where the server cannot start (e.g. offline), the suite is
+ * skipped and the reason is logged.
+ */
+
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { MongoClient, type Document } from 'mongodb';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import { MongoBaseRepository } from '../../src/infrastructure/database/repositories/mongo-base.repository';
+import type { AnyDomainEvent } from '../../src/domain/events/domain-event';
+import { unwrap } from '../../src/shared/utils/result';
+import { describeRepositoryContract } from './repository.contract';
+
+interface TaskProps extends EntityProps {
+    title: string;
+}
+
+class Task extends AggregateRoot<TaskProps> {
+    get title(): string {
+        return this.props.title;
+    }
+
+    toObject(): TaskProps {
+        return { ...this.props };
+    }
+}
+
+class MongoTaskRepository extends MongoBaseRepository<Task, TaskProps> {
+    protected readonly collectionName = 'tasks';
+    protected readonly entityName = 'Task';
+
+    protected toDomain(id: string, data: Document): Task {
+        return new Task({ ...(data as TaskProps), id });
+    }
+
+    protected toPersistence(task: Task): Document {
+        return task.toObject();
+    }
+}
+
+/**
+ * Start the in-memory server, or explain why it cannot start
+ */
+async function startServer(): Promise<MongoMemoryServer | null> {
+    try {
+        return await MongoMemoryServer.create();
+    } catch (error) {
+        console.warn(
+            `Skipping the MongoDB contract tests: the in-memory server did not start (${
+                error instanceof Error ? error.message : String(error)
+            })`
+        );
+        return null;
+    }
+}
+
+const server = await startServer();
+const client = server ? await new MongoClient(server.getUri()).connect() : null;
+
+afterAll(async () => {
+    await client?.close();
+    await server?.stop();
+});
+
+describe.skipIf(!client)('MongoDB', () => {
+    describeRepositoryContract<Task, TaskProps>('MongoBaseRepository', {
+        setup: () =>
+            new MongoTaskRepository({ db: client!.db('contract'), publishDomainEvents: false }),
+        teardown: async () => {
+            await client!.db('contract').dropDatabase();
+        },
+        build: (index, { createdAt }) => new Task({
+            id: `task-${String(index).padStart(4, '0')}`,
+            title: `Task ${index}`,
+            createdAt,
+        }),
+        modify: (task) => new Task({ ...task.toObject(), title: `${task.title} (edited)` }),
+        whereOf: (task) => ({ title: task.title }),
+    });
+
+    describe('restore', () => {
+        afterEach(async () => {
+            await client!.db('contract').dropDatabase();
+        });
+
+        it('should not publish events when the entity is not deleted', async () => {
+            const dispatched: AnyDomainEvent[] = [];
+            const repository = new MongoTaskRepository({
+                db: client!.db('contract'),
+                eventDispatcher: {
+                    dispatch: async (event) => { dispatched.push(event); },
+                    dispatchMany: async (events) => { dispatched.push(...events); },
+                },
+            });
+            unwrap(await repository.create(new Task({ id: 'task-1', title: 'Task' })));
+            const task = unwrap(await repository.findById('task-1'));
+            task.softDelete();
+
+            unwrap(await repository.restore(task));
+
+            expect(dispatched).toEqual([]);
+            expect(task.domainEvents).toHaveLength(1);
+        });
+    });
+});
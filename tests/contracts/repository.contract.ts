@@ -0,0 +1,598 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * REPOSITORY CONTRACT
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * "Every adapter speaks the same language, or the port is a lie."
+ *
+ * The behaviours every `IRepository` adapter must share. Run the suite once
+ * per adapter with a harness that builds repositories and entities:
+ *
+ * ```ts
+ * describeRepositoryContract('InMemoryUserRepository', {
+ *   setup: () => new InMemoryUserRepository(),
+ *   build: (index, { createdAt }) => User.create({ id: `user-${index}`, createdAt }),
+ *   modify: (user) => user.rename('Renamed'),
+ *   whereOf: (user) => ({ email: user.email }),
+ * });
+ * ```
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Entity, EntityProps } from '../../src/domain/entities/base.entity';
+import type { IRepository } from '../../src/domain/repositories/base.repository';
+import type { Filter } from '../../src/domain/repositories/filter';
+import { specification } from '../../src/domain/specifications/specification';
+import {
+    ConcurrencyConflictError,
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+    InvalidCursorError,
+    UnsupportedFilterError,
+} from '../../src/domain/errors/domain.error';
+import { isErr, unwrap } from '../../src/shared/utils/result';
+
+/**
+ * Adapter-specific hooks for the contract suite
+ */
+export interface RepositoryContractHarness<
+    TEntity extends Entity<TProps>,
+    TProps extends EntityProps
+> {
+    /** Create an empty repository (called before each test) */
+    setup(): IRepository<TEntity, TProps> | Promise<IRepository<TEntity, TProps>>;
+    /** Release resources and stored data (called after each test) */
+    teardown?(): void | Promise<void>;
+    /** Build an unsaved entity; `index` must make its ID and filterable data unique */
+    build(index: number, overrides: { createdAt: Date }): TEntity;
+    /** Return the entity with a changed field that `whereOf` filters on */
+    modify(entity: TEntity): TEntity;
+    /** An equality filter matching only this entity */
+    whereOf(entity: TEntity): Partial<TProps>;
+    /** Negated disjunctions fail with `UnsupportedFilterError` (Firestore allows one `!=`) */
+    rejectsNegatedDisjunctions?: boolean;
+}
+
+/**
+ * Register the repository contract tests for an adapter
+ */
+export function describeRepositoryContract<
+    TEntity extends Entity<TProps>,
+    TProps extends EntityProps
+>(name: string, harness: RepositoryContractHarness<TEntity, TProps>): void {
+    describe(`${name} (repository contract)`, () => {
+        let repository: IRepository<TEntity, TProps>;
+        let index = 0;
+
+        /** Build entities created one day apart, oldest first */
+        const buildMany = (count: number): TEntity[] =>
+            Array.from({ length: count }, (_, offset) =>
+                harness.build(++index, {
+                    createdAt: new Date(Date.UTC(2024, 0, 1 + offset)),
+                })
+            );
+
+        const seed = async (count: number): Promise<TEntity[]> => {
+            const entities = buildMany(count);
+            for (const entity of entities) {
+                unwrap(await repository.create(entity));
+            }
+            return entities;
+        };
+
+        const ids = (entities: ReadonlyArray<TEntity>): string[] => entities.map((e) => e.id);
+
+        beforeEach(async () => {
+            repository = await harness.setup();
+        });
+
+        afterEach(async () => {
+            await harness.teardown?.();
+        });
+
+        describe('create and find', () => {
+            it('should return the stored entity from create', async () => {
+                const [entity] = buildMany(1) as [TEntity];
+
+                const created = unwrap(await repository.create(entity));
+
+                expect(created).not.toBe(entity);
+                expect(created.id).toBe(entity.id);
+                expect(created.createdAt.getTime()).toBe(entity.createdAt.getTime());
+            });
+
+            it('should find a created entity by ID', async () => {
+                const [entity] = await seed(1) as [TEntity];
+
+                const found = unwrap(await repository.findById(entity.id));
+
+                expect(found.id).toBe(entity.id);
+                expect(await repository.exists(entity.id)).toBe(true);
+            });
+
+            it('should reject creating an entity twice', async () => {
+                const [entity] = await seed(1) as [TEntity];
+
+                const result = await repository.create(entity);
+
+                expect(isErr(result) && result.error).toBeInstanceOf(EntityAlreadyExistsError);
+            });
+
+            it('should return not found for unknown IDs', async () => {
+                const result = await repository.findById('missing-id');
+
+                expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+                expect(await repository.exists('missing-id')).toBe(false);
+            });
+        });
+
+        describe('update and delete', () => {
+            it('should persist updates', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                const modified = harness.modify(entity);
+
+                const updated = unwrap(await repository.update(modified));
+
+                expect(updated.id).toBe(entity.id);
+                expect(ids(await repository.findMany({ where: harness.whereOf(modified) })))
+                    .toEqual([entity.id]);
+            });
+
+            it('should return not found when updating an unknown entity', async () => {
+                const [entity] = buildMany(1) as [TEntity];
+
+                const result = await repository.update(entity);
+
+                expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+                expect(await repository.exists(entity.id)).toBe(false);
+            });
+
+            it('should increment the version on every write', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                expect(entity.version).toBe(1);
+
+                const updated = unwrap(await repository.update(harness.modify(entity)));
+
+                expect(updated.version).toBe(2);
+                expect(unwrap(await repository.findById(entity.id)).version).toBe(2);
+            });
+
+            it('should reject updates to a stale version', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                const first = unwrap(await repository.findById(entity.id));
+                const second = unwrap(await repository.findById(entity.id));
+
+                unwrap(await repository.update(harness.modify(first)));
+                const result = await repository.update(harness.modify(second));
+
+                expect(isErr(result) && result.error).toBeInstanceOf(ConcurrencyConflictError);
+                expect(unwrap(await repository.findById(entity.id)).version).toBe(2);
+            });
+
+            it('should delete by ID or entity', async () => {
+                const [first, second] = await seed(2) as [TEntity, TEntity];
+
+                expect(isErr(await repository.delete(first.id))).toBe(false);
+                expect(isErr(await repository.delete(second))).toBe(false);
+
+                expect(await repository.exists(first.id)).toBe(false);
+                expect(await repository.exists(second.id)).toBe(false);
+                const again = await repository.delete(first.id);
+                expect(isErr(again) && again.error).toBeInstanceOf(EntityNotFoundError);
+            });
+        });
+
+        describe('bulk operations', () => {
+            it('should create many entities and report existing IDs', async () => {
+                const [existing] = await seed(1) as [TEntity];
+                const [first, second] = buildMany(2) as [TEntity, TEntity];
+
+                const report = await repository.createMany([first, existing, second]);
+
+                expect(report).toMatchObject({ succeeded: 2, failed: 1 });
+                expect(report.results.map((result) => result.ok)).toEqual([true, false, true]);
+                const [, failure] = report.results;
+                expect(failure && isErr(failure) && failure.error)
+                    .toBeInstanceOf(EntityAlreadyExistsError);
+                expect(await repository.count()).toBe(3);
+                expect(first.version).toBe(1);
+            });
+
+            it('should update many entities and report missing or stale ones', async () => {
+                const [first, second] = await seed(2) as [TEntity, TEntity];
+                const stale = unwrap(await repository.findById(second.id));
+                unwrap(await repository.update(harness.modify(second)));
+                const [missing] = buildMany(1) as [TEntity];
+
+                const report = await repository.updateMany([
+                    harness.modify(first),
+                    harness.modify(stale),
+                    missing,
+                ]);
+
+                expect(report).toMatchObject({ succeeded: 1, failed: 2 });
+                const [updated, conflict, notFound] = report.results;
+                expect(updated && unwrap(updated).version).toBe(2);
+                expect(conflict && isErr(conflict) && conflict.error)
+                    .toBeInstanceOf(ConcurrencyConflictError);
+                expect(notFound && isErr(notFound) && notFound.error)
+                    .toBeInstanceOf(EntityNotFoundError);
+            });
+
+            it('should upsert new and existing entities', async () => {
+                const [entity] = buildMany(1) as [TEntity];
+
+                const created = unwrap(await repository.upsert(entity));
+                const updated = unwrap(await repository.upsert(harness.modify(created)));
+
+                expect(created.version).toBe(1);
+                expect(updated.version).toBe(2);
+                expect(ids(await repository.findMany({ where: harness.whereOf(updated) })))
+                    .toEqual([entity.id]);
+            });
+
+            it('should reject upserts of a stale entity', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                const stale = unwrap(await repository.findById(entity.id));
+                unwrap(await repository.update(harness.modify(entity)));
+
+                const result = await repository.upsert(harness.modify(stale));
+
+                expect(isErr(result) && result.error).toBeInstanceOf(ConcurrencyConflictError);
+                expect(unwrap(await repository.findById(entity.id)).version).toBe(2);
+            });
+
+            it('should delete and soft delete entities satisfying a specification', async () => {
+                const [first, second, third] = await seed(3) as [TEntity, TEntity, TEntity];
+                const matching = (entity: TEntity) => specification<TProps>(harness.whereOf(entity));
+
+                expect(await repository.deleteMany(matching(first))).toBe(1);
+                expect(ids(await repository.findMany()).sort())
+                    .toEqual([second.id, third.id].sort());
+
+                if (!repository.softDeleteMany) {
+                    return;
+                }
+                expect(await repository.softDeleteMany(matching(second))).toBe(1);
+                expect(ids(await repository.findMany())).toEqual([third.id]);
+                expect(await repository.count({ includeSoftDeleted: true })).toBe(2);
+            });
+        });
+
+        describe('soft delete', () => {
+            it('should hide soft-deleted entities unless included', async () => {
+                const [kept, removed] = await seed(2) as [TEntity, TEntity];
+                if (!repository.softDelete) {
+                    return;
+                }
+
+                unwrap(await repository.softDelete(removed.id));
+
+                expect(ids(await repository.findMany())).toEqual([kept.id]);
+                expect(ids(await repository.findMany({ includeSoftDeleted: true })).sort())
+                    .toEqual([kept.id, removed.id].sort());
+                expect(await repository.count()).toBe(1);
+                expect(await repository.count({ includeSoftDeleted: true })).toBe(2);
+                expect(ids((await repository.findManyPaginated({ limit: 10 })).data))
+                    .toEqual([kept.id]);
+            });
+
+            it('should hide soft-deleted entities from lookups by ID unless included', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                if (!repository.softDelete) {
+                    return;
+                }
+
+                unwrap(await repository.softDelete(entity.id));
+
+                const hidden = await repository.findById(entity.id);
+                expect(isErr(hidden) && hidden.error).toBeInstanceOf(EntityNotFoundError);
+                expect(await repository.exists(entity.id)).toBe(false);
+                const included = unwrap(
+                    await repository.findById(entity.id, { includeSoftDeleted: true })
+                );
+                expect(included.deletedAt).toBeInstanceOf(Date);
+                expect(await repository.exists(entity.id, { includeSoftDeleted: true })).toBe(true);
+                const again = await repository.softDelete(entity.id);
+                expect(isErr(again) && again.error).toBeInstanceOf(EntityNotFoundError);
+            });
+
+            it('should restore soft-deleted entities', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                if (!repository.softDelete || !repository.restore) {
+                    return;
+                }
+
+                unwrap(await repository.softDelete(entity.id));
+                unwrap(await repository.restore(entity.id));
+
+                const restored = unwrap(await repository.findById(entity.id));
+                expect(restored.deletedAt).toBeNull();
+                expect(restored.version).toBe(3);
+                const missing = await repository.restore('missing-id');
+                expect(isErr(missing) && missing.error).toBeInstanceOf(EntityNotFoundError);
+            });
+
+            it('should reject soft deleting or restoring a stale entity', async () => {
+                const [entity] = await seed(1) as [TEntity];
+                if (!repository.softDelete || !repository.restore) {
+                    return;
+                }
+                const stale = unwrap(await repository.findById(entity.id));
+                unwrap(await repository.update(harness.modify(entity)));
+
+                const deleted = await repository.softDelete(stale);
+                const restored = await repository.restore(stale);
+
+                expect(isErr(deleted) && deleted.error).toBeInstanceOf(ConcurrencyConflictError);
+                expect(isErr(restored) && restored.error).toBeInstanceOf(ConcurrencyConflictError);
+                expect(await repository.exists(entity.id)).toBe(true);
+            });
+
+            it('should purge entities soft deleted before a date', async () => {
+                const [kept, removed] = await seed(2) as [TEntity, TEntity];
+                if (!repository.softDelete || !repository.purgeSoftDeleted) {
+                    return;
+                }
+
+                unwrap(await repository.softDelete(removed.id));
+
+                expect(await repository.purgeSoftDeleted(new Date(Date.now() - 60_000))).toBe(0);
+                expect(await repository.purgeSoftDeleted(new Date(Date.now() + 60_000))).toBe(1);
+                expect(await repository.exists(removed.id, { includeSoftDeleted: true }))
+                    .toBe(false);
+                expect(await repository.exists(kept.id)).toBe(true);
+            });
+
+            it('should return not found when soft deleting an unknown entity', async () => {
+                if (!repository.softDelete) {
+                    return;
+                }
+
+                const result = await repository.softDelete('missing-id');
+
+                expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+            });
+        });
+
+        describe('queries', () => {
+            it('should count entities matching a filter', async () => {
+                const [first] = await seed(3) as [TEntity];
+
+                expect(await repository.count()).toBe(3);
+                expect(await repository.count({ where: harness.whereOf(first) })).toBe(1);
+            });
+
+            it('should order by creation date, newest first by default', async () => {
+                const entities = await seed(3);
+
+                expect(ids(await repository.findMany())).toEqual(ids(entities).reverse());
+                expect(
+                    ids(await repository.findMany({
+                        orderBy: { field: 'createdAt', direction: 'asc' },
+                    }))
+                ).toEqual(ids(entities));
+            });
+
+            it('should filter with equality criteria', async () => {
+                const [, second] = await seed(3) as [TEntity, TEntity];
+
+                expect(ids(await repository.findMany({ where: harness.whereOf(second) })))
+                    .toEqual([second.id]);
+            });
+
+            it('should filter with operators and groups', async () => {
+                const [first, second, third] = await seed(3) as [TEntity, TEntity, TEntity];
+                const where = (filter: Filter<EntityProps>): Filter<TProps> =>
+                    filter as Filter<TProps>;
+
+                expect(ids(await repository.findMany({
+                    where: where({ createdAt: { gte: second.createdAt } }),
+                    orderBy: { field: 'createdAt', direction: 'asc' },
+                }))).toEqual([second.id, third.id]);
+                expect(await repository.count({
+                    where: where({ id: { in: [first.id, third.id] } }),
+                })).toBe(2);
+                expect(ids(await repository.findMany({
+                    where: where({ or: [{ id: first.id }, { createdAt: { gt: second.createdAt } }] }),
+                    orderBy: { field: 'createdAt', direction: 'asc' },
+                }))).toEqual([first.id, third.id]);
+            });
+        });
+
+        describe('null semantics', () => {
+            it('should never match a missing value, negated or not', async () => {
+                const [, removed] = await seed(2) as [TEntity, TEntity];
+                if (!repository.softDelete) {
+                    return;
+                }
+                unwrap(await repository.softDelete(removed.id));
+                const future = new Date(Date.now() + 60_000);
+                const where = (filter: Filter<EntityProps>): Filter<TProps> =>
+                    filter as Filter<TProps>;
+
+                // Like SQL, `deletedAt` null neither is nor is not after a date
+                expect(ids(await repository.findMany({
+                    where: where({ not: { deletedAt: { gt: future } } }),
+                    includeSoftDeleted: true,
+                }))).toEqual([removed.id]);
+                expect(await repository.count({
+                    where: where({ not: { deletedAt: { lt: future } } }),
+                    includeSoftDeleted: true,
+                })).toBe(0);
+            });
+
+            it('should combine filters on deletedAt with the soft-delete exclusion', async () => {
+                const [, removed] = await seed(2) as [TEntity, TEntity];
+                if (!repository.softDelete) {
+                    return;
+                }
+                unwrap(await repository.softDelete(removed.id));
+
+                expect(await repository.count({
+                    where: { deletedAt: { lt: new Date(Date.now() + 60_000) } } as Filter<TProps>,
+                })).toBe(0);
+            });
+        });
+
+        describe('specifications', () => {
+            it('should find and count entities satisfying a specification', async () => {
+                const [first, second] = await seed(3) as [TEntity, TEntity];
+                const spec = specification<TProps>(harness.whereOf(first))
+                    .or(specification<TProps>(harness.whereOf(second)));
+
+                expect(ids(await repository.findBySpec(spec, {
+                    orderBy: { field: 'createdAt', direction: 'asc' },
+                }))).toEqual([first.id, second.id]);
+                expect(await repository.countBySpec(spec)).toBe(2);
+                if (harness.rejectsNegatedDisjunctions) {
+                    await expect(repository.countBySpec(spec.not()))
+                        .rejects.toBeInstanceOf(UnsupportedFilterError);
+                } else {
+                    expect(await repository.countBySpec(spec.not())).toBe(1);
+                }
+            });
+        });
+
+        describe('pagination', () => {
+            it('should walk every page forward and back without gaps or duplicates', async () => {
+                const expected = ids(await seed(5)).sort();
+
+                const forward: string[][] = [];
+                let page = await repository.findManyPaginated({ limit: 2 });
+                forward.push(ids(page.data));
+                while (page.pagination.nextCursor) {
+                    page = await repository.findManyPaginated({
+                        limit: 2,
+                        cursor: page.pagination.nextCursor,
+                    });
+                    forward.push(ids(page.data));
+                }
+
+                expect(forward.flat()).toEqual(expected);
+                expect(page.pagination.hasNextPage).toBe(false);
+
+                const backward: string[][] = [];
+                while (page.pagination.prevCursor) {
+                    page = await repository.findManyPaginated({
+                        limit: 2,
+                        cursor: page.pagination.prevCursor,
+                    });
+                    backward.unshift(ids(page.data));
+                }
+
+                expect(backward).toEqual(forward.slice(0, -1));
+            });
+
+            it('should page through a custom order with ties broken by ID', async () => {
+                const sameDay = new Date(Date.UTC(2024, 5, 1));
+                const tied = Array.from({ length: 3 }, () => harness.build(++index, { createdAt: sameDay }));
+                for (const entity of tied) {
+                    unwrap(await repository.create(entity));
+                }
+                const entities = [...await seed(3), ...tied];
+                const expected = ids(
+                    [...entities].sort((a, b) =>
+                        b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : -1)
+                    )
+                );
+                const orderBy = { field: 'createdAt', direction: 'desc' } as const;
+
+                const forward: string[] = [];
+                let page = await repository.findManyPaginated({ limit: 2 }, { orderBy });
+                forward.push(...ids(page.data));
+                while (page.pagination.nextCursor) {
+                    page = await repository.findManyPaginated(
+                        { limit: 2, cursor: page.pagination.nextCursor },
+                        { orderBy }
+                    );
+                    forward.push(...ids(page.data));
+                }
+
+                expect(forward).toEqual(expected);
+
+                page = await repository.findManyPaginated(
+                    { limit: 2, cursor: page.pagination.prevCursor! },
+                    { orderBy }
+                );
+                expect(ids(page.data)).toEqual(expected.slice(2, 4));
+            });
+
+            it('should page by offset and count the total on request', async () => {
+                const expected = ids(await seed(5)).sort();
+
+                const second = await repository.findManyPaginated({
+                    limit: 2,
+                    page: 2,
+                    includeTotal: true,
+                });
+                const last = await repository.findManyPaginated({ limit: 2, page: 3 });
+
+                expect(ids(second.data)).toEqual(expected.slice(2, 4));
+                expect(second.pagination).toMatchObject({
+                    hasNextPage: true,
+                    hasPrevPage: true,
+                    page: 2,
+                    total: 5,
+                    totalPages: 3,
+                });
+                expect(ids(last.data)).toEqual(expected.slice(4));
+                expect(last.pagination.hasNextPage).toBe(false);
+            });
+
+            it('should count the total with the same filters in cursor mode', async () => {
+                const [first, second] = await seed(3) as [TEntity, TEntity];
+                const where = { id: { in: [first.id, second.id] } } as Filter<TProps>;
+
+                const page = await repository.findManyPaginated(
+                    { limit: 1, includeTotal: true },
+                    { where }
+                );
+
+                expect(page.pagination).toMatchObject({ count: 1, total: 2, totalPages: 2 });
+            });
+
+            it('should reject cursors issued for another query', async () => {
+                await seed(3);
+                const page = await repository.findManyPaginated({ limit: 1 });
+
+                await expect(repository.findManyPaginated(
+                    { limit: 1, cursor: page.pagination.nextCursor! },
+                    { orderBy: { field: 'createdAt', direction: 'desc' } }
+                )).rejects.toThrow(InvalidCursorError);
+            });
+
+            it('should keep accepting cursors when only the filter values change', async () => {
+                const [first, second, third] = await seed(3) as [TEntity, TEntity, TEntity];
+                const page = await repository.findManyPaginated(
+                    { limit: 1 },
+                    { where: { id: { in: [first.id, second.id, third.id] } } as Filter<TProps> }
+                );
+                const cursor = page.pagination.nextCursor!;
+
+                const next = await repository.findManyPaginated(
+                    { limit: 1, cursor },
+                    { where: { id: { in: [second.id, third.id] } } as Filter<TProps> }
+                );
+
+                expect(ids(next.data)).toEqual([second.id]);
+                await expect(repository.findManyPaginated(
+                    { limit: 1, cursor },
+                    { where: { id: { notIn: [first.id] } } as Filter<TProps> }
+                )).rejects.toThrow(InvalidCursorError);
+            });
+
+            it('should return an empty page for an empty repository', async () => {
+                const page = await repository.findManyPaginated({ limit: 10 });
+
+                expect(page.data).toEqual([]);
+                expect(page.pagination).toMatchObject({
+                    nextCursor: null,
+                    prevCursor: null,
+                    hasNextPage: false,
+                    count: 0,
+                });
+            });
+        });
+    });
+}
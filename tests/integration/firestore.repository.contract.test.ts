@@ -0,0 +1,153 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * FIRESTORE REPOSITORY CONTRACT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs against the Firestore emulator. Start it and set its address first:
+ *
+ *   firebase emulators:start --only firestore
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run test:integration
+ */
+
+import { afterAll, afterEach, describe, expect, it } from 'vitest';
+import { Firestore, Timestamp, type DocumentData } from 'firebase-admin/firestore';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import { EntityAlreadyExistsError } from '../../src/domain/errors/domain.error';
+import { FirestoreUnitOfWork } from '../../src/infrastructure/database/firebase/firestore-unit-of-work';
+import {
+    FirestoreBaseRepository,
+    type FirestoreRepositoryOptions,
+} from '../../src/infrastructure/database/repositories/firestore-base.repository';
+import { isErr, unwrap } from '../../src/shared/utils/result';
+import { describeRepositoryContract } from '../contracts/repository.contract';
+
+interface TaskProps extends EntityProps {
+    title: string;
+}
+
+class Task extends AggregateRoot<TaskProps> {
+    get title(): string {
+        return this.props.title;
+    }
+
+    toObject(): TaskProps {
+        return { ...this.props };
+    }
+}
+
+/**
+ * Read stored timestamps back as dates
+ */
+function toDate(value: unknown): unknown {
+    return value instanceof Timestamp ? value.toDate() : value;
+}
+
+class FirestoreTaskRepository extends FirestoreBaseRepository<Task, TaskProps> {
+    protected readonly collectionName = 'tasks';
+    protected readonly entityName = 'Task';
+
+    protected toDomain(id: string, data: DocumentData): Task {
+        return new Task({
+            ...(data as TaskProps),
+            id,
+            createdAt: toDate(data['createdAt']) as Date,
+            updatedAt: toDate(data['updatedAt']) as Date,
+            deletedAt: toDate(data['deletedAt']) as Date | null,
+        });
+    }
+
+    protected toPersistence(task: Task): DocumentData {
+        return task.toObject();
+    }
+}
+
+const emulator = process.env['FIRESTORE_EMULATOR_HOST'];
+const db = emulator ? new Firestore({ projectId: 'contract-tests' }) : null;
+
+afterAll(async () => {
+    await db?.terminate();
+});
+
+describe.skipIf(!db)('Firestore emulator', () => {
+    describeRepositoryContract<Task, TaskProps>('FirestoreBaseRepository', {
+        setup: () => new FirestoreTaskRepository({ db: db!, publishDomainEvents: false }),
+        teardown: async () => {
+            await db!.recursiveDelete(db!.collection('tasks'));
+        },
+        build: (index, { createdAt }) => new Task({
+            id: `task-${String(index).padStart(4, '0')}`,
+            title: `Task ${index}`,
+            createdAt,
+        }),
+        modify: (task) => new Task({ ...task.toObject(), title: `${task.title} (edited)` }),
+        whereOf: (task) => ({ title: task.title }),
+        rejectsNegatedDisjunctions: true,
+    });
+
+    describe('backfillSoftDeleteField', () => {
+        afterEach(async () => {
+            await db!.recursiveDelete(db!.collection('tasks'));
+        });
+
+        it('should make documents stored without deletedAt visible to queries', async () => {
+            const repository = new FirestoreTaskRepository({ db: db!, publishDomainEvents: false });
+            await db!.collection('tasks').doc('legacy').set({
+                title: 'Legacy',
+                createdAt: new Date(),
+                version: 1,
+            });
+            expect(await repository.count()).toBe(0);
+
+            expect(await repository.backfillSoftDeleteField()).toBe(1);
+
+            expect(await repository.count()).toBe(1);
+            expect(await repository.backfillSoftDeleteField()).toBe(0);
+        });
+    });
+
+    describe('FirestoreUnitOfWork', () => {
+        const unitOfWork = () => new FirestoreUnitOfWork(
+            {
+                tasks: (options: FirestoreRepositoryOptions) =>
+                    new FirestoreTaskRepository({ ...options, db: db!, publishDomainEvents: false }),
+            },
+            db!
+        );
+        const task = (id: string, title: string) => new Task({ id, title });
+
+        afterEach(async () => {
+            await db!.recursiveDelete(db!.collection('tasks'));
+        });
+
+        it('should allow reads after writes and commit every write', async () => {
+            const repository = new FirestoreTaskRepository({ db: db!, publishDomainEvents: false });
+            unwrap(await repository.create(task('a', 'A')));
+
+            const result = await unitOfWork().execute(async ({ tasks }) => {
+                unwrap(await tasks.create(task('b', 'B')));
+                const a = unwrap(await tasks.findById('a'));
+                unwrap(await tasks.update(new Task({ ...a.toObject(), title: 'A2' })));
+                const b = unwrap(await tasks.findById('b'));
+                return tasks.update(new Task({ ...b.toObject(), title: 'B2' }));
+            });
+
+            expect(isErr(result)).toBe(false);
+            expect(unwrap(await repository.findById('a')).title).toBe('A2');
+            const b = unwrap(await repository.findById('b'));
+            expect([b.title, b.version]).toEqual(['B2', 2]);
+        });
+
+        it('should return an error for a document that already exists', async () => {
+            const repository = new FirestoreTaskRepository({ db: db!, publishDomainEvents: false });
+            unwrap(await repository.create(task('a', 'A')));
+
+            const result = await unitOfWork().execute(async ({ tasks }) => {
+                unwrap(await tasks.create(task('b', 'B')));
+                return tasks.create(task('a', 'Again'));
+            });
+
+            expect(isErr(result) && result.error).toBeInstanceOf(EntityAlreadyExistsError);
+            expect(await repository.exists('b')).toBe(false);
+        });
+    });
+});
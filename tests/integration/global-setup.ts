@@ -0,0 +1,41 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * INTEGRATION TEST GLOBAL SETUP
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Generates the SQLite Prisma client of the integration tests and creates the
+ * tables in the throwaway database of `vitest.integration.config.ts`. The
+ * client has its own output (the `integration` generator of the SQLite schema),
+ * so the client generated for the configured `DB_TYPE` is left alone.
+ * Afterwards the database file is deleted.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { rmSync } from 'node:fs';
+import type { GlobalSetupContext } from 'vitest/node';
+
+const PRISMA_CLI = 'src/infrastructure/database/prisma/prisma-cli.ts';
+
+/**
+ * Run the Prisma CLI wrapper, which picks the schema for `DB_TYPE`
+ */
+function prisma(args: string[], env: Record<string, string> = {}): void {
+    execFileSync('npx', ['tsx', PRISMA_CLI, ...args], {
+        env: { ...process.env, ...env },
+        stdio: 'inherit',
+        shell: process.platform === 'win32',
+    });
+}
+
+export default function setup({ config }: GlobalSetupContext): () => void {
+    const databaseUrl = config.env['DATABASE_URL']!;
+
+    prisma(['generate', '--generator', 'integration'], { DB_TYPE: 'sqlite' });
+    prisma(['db', 'push', '--skip-generate'], { DB_TYPE: 'sqlite', DATABASE_URL: databaseUrl });
+
+    return () => {
+        const databaseFile = databaseUrl.replace(/^file:/, '');
+        rmSync(databaseFile, { force: true });
+        rmSync(`${databaseFile}-journal`, { force: true });
+    };
+}
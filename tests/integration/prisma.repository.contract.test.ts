@@ -0,0 +1,71 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA REPOSITORY CONTRACT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs against the throwaway SQLite database (`npm run test:integration`).
+ */
+
+import type { User } from '@prisma/client';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import { PrismaBaseRepository } from '../../src/infrastructure/database/repositories/prisma-base.repository';
+import type { PrismaTransactionClient } from '../../src/infrastructure/database/prisma/client';
+import { describeRepositoryContract } from '../contracts/repository.contract';
+import { setupIntegrationTest } from './setup';
+
+interface MemberProps extends EntityProps {
+    email: string;
+    name: string;
+}
+
+class Member extends AggregateRoot<MemberProps> {
+    get email(): string {
+        return this.props.email;
+    }
+
+    toObject(): MemberProps {
+        return { ...this.props };
+    }
+}
+
+class PrismaMemberRepository extends PrismaBaseRepository<Member, MemberProps, User> {
+    protected readonly entityName = 'Member';
+
+    protected getModel(db: PrismaTransactionClient) {
+        return db.user;
+    }
+
+    protected toDomain(record: User): Member {
+        return new Member(record);
+    }
+
+    protected toPersistence(member: Member): User {
+        const { id, email, name, createdAt, updatedAt, deletedAt, version } = member.toObject();
+        return {
+            id,
+            email,
+            name,
+            createdAt: createdAt!,
+            updatedAt: updatedAt!,
+            deletedAt: deletedAt ?? null,
+            version: version!,
+        };
+    }
+}
+
+const context = setupIntegrationTest();
+
+describeRepositoryContract<Member, MemberProps>('PrismaBaseRepository (SQLite)', {
+    setup: () => new PrismaMemberRepository({
+        prisma: context.prisma,
+        publishDomainEvents: false,
+    }),
+    build: (index, { createdAt }) => new Member({
+        id: `member-${String(index).padStart(4, '0')}`,
+        email: `member${index}@example.com`,
+        name: `Member ${index}`,
+        createdAt,
+    }),
+    modify: (member) => new Member({ ...member.toObject(), email: `edited-${member.email}` }),
+    whereOf: (member) => ({ email: member.email }),
+});
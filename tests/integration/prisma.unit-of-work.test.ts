@@ -0,0 +1,95 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PRISMA UNIT OF WORK INTEGRATION TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ *
+ * Runs against the throwaway SQLite database (`npm run test:integration`).
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { User } from '@prisma/client';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import { EntityCreatedEvent } from '../../src/domain/events/domain-event';
+import { EntityNotFoundError } from '../../src/domain/errors/domain.error';
+import {
+    PrismaBaseRepository,
+    type PrismaRepositoryOptions,
+} from '../../src/infrastructure/database/repositories/prisma-base.repository';
+import { PrismaUnitOfWork } from '../../src/infrastructure/database/prisma/prisma-unit-of-work';
+import type { PrismaTransactionClient } from '../../src/infrastructure/database/prisma/client';
+import { isErr, ok, unwrap } from '../../src/shared/utils/result';
+import { setupIntegrationTest } from './setup';
+
+interface MemberProps extends EntityProps {
+    email: string;
+    name: string;
+}
+
+class Member extends AggregateRoot<MemberProps> {
+    static join(id: string, email: string): Member {
+        const member = new Member({ id, email, name: email });
+        member.addDomainEvent(new EntityCreatedEvent(id, 'Member', { email }));
+        return member;
+    }
+
+    toObject(): MemberProps {
+        return { ...this.props };
+    }
+}
+
+class PrismaMemberRepository extends PrismaBaseRepository<Member, MemberProps, User> {
+    protected readonly entityName = 'Member';
+
+    protected getModel(db: PrismaTransactionClient) {
+        return db.user;
+    }
+
+    protected toDomain(record: User): Member {
+        return new Member(record);
+    }
+
+    protected toPersistence(member: Member): User {
+        const { id, email, name, createdAt, updatedAt, deletedAt, version } = member.toObject();
+        return {
+            id,
+            email,
+            name,
+            createdAt: createdAt!,
+            updatedAt: updatedAt!,
+            deletedAt: deletedAt ?? null,
+            version: version!,
+        };
+    }
+}
+
+describe('PrismaUnitOfWork (SQLite)', () => {
+    const context = setupIntegrationTest();
+    const unitOfWork = (): PrismaUnitOfWork<{ members: PrismaMemberRepository }> =>
+        new PrismaUnitOfWork({
+            members: (options: PrismaRepositoryOptions) =>
+                new PrismaMemberRepository({ ...options, useOutbox: true }),
+        }, context.prisma);
+
+    it('should commit the writes with their outbox events', async () => {
+        const result = await unitOfWork().execute(async ({ members }) => {
+            unwrap(await members.create(Member.join('m1', 'one@example.com')));
+            unwrap(await members.create(Member.join('m2', 'two@example.com')));
+            return ok(undefined);
+        });
+
+        expect(isErr(result)).toBe(false);
+        expect(await context.prisma.user.count()).toBe(2);
+        expect(await context.prisma.outboxEvent.count()).toBe(2);
+    });
+
+    it('should roll back the writes and their outbox events on an error result', async () => {
+        const result = await unitOfWork().execute(async ({ members }) => {
+            unwrap(await members.create(Member.join('m1', 'one@example.com')));
+            return members.findById('missing');
+        });
+
+        expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+        expect(await context.prisma.user.count()).toBe(0);
+        expect(await context.prisma.outboxEvent.count()).toBe(0);
+    });
+});
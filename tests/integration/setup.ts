@@ -5,54 +5,93 @@
  *
  * This file provides utilities for integration testing, including
  * database setup/teardown and HTTP client helpers.
+ *
+ * The database is a throwaway SQLite file, so no outside services are
+ * needed. `npm run test:integration` points `DATABASE_URL` at it and its
+ * global setup generates the SQLite client and creates the tables.
  */
 
 import { beforeAll, afterAll, beforeEach } from 'vitest';
 import type { Express } from 'express';
+// Generated from the SQLite schema by the global setup
+import { PrismaClient } from '../../node_modules/.prisma-integration/client';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // DATABASE TEST UTILITIES
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Database handle of an integration test suite
+ */
+export interface IntegrationTestContext {
+    /** Client of the test database (available from `beforeAll`) */
+    readonly prisma: PrismaClient;
+}
+
 /**
  * Setup for integration tests that need a database
  *
+ * Connects to the test database and empties its tables before each test.
+ *
  * Usage:
  * ```ts
  * import { setupIntegrationTest } from '../setup';
  *
  * describe('User API', () => {
- *   setupIntegrationTest();
+ *   const context = setupIntegrationTest();
  *
  *   it('should create a user', async () => {
- *     // test code
+ *     const users = new PrismaUserRepository();
+ *     // test code, checking the stored rows with context.prisma
  *   });
  * });
  * ```
  */
-export function setupIntegrationTest() {
-    // Note: In a real implementation, you would:
-    // 1. Use a test database (e.g., Docker container or in-memory SQLite)
-    // 2. Run migrations before tests
-    // 3. Clear data between tests
-    // 4. Disconnect after all tests
+export function setupIntegrationTest(): IntegrationTestContext {
+    let client: PrismaClient | null = null;
 
     beforeAll(async () => {
-        // Connect to test database
-        // await connectTestDatabase();
-        console.log('Setting up integration test environment...');
+        if (process.env['DB_TYPE'] !== 'sqlite' || !process.env['DATABASE_URL']) {
+            throw new Error('Integration tests need the test database: npm run test:integration');
+        }
+        client = new PrismaClient();
+        await client.$connect();
     });
 
     afterAll(async () => {
-        // Disconnect from test database
-        // await disconnectTestDatabase();
-        console.log('Tearing down integration test environment...');
+        await client?.$disconnect();
+        client = null;
     });
 
     beforeEach(async () => {
-        // Clear all tables before each test
-        // await clearDatabase();
+        if (client) {
+            await clearDatabase(client);
+        }
     });
+
+    return {
+        get prisma(): PrismaClient {
+            if (!client) {
+                throw new Error('The test database is only available from beforeAll');
+            }
+            return client;
+        },
+    };
+}
+
+/**
+ * Delete the rows of every table
+ */
+async function clearDatabase(prisma: PrismaClient): Promise<void> {
+    const tables = await prisma.$queryRawUnsafe<Array<{ name: string }>>(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+    );
+
+    // Foreign keys are checked at commit, once every table is empty
+    await prisma.$transaction([
+        prisma.$executeRawUnsafe('PRAGMA defer_foreign_keys = ON'),
+        ...tables.map(({ name }) => prisma.$executeRawUnsafe(`DELETE FROM "${name}"`)),
+    ]);
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,149 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * BASE CONTROLLER UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import type { AddressInfo } from 'net';
+import { request, type IncomingHttpHeaders, type Server } from 'http';
+import { describe, it, expect, afterEach } from 'vitest';
+import express, { type Request, type Response } from 'express';
+import {
+    BaseController,
+    type PaginatedResponseOptions,
+} from '../../src/presentation/http/controllers/base.controller';
+import type { PaginatedResponse } from '../../src/application/dtos/pagination.dto';
+import { createPaginationMeta } from '../../src/presentation/mappers/pagination.mapper';
+
+class PostsController extends BaseController {
+    constructor(
+        private readonly result: PaginatedResponse<{ id: string }>,
+        private readonly options?: PaginatedResponseOptions
+    ) {
+        super();
+    }
+
+    list = (_req: Request, res: Response): void => {
+        this.paginated(res, this.result, this.options);
+    };
+}
+
+let server: Server | undefined;
+
+afterEach(async () => {
+    if (server) {
+        await new Promise((resolve) => server!.close(resolve));
+        server = undefined;
+    }
+});
+
+/**
+ * Serve the controller on a free port and request a page from it
+ */
+async function get(
+    controller: PostsController,
+    path: string,
+    headers: Record<string, string> = {},
+    trustProxy = false
+): Promise<{ headers: IncomingHttpHeaders; body: Record<string, unknown> }> {
+    const app = express();
+    app.set('trust proxy', trustProxy);
+    app.get('/posts', controller.list);
+    server = app.listen(0);
+    await new Promise((resolve) => server!.once('listening', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    // fetch() does not let a test set the Host header
+    return new Promise((resolve, reject) => {
+        request({ port, path, headers }, (response) => {
+            let body = '';
+            response.setEncoding('utf8');
+            response.on('data', (chunk: string) => { body += chunk; });
+            response.on('end', () => resolve({ headers: response.headers, body: JSON.parse(body) }));
+        }).on('error', reject).end();
+    });
+}
+
+describe('BaseController.paginated', () => {
+    it('should send the total and page metadata in the body', async () => {
+        const pagination = createPaginationMeta(null, null, true, true, 1, {
+            total: 5,
+            totalPages: 3,
+            page: 2,
+        });
+
+        const { body } = await get(
+            new PostsController({ data: [{ id: 'p3' }], pagination }),
+            '/posts?page=2&limit=2&includeTotal=true'
+        );
+
+        expect(body).toEqual({
+            success: true,
+            data: [{ id: 'p3' }],
+            pagination: {
+                nextCursor: null,
+                prevCursor: null,
+                hasNextPage: true,
+                hasPrevPage: true,
+                count: 1,
+                total: 5,
+                totalPages: 3,
+                page: 2,
+            },
+        });
+    });
+
+    it('should send cursor page links in the Link header only by default', async () => {
+        const pagination = createPaginationMeta('next', 'prev', true, true, 1);
+
+        const { headers, body } = await get(
+            new PostsController({ data: [{ id: 'p2' }], pagination }),
+            '/posts?status=draft&cursor=current',
+            { Host: 'api.example.com' }
+        );
+
+        const base = 'http://api.example.com/posts?status=draft';
+        expect(headers.link).toBe([
+            `<${base}>; rel="first"`,
+            `<${base}&cursor=prev>; rel="prev"`,
+            `<${base}&cursor=next>; rel="next"`,
+        ].join(', '));
+        expect(body).not.toHaveProperty('links');
+    });
+
+    it('should include the page links in the body when asked to', async () => {
+        const pagination = createPaginationMeta(null, null, true, false, 2, {
+            total: 6,
+            totalPages: 3,
+            page: 1,
+        });
+
+        const { headers, body } = await get(
+            new PostsController({ data: [{ id: 'p1' }, { id: 'p2' }], pagination }, { includeLinks: true }),
+            '/posts?page=1&limit=2',
+            { Host: 'api.example.com' }
+        );
+
+        expect(body['links']).toEqual({
+            self: 'http://api.example.com/posts?page=1&limit=2',
+            first: 'http://api.example.com/posts?page=1&limit=2',
+            next: 'http://api.example.com/posts?page=2&limit=2',
+            prev: null,
+            last: 'http://api.example.com/posts?page=3&limit=2',
+        });
+        expect(headers.link).toContain('<http://api.example.com/posts?page=3&limit=2>; rel="last"');
+    });
+
+    it('should follow X-Forwarded-Proto only when trust proxy is set', async () => {
+        const pagination = createPaginationMeta('next', null, true, false, 1);
+        const controller = new PostsController({ data: [{ id: 'p1' }], pagination }, { includeLinks: true });
+        const forwarded = { Host: 'api.example.com', 'X-Forwarded-Proto': 'https' };
+
+        const direct = await get(controller, '/posts', forwarded);
+        await new Promise((resolve) => server!.close(resolve));
+        const proxied = await get(controller, '/posts', forwarded, true);
+
+        expect(direct.body['links']).toMatchObject({ self: 'http://api.example.com/posts' });
+        expect(proxied.body['links']).toMatchObject({ self: 'https://api.example.com/posts' });
+    });
+});
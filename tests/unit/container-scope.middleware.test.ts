@@ -0,0 +1,127 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CONTAINER SCOPE MIDDLEWARE UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { EventEmitter } from 'events';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import { Container, createToken } from '../../src/infrastructure/container/container';
+import { TOKENS } from '../../src/infrastructure/container/tokens';
+import {
+    containerScope,
+    getRequestScope,
+} from '../../src/presentation/http/middlewares/container-scope.middleware';
+
+// The pino logger reads the validated environment on import
+vi.mock('../../src/infrastructure/logging/pino.logger', () => ({
+    createLogger: () => ({ error: vi.fn() }),
+}));
+
+class Session {
+    disposals = 0;
+
+    dispose(): void {
+        this.disposals++;
+    }
+}
+
+function request(headers: Record<string, string | string[]> = {}): Request {
+    return { headers } as unknown as Request;
+}
+
+function response(): Response & EventEmitter {
+    return new EventEmitter() as Response & EventEmitter;
+}
+
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('containerScope', () => {
+    const SESSION = createToken<Session>('Session');
+
+    let container: Container;
+
+    beforeEach(() => {
+        container = new Container();
+        container.registerScoped(SESSION, () => new Session());
+    });
+
+    it('should attach a scope with the request context and call next', () => {
+        const req = request({ 'x-request-id': 'req-1' });
+        const next = vi.fn();
+
+        containerScope({ container })(req, response(), next);
+
+        const scope = getRequestScope(req);
+        expect(scope.isScope).toBe(true);
+        expect(scope.resolve(TOKENS.RequestContext)).toEqual({ requestId: 'req-1' });
+        expect(next).toHaveBeenCalledOnce();
+    });
+
+    it('should use the first of repeated request ID headers', () => {
+        const req = request({ 'x-request-id': ['req-1', 'req-2'] });
+
+        containerScope({ container })(req, response(), vi.fn());
+
+        expect(getRequestScope(req).resolve(TOKENS.RequestContext).requestId).toBe('req-1');
+    });
+
+    it('should generate a request ID when the client sends none', () => {
+        const first = request();
+        const second = request();
+        const middleware = containerScope({ container });
+
+        middleware(first, response(), vi.fn());
+        middleware(second, response(), vi.fn());
+
+        const firstId = getRequestScope(first).resolve(TOKENS.RequestContext).requestId;
+        const secondId = getRequestScope(second).resolve(TOKENS.RequestContext).requestId;
+        expect(firstId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(firstId).not.toBe(secondId);
+    });
+
+    it('should let configure register per-request instances', () => {
+        const USER = createToken<string>('User');
+        const req = request();
+
+        containerScope({
+            container,
+            configure: (scope) => scope.registerInstance(USER, 'ada'),
+        })(req, response(), vi.fn());
+
+        expect(getRequestScope(req).resolve(USER)).toBe('ada');
+    });
+
+    it('should dispose the scoped instances once on finish and close', async () => {
+        const req = request();
+        const res = response();
+        containerScope({ container })(req, res, vi.fn());
+        const session = getRequestScope(req).resolve(SESSION);
+
+        res.emit('finish');
+        res.emit('close');
+        await flush();
+
+        expect(session.disposals).toBe(1);
+        expect(() => getRequestScope(req).resolve(SESSION)).toThrow(/disposed/);
+    });
+
+    it('should dispose the scope when the connection closes early', async () => {
+        const req = request();
+        const res = response();
+        containerScope({ container })(req, res, vi.fn());
+        const session = getRequestScope(req).resolve(SESSION);
+
+        res.emit('close');
+        await flush();
+
+        expect(session.disposals).toBe(1);
+    });
+});
+
+describe('getRequestScope', () => {
+    it('should throw when the middleware is not installed', () => {
+        expect(() => getRequestScope(request())).toThrow(/containerScope\(\) installed/);
+    });
+});
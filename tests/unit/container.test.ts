@@ -0,0 +1,450 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * CONTAINER UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Container, createToken } from '../../src/infrastructure/container/container';
+import {
+    AmbiguousRegistrationError,
+    CircularDependencyError,
+    ContainerValidationError,
+    DuplicateRegistrationError,
+    MissingRegistrationError,
+} from '../../src/infrastructure/container/container.errors';
+import { defineModule, whenEnv } from '../../src/infrastructure/container/container-module';
+
+class Connection {
+    disposed = false;
+
+    constructor(readonly id: number) { }
+
+    dispose(): void {
+        this.disposed = true;
+    }
+}
+
+describe('Container', () => {
+    const CONFIG = createToken<{ name: string }>('Config');
+    const CONNECTION = createToken<Connection>('Connection');
+    const COUNTER = createToken<number>('Counter');
+
+    let container: Container;
+    let created: number;
+
+    beforeEach(() => {
+        container = new Container();
+        created = 0;
+        container.registerSingleton(CONFIG, () => ({ name: 'app' }));
+        container.registerScoped(CONNECTION, () => new Connection(++created));
+        container.registerTransient(COUNTER, () => ++created);
+    });
+
+    describe('scopes', () => {
+        it('should share scoped instances within a scope only', () => {
+            const first = container.createScope();
+            const second = container.createScope();
+
+            expect(first.resolve(CONNECTION)).toBe(first.resolve(CONNECTION));
+            expect(first.resolve(CONNECTION)).not.toBe(second.resolve(CONNECTION));
+        });
+
+        it('should share singletons between the root and its scopes', () => {
+            const scope = container.createScope();
+
+            expect(scope.resolve(CONFIG)).toBe(container.resolve(CONFIG));
+        });
+
+        it('should reject scoped dependencies resolved from the root', () => {
+            expect(() => container.resolve(CONNECTION)).toThrow(/outside of a scope/);
+        });
+
+        it('should keep scope registrations local to the scope', () => {
+            const USER = createToken<string>('User');
+            const scope = container.createScope().registerInstance(USER, 'ada');
+
+            expect(scope.resolve(USER)).toBe('ada');
+            expect(container.isRegistered(USER)).toBe(false);
+        });
+
+        it('should not let singletons capture scoped dependencies', () => {
+            const HOLDER = createToken<Connection>('Holder');
+            container.registerSingleton(HOLDER, (c) => c.resolve(CONNECTION));
+
+            expect(() => container.createScope().resolve(HOLDER)).toThrow(/outside of a scope/);
+        });
+
+        it('should dispose scoped instances in reverse creation order', async () => {
+            const order: number[] = [];
+            const OTHER = createToken<Connection>('Other');
+            container.registerScoped(OTHER, (c) => {
+                c.resolve(CONNECTION);
+                const connection = new Connection(100);
+                connection.dispose = () => { order.push(100); };
+                return connection;
+            });
+            const scope = container.createScope();
+            const connection = scope.resolve(CONNECTION);
+            connection.dispose = () => { order.push(connection.id); };
+            scope.resolve(OTHER);
+
+            await scope.dispose();
+
+            expect(order).toEqual([100, connection.id]);
+            expect(() => scope.resolve(CONNECTION)).toThrow(/disposed/);
+        });
+
+        it('should release every instance even when one fails to dispose', async () => {
+            const FAILING = createToken<Connection>('Failing');
+            container.registerScoped(FAILING, () => {
+                const connection = new Connection(0);
+                connection.dispose = () => { throw new Error('boom'); };
+                return connection;
+            });
+            const scope = container.createScope();
+            const connection = scope.resolve(CONNECTION);
+            scope.resolve(FAILING);
+
+            await expect(scope.dispose()).rejects.toThrow('boom');
+            expect(connection.disposed).toBe(true);
+        });
+    });
+
+    describe('lifecycle', () => {
+        it('should resolve async factories and run onInit once', async () => {
+            const DATABASE = createToken<{ connected: boolean }>('Database');
+            let inits = 0;
+            container.registerSingleton(DATABASE, async () => ({ connected: false }), {
+                onInit: async (db) => {
+                    inits++;
+                    db.connected = true;
+                },
+            });
+
+            const [first, second] = await Promise.all([
+                container.resolveAsync(DATABASE),
+                container.resolveAsync(DATABASE),
+            ]);
+
+            expect(first).toBe(second);
+            expect(first.connected).toBe(true);
+            expect(inits).toBe(1);
+            expect(container.resolve(DATABASE)).toBe(first);
+        });
+
+        it('should require resolveAsync for async factories and onInit hooks', () => {
+            const ASYNC = createToken<number>('Async');
+            const HOOKED = createToken<number>('Hooked');
+            container.registerSingleton(ASYNC, async () => 1);
+            container.registerSingleton(HOOKED, () => 2, { onInit: () => undefined });
+
+            expect(() => container.resolve(ASYNC)).toThrow(/async factory/);
+            expect(() => container.resolve(HOOKED)).toThrow(/onInit/);
+        });
+
+        it('should reject a sync resolve while an async creation is in flight', async () => {
+            const DATABASE = createToken<object>('Database');
+            let created = 0;
+            container.registerSingleton(DATABASE, async () => {
+                created++;
+                return {};
+            });
+
+            const pending = container.resolveAsync(DATABASE);
+
+            expect(() => container.resolve(DATABASE)).toThrow(/still being created/);
+            const database = await pending;
+            expect(container.resolve(DATABASE)).toBe(database);
+            expect(created).toBe(1);
+        });
+
+        it('should create singletons with hooks on initialize', async () => {
+            const started: string[] = [];
+            const SERVER = createToken<string>('Server');
+            container.registerSingleton(SERVER, () => 'server', {
+                onInit: (server) => { started.push(server); },
+            });
+
+            await container.initialize();
+
+            expect(started).toEqual(['server']);
+        });
+
+        it('should dispose singletons in reverse dependency order', async () => {
+            const disposed: string[] = [];
+            const DATABASE = createToken<string>('Database');
+            const REPOSITORY = createToken<string>('Repository');
+            const WORKER = createToken<string>('Worker');
+            const track = { onDispose: (name: string) => { disposed.push(name); } };
+            container.registerSingleton(WORKER, (c) => `worker(${c.resolve(REPOSITORY)})`, track);
+            container.registerSingleton(REPOSITORY, (c) => `repo(${c.resolve(DATABASE)})`, track);
+            container.registerSingleton(DATABASE, async () => 'db', track);
+
+            await container.resolveAsync(DATABASE);
+            container.resolve(WORKER);
+            await container.dispose();
+
+            expect(disposed).toEqual(['worker(repo(db))', 'repo(db)', 'db']);
+            expect(() => container.resolve(CONFIG)).toThrow(/disposed/);
+        });
+
+        it('should only dispose registered instances with an onDispose hook', async () => {
+            const SHARED = createToken<Connection>('Shared');
+            const OWNED = createToken<Connection>('Owned');
+            const shared = new Connection(1);
+            const owned = new Connection(2);
+            container.registerInstance(SHARED, shared);
+            container.registerInstance(OWNED, owned, { onDispose: (c) => c.dispose() });
+
+            await container.dispose();
+
+            expect(shared.disposed).toBe(false);
+            expect(owned.disposed).toBe(true);
+        });
+
+        it('should keep registered instances after dispose', async () => {
+            const SHARED = createToken<Connection>('Shared');
+            const shared = new Connection(1);
+            container.registerInstance(SHARED, shared);
+            const scope = container.createScope();
+
+            await container.dispose();
+
+            expect(scope.resolve(SHARED)).toBe(shared);
+        });
+    });
+
+    describe('diagnostics', () => {
+        const A = createToken<string>('A');
+        const B = createToken<string>('B');
+        const MISSING = createToken<string>('Missing');
+
+        it('should report circular dependencies with the resolution path', () => {
+            container.registerSingleton(A, (c) => c.resolve(B));
+            container.registerTransient(B, (c) => c.resolve(A));
+
+            expect(() => container.resolve(A)).toThrow(CircularDependencyError);
+            expect(() => container.resolve(A)).toThrow('A -> B -> A');
+        });
+
+        it('should detect cycles through async factories', async () => {
+            container.registerSingleton(A, async (c) => c.resolveAsync(B));
+            container.registerSingleton(B, async (c) => c.resolveAsync(A));
+
+            await expect(container.resolveAsync(A)).rejects.toThrow('A -> B -> A');
+        });
+
+        it('should include the resolution path for missing registrations', () => {
+            container.registerSingleton(A, (c) => c.resolve(MISSING));
+
+            try {
+                container.resolve(A);
+                expect.fail('Expected resolve to throw');
+            } catch (error) {
+                expect(error).toBeInstanceOf(MissingRegistrationError);
+                expect((error as MissingRegistrationError).resolutionPath).toEqual(['A', 'Missing']);
+            }
+        });
+
+        it('should validate every registration and report all failures', async () => {
+            container.registerSingleton(A, (c) => c.resolve(MISSING));
+            container.registerScoped(B, (c) => c.resolve(MISSING));
+
+            const validation = container.validate();
+
+            await expect(validation).rejects.toBeInstanceOf(ContainerValidationError);
+            await validation.catch((error: ContainerValidationError) => {
+                expect(error.errors).toHaveLength(2);
+            });
+        });
+
+        it('should validate scoped dependencies with scope-provided instances', async () => {
+            const REQUEST = createToken<string>('Request');
+            container.registerScoped(B, (c) => `handler(${c.resolve(REQUEST)})`);
+
+            await expect(
+                container.validate({
+                    configureScope: (scope) => scope.registerInstance(REQUEST, 'req'),
+                })
+            ).resolves.toBeUndefined();
+        });
+
+        it('should dump the dependency graph as JSON and DOT', async () => {
+            container.registerSingleton(A, (c) => `${c.resolve(CONFIG).name}`);
+            container.registerTransient(B, (c) => c.resolve(MISSING));
+            await container.validate().catch(() => undefined);
+
+            const graph = container.getDependencyGraph();
+            expect(graph.edges).toEqual(
+                expect.arrayContaining([
+                    { from: 'A', to: 'Config' },
+                    { from: 'B', to: 'Missing' },
+                ])
+            );
+            expect(graph.nodes).toContainEqual({
+                token: 'Missing',
+                lifecycle: null,
+                registered: false,
+            });
+            expect(JSON.parse(container.dumpGraph('json'))).toEqual(graph);
+
+            const dot = container.dumpGraph('dot');
+            expect(dot).toMatch(/^digraph container \{/);
+            expect(dot).toContain('"A" -> "Config";');
+            expect(dot).toContain('"Missing" [label="Missing\\nmissing", color=red, fontcolor=red];');
+        });
+    });
+
+    describe('multi-bindings', () => {
+        const PLUGIN = createToken<string>('Plugin');
+
+        it('should resolve every contributed binding in registration order', () => {
+            container.registerMulti(PLUGIN, () => 'audit');
+            container.registerMulti(PLUGIN, () => 'metrics', { lifecycle: 'transient' });
+
+            expect(container.resolveAll(PLUGIN)).toEqual(['audit', 'metrics']);
+        });
+
+        it('should return an empty array when nothing is contributed', () => {
+            expect(container.resolveAll(PLUGIN)).toEqual([]);
+        });
+
+        it('should include bindings contributed by a scope after its parents', async () => {
+            container.registerMulti(PLUGIN, () => 'global');
+            const scope = container.createScope();
+            scope.registerMulti(PLUGIN, async (c) => `request(${c.resolve(CONNECTION).id})`, {
+                lifecycle: 'scoped',
+            });
+
+            expect(await scope.resolveAllAsync(PLUGIN)).toEqual(['global', 'request(1)']);
+            expect(container.resolveAll(PLUGIN)).toEqual(['global']);
+        });
+
+        it('should reject resolving a multi-binding token without a default', () => {
+            container.registerMulti(PLUGIN, () => 'audit');
+            container.registerMulti(PLUGIN, () => 'metrics', { name: 'metrics' });
+
+            expect(() => container.resolve(PLUGIN)).toThrow(AmbiguousRegistrationError);
+            expect(() => container.resolve(PLUGIN)).toThrow('(Plugin#0, Plugin[metrics])');
+            expect(container.resolve(PLUGIN, 'metrics')).toBe('metrics');
+        });
+    });
+
+    describe('named bindings', () => {
+        const DATABASE = createToken<string>('Database');
+
+        it('should resolve named bindings next to the default one', () => {
+            container.registerSingleton(DATABASE, () => 'primary');
+            container.registerSingleton(DATABASE, () => 'replica', { name: 'replica' });
+
+            expect(container.resolve(DATABASE)).toBe('primary');
+            expect(container.resolve(DATABASE, 'replica')).toBe('replica');
+            expect(container.isRegistered(DATABASE, 'replica')).toBe(true);
+            expect(container.isRegistered(DATABASE, 'archive')).toBe(false);
+        });
+
+        it('should resolve the only named binding when no default exists', () => {
+            container.registerSingleton(DATABASE, () => 'replica', { name: 'replica' });
+
+            expect(container.resolve(DATABASE)).toBe('replica');
+        });
+
+        it('should report ambiguity between named bindings with their names', () => {
+            container.registerSingleton(DATABASE, () => 'eu', { name: 'eu' });
+            container.registerSingleton(DATABASE, () => 'us', { name: 'us' });
+            const APP = createToken<string>('App');
+            container.registerSingleton(APP, (c) => c.resolve(DATABASE));
+
+            expect(() => container.resolve(APP)).toThrow(
+                'Database has 2 bindings (Database[eu], Database[us]) and no default'
+            );
+            expect(() => container.resolve(APP)).toThrow('(resolving App -> Database)');
+        });
+
+        it('should report missing named bindings with the name', () => {
+            container.registerSingleton(DATABASE, () => 'primary');
+
+            expect(() => container.resolve(DATABASE, 'replica'))
+                .toThrow('No registration found for token: Database[replica]');
+        });
+
+        it('should reject a second binding with the same name', () => {
+            container.registerSingleton(DATABASE, () => 'a', { name: 'replica' });
+
+            expect(() => container.registerSingleton(DATABASE, () => 'b', { name: 'replica' }))
+                .toThrow(DuplicateRegistrationError);
+        });
+    });
+
+    describe('modules', () => {
+        interface TestEnv {
+            DB_TYPE: 'postgres' | 'firestore';
+        }
+
+        const REPOSITORY = createToken<string>('Repository');
+        const sqlModule = defineModule<TestEnv>({
+            name: 'sql',
+            when: whenEnv('DB_TYPE', 'postgres'),
+            load: (c) => c.registerSingleton(REPOSITORY, () => 'sql'),
+        });
+        const firestoreModule = defineModule<TestEnv>({
+            name: 'firestore',
+            when: whenEnv('DB_TYPE', 'firestore'),
+            load: (c) => c.registerSingleton(REPOSITORY, () => 'firestore'),
+        });
+
+        it('should only load modules matching the environment', () => {
+            container.load([sqlModule, firestoreModule], { DB_TYPE: 'firestore' });
+
+            expect(container.resolve(REPOSITORY)).toBe('firestore');
+            expect(container.modules).toEqual(['firestore']);
+        });
+
+        it('should load each module once', () => {
+            container.load([sqlModule], { DB_TYPE: 'postgres' });
+
+            expect(() => container.load([sqlModule], { DB_TYPE: 'postgres' })).not.toThrow();
+            expect(container.modules).toEqual(['sql']);
+        });
+
+        it('should reject duplicate registrations unless replacing', () => {
+            expect(() => container.registerSingleton(CONFIG, () => ({ name: 'other' })))
+                .toThrow(DuplicateRegistrationError);
+
+            container.registerSingleton(CONFIG, () => ({ name: 'other' }), { replace: true });
+            expect(container.resolve(CONFIG).name).toBe('other');
+        });
+
+        it('should let modules replace registrations when loaded with replace', () => {
+            const fakes = defineModule<TestEnv>({
+                name: 'fakes',
+                load: (c) => c.registerSingleton(REPOSITORY, () => 'fake'),
+            });
+            container.load([sqlModule], { DB_TYPE: 'postgres' });
+
+            expect(() => container.load([fakes], { DB_TYPE: 'postgres' }))
+                .toThrow(DuplicateRegistrationError);
+            container.load([{ ...fakes, name: 'fakes-replace' }], { DB_TYPE: 'postgres' }, {
+                replace: true,
+            });
+            expect(container.resolve(REPOSITORY)).toBe('fake');
+        });
+
+        it('should override dependencies and restore them', () => {
+            const MISSING = createToken<string>('Optional');
+            container.override(CONFIG, { name: 'test' }).override(MISSING, 'fake');
+
+            expect(container.resolve(CONFIG).name).toBe('test');
+            expect(container.resolve(MISSING)).toBe('fake');
+
+            container.restoreOverrides();
+            expect(container.resolve(CONFIG).name).toBe('app');
+            expect(container.isRegistered(MISSING)).toBe(false);
+        });
+    });
+
+    it('should create a new transient instance on every resolve', () => {
+        expect(container.resolve(COUNTER)).not.toBe(container.resolve(COUNTER));
+    });
+});
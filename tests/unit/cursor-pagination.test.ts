@@ -4,14 +4,19 @@
  * ═══════════════════════════════════════════════════════════════════════════
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
     CursorPaginator,
     createIdPaginator,
     createDatePaginator,
     cursorPaginationSchema,
+    queryFingerprint,
+    withTotal,
     type CursorPaginationOptions,
 } from '../../src/shared/utils/cursor-pagination.util';
+import { paginationRequestSchema } from '../../src/application/dtos/pagination.dto';
+import { InvalidCursorError } from '../../src/domain/errors/domain.error';
+import { Cursor } from '../../src/domain/value-objects/cursor.vo';
 
 interface TestEntity {
     id: string;
@@ -51,9 +56,15 @@ describe('CursorPaginator', () => {
             });
         });
 
-        it('should return null for invalid cursor', () => {
-            expect(paginator.decode('invalid-base64')).toBeNull();
-            expect(paginator.decode('')).toBeNull();
+        it('should reject invalid cursors', () => {
+            expect(() => paginator.decode('invalid-base64')).toThrow(InvalidCursorError);
+            expect(() => paginator.decode('')).toThrow('Invalid pagination cursor: malformed cursor');
+            expect(() => paginator.decode('')).toThrow(
+                expect.objectContaining({
+                    code: 'INVALID_INPUT',
+                    metadata: { field: 'cursor', context: { reason: 'malformed cursor' } },
+                })
+            );
         });
 
         it('should handle special characters in cursor value', () => {
@@ -62,6 +73,19 @@ describe('CursorPaginator', () => {
 
             expect(decoded?.value).toBe('id/with+special=chars');
         });
+
+        it('should round-trip the sort position of composite cursors', () => {
+            const createdAt = new Date('2024-03-01T12:00:00.000Z');
+            const encoded = paginator.encode('id-7', 'forward', { field: 'createdAt', value: createdAt });
+
+            expect(paginator.decode(encoded)).toEqual({
+                value: 'id-7',
+                direction: 'forward',
+                sort: { field: 'createdAt', value: createdAt },
+            });
+            expect(paginator.decode(paginator.encode('id-7', 'backward', { field: 'name', value: 'Ada' }))?.sort)
+                .toEqual({ field: 'name', value: 'Ada' });
+        });
     });
 
     describe('buildResult', () => {
@@ -112,6 +136,21 @@ describe('CursorPaginator', () => {
             expect(result.pagination.prevCursor).toBeTruthy();
         });
 
+        it('should put the sort field value in cursors when sorting by another field', () => {
+            const entities = createEntities(3);
+            const cursor = paginator.encode('id-0', 'forward', { field: 'name', value: 'Entity 0' });
+
+            const result = paginator.buildResult(entities, { limit: 2, cursor }, { sortField: 'name' });
+
+            expect(paginator.decode(result.pagination.nextCursor!)?.sort)
+                .toEqual({ field: 'name', value: 'Entity 2' });
+            expect(paginator.decode(result.pagination.prevCursor!)).toEqual({
+                value: 'id-1',
+                direction: 'backward',
+                sort: { field: 'name', value: 'Entity 1' },
+            });
+        });
+
         it('should handle empty result set', () => {
             const entities: TestEntity[] = [];
             const options: CursorPaginationOptions = { limit: 20 };
@@ -127,6 +166,34 @@ describe('CursorPaginator', () => {
         });
     });
 
+    describe('buildOffsetResult', () => {
+        const entities = Array.from({ length: 3 }, (_, i) => ({
+            id: `id-${i + 1}`,
+            name: `Entity ${i + 1}`,
+            createdAt: new Date(),
+        }));
+
+        it('should build a page without cursors', () => {
+            const result = paginator.buildOffsetResult(entities, { limit: 2, page: 2 });
+
+            expect(result.data).toHaveLength(2);
+            expect(result.pagination).toEqual({
+                nextCursor: null,
+                prevCursor: null,
+                hasNextPage: true,
+                hasPrevPage: true,
+                count: 2,
+                page: 2,
+            });
+        });
+
+        it('should add total item and page counts', () => {
+            const result = withTotal(paginator.buildOffsetResult(entities, { limit: 2, page: 1 }), 41, 2);
+
+            expect(result.pagination).toMatchObject({ total: 41, totalPages: 21, page: 1 });
+        });
+    });
+
     describe('getCursorKey', () => {
         it('should return the cursor key', () => {
             expect(paginator.getCursorKey()).toBe('id');
@@ -134,6 +201,88 @@ describe('CursorPaginator', () => {
     });
 });
 
+describe('Cursor value objects', () => {
+    const paginator = createIdPaginator<{ id: string; rank: number }>();
+    const encode = (payload: unknown): string =>
+        Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    it('should produce and consume Cursor value objects', () => {
+        const cursor = paginator.cursorAt({ id: 'id-3', rank: 7 }, 'backward', { sortField: 'rank' });
+
+        expect(cursor.equals(Cursor.backward('id-3', { field: 'rank', value: 7 }))).toBe(true);
+        expect(paginator.parse(paginator.stringify(cursor)).equals(cursor)).toBe(true);
+        expect(Cursor.decode(paginator.encode('id-3', 'forward')).equals(Cursor.forward('id-3'))).toBe(true);
+    });
+
+    it('should validate the payload of every decoded cursor', () => {
+        expect(() => paginator.decode(encode({ v: 'id-1', d: 'sideways' }))).toThrow(InvalidCursorError);
+        expect(() => paginator.decode(encode({ v: 42, d: 'forward' }))).toThrow(InvalidCursorError);
+        expect(() => paginator.decode(encode({ v: 'id-1', d: 'forward', s: { f: 'at', t: 'date', v: 'soon' } })))
+            .toThrow(InvalidCursorError);
+    });
+});
+
+describe('signed cursors', () => {
+    const secret = 'a-cursor-signing-secret-of-32-chars!';
+    const signed = createIdPaginator<{ id: string }>({ secret, ttlSeconds: 60 });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should round-trip signed cursors', () => {
+        expect(signed.decode(signed.encode('id-1', 'forward'))).toEqual({
+            value: 'id-1',
+            direction: 'forward',
+        });
+    });
+
+    it('should reject tampered, unsigned and foreign cursors', () => {
+        const [, signature] = signed.encode('id-1', 'forward').split('.');
+        const forged = `${Buffer.from('{"v":"id-9","d":"forward"}').toString('base64url')}.${signature}`;
+
+        expect(() => signed.decode(forged)).toThrow('signature does not match');
+        expect(() => signed.decode(createIdPaginator().encode('id-1', 'forward')))
+            .toThrow(InvalidCursorError);
+        expect(() => createIdPaginator({ secret: `${secret}-rotated` }).decode(signed.encode('id-1', 'forward')))
+            .toThrow(InvalidCursorError);
+    });
+
+    it('should reject expired cursors', () => {
+        vi.useFakeTimers();
+        const cursor = signed.encode('id-1', 'forward');
+
+        vi.advanceTimersByTime(61_000);
+
+        expect(() => signed.decode(cursor)).toThrow('cursor has expired');
+    });
+
+    it('should reject cursors replayed on another query', () => {
+        const fingerprint = queryFingerprint({ where: { status: 'draft' } });
+        const cursor = signed.encode('id-1', 'forward', undefined, fingerprint);
+
+        expect(signed.decode(cursor, fingerprint).value).toBe('id-1');
+        expect(() => signed.decode(cursor, queryFingerprint({ where: { status: 'published' } })))
+            .toThrow('cursor was issued for a different query');
+    });
+
+    it('should fingerprint queries regardless of key order', () => {
+        const since = new Date('2024-01-01');
+
+        expect(queryFingerprint({ a: 1, b: { gte: since } }))
+            .toBe(queryFingerprint({ b: { gte: new Date(since) }, a: 1 }));
+        expect(queryFingerprint({ a: 1 })).not.toBe(queryFingerprint({ a: 2 }));
+    });
+
+    it('should sign Cursor value objects the same way', () => {
+        const encoded = Cursor.forward('id-1').encode({ signing: { secret } });
+
+        expect(Cursor.decode(encoded, { signing: { secret } }).equals(Cursor.forward('id-1'))).toBe(true);
+        expect(() => Cursor.decode(encoded.replace(/.$/, (c) => (c === 'A' ? 'B' : 'A')), { signing: { secret } }))
+            .toThrow(InvalidCursorError);
+    });
+});
+
 describe('createIdPaginator', () => {
     it('should create a paginator using id as cursor key', () => {
         interface EntityWithId {
@@ -168,6 +317,20 @@ describe('createDatePaginator', () => {
     });
 });
 
+describe('paginationRequestSchema', () => {
+    it('should parse offset mode and total counts from query strings', () => {
+        expect(paginationRequestSchema.parse({ page: '3', includeTotal: 'true' })).toEqual({
+            limit: 20,
+            page: 3,
+            includeTotal: true,
+        });
+    });
+
+    it('should reject a cursor combined with a page', () => {
+        expect(paginationRequestSchema.safeParse({ cursor: 'abc', page: '2' }).success).toBe(false);
+    });
+});
+
 describe('cursorPaginationSchema', () => {
     it('should validate and parse valid input', () => {
         const result = cursorPaginationSchema.parse({
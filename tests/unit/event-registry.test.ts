@@ -0,0 +1,133 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * DOMAIN EVENT REGISTRY UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DomainEventRegistry,
+    createDomainEventRegistry,
+} from '../../src/domain/events/event-registry';
+import {
+    BaseDomainEvent,
+    EntityCreatedEvent,
+    EntityUpdatedEvent,
+    eventMetadataFrom,
+    type DomainEventMetadata,
+    type SerializedDomainEvent,
+} from '../../src/domain/events/domain-event';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import { UnknownDomainEventError } from '../../src/domain/errors/domain.error';
+import { isErr, isOk } from '../../src/shared/utils/result';
+
+interface PostPublishedPayload {
+    title: string;
+    tags: string[];
+}
+
+class PostPublishedEvent extends BaseDomainEvent<PostPublishedPayload> {
+    public readonly eventType = 'post.published';
+
+    constructor(aggregateId: string, payload: PostPublishedPayload, metadata?: DomainEventMetadata) {
+        super(aggregateId, payload, { version: 3, ...metadata });
+    }
+}
+
+interface PostProps extends EntityProps {
+    title: string;
+}
+
+class Post extends AggregateRoot<PostProps> {
+    publish(): void {
+        this.addDomainEvent(new PostPublishedEvent(this.id, { title: this.props.title, tags: [] }));
+        this.addDomainEvent(new EntityCreatedEvent(this.id, 'Post', { title: this.props.title }));
+    }
+
+    toObject(): PostProps {
+        return { ...this.props };
+    }
+}
+
+describe('DomainEventRegistry', () => {
+    it('should restore a registered event with its original metadata', () => {
+        const registry = createDomainEventRegistry();
+        const event = new EntityUpdatedEvent('agg-1', 'User', { name: 'Grace' });
+
+        const result = registry.deserialize(event.toJSON());
+
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+            expect(result.value).toBeInstanceOf(EntityUpdatedEvent);
+            expect(result.value.eventId).toBe(event.eventId);
+            expect(result.value.occurredAt).toEqual(event.occurredAt);
+            expect((result.value as EntityUpdatedEvent).changes).toEqual({ name: 'Grace' });
+        }
+    });
+
+    it('should return an error for unregistered events', () => {
+        const registry = new DomainEventRegistry();
+        const event = new EntityCreatedEvent('agg-1', 'User', {});
+
+        const result = registry.deserialize(event.toJSON());
+
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+            expect(result.error).toBeInstanceOf(UnknownDomainEventError);
+        }
+    });
+
+    it('should upcast old versions step by step before deserializing', () => {
+        const registry = new DomainEventRegistry()
+            .register('post.published', 3, (data) =>
+                new PostPublishedEvent(
+                    data.aggregateId,
+                    data.payload as PostPublishedPayload,
+                    eventMetadataFrom(data)
+                )
+            )
+            // v1 stored the title under `name`
+            .registerUpcaster('post.published', 1, (data) => {
+                const { name } = data.payload as { name: string };
+                return { ...data, payload: { title: name } };
+            })
+            // v2 had no tags
+            .registerUpcaster('post.published', 2, (data) => ({
+                ...data,
+                payload: { ...(data.payload as object), tags: [] },
+            }));
+
+        const stored: SerializedDomainEvent = {
+            eventId: 'evt-1',
+            eventType: 'post.published',
+            aggregateId: 'post-1',
+            occurredAt: '2024-01-01T00:00:00.000Z',
+            version: 1,
+            payload: { name: 'Hello' },
+        };
+
+        expect(registry.upcast(stored).version).toBe(3);
+
+        const result = registry.deserialize(stored);
+        expect(isOk(result)).toBe(true);
+        if (isOk(result)) {
+            expect(result.value).toBeInstanceOf(PostPublishedEvent);
+            expect(result.value.version).toBe(3);
+            expect(result.value.payload).toEqual({ title: 'Hello', tags: [] });
+        }
+    });
+});
+
+describe('AggregateRoot domain events', () => {
+    it('should accept typed domain events without casts', () => {
+        const post = new Post({ id: 'post-1', title: 'Hello' });
+
+        post.publish();
+
+        expect(post.domainEvents).toHaveLength(2);
+        expect(post.domainEvents[0]?.payload).toEqual({ title: 'Hello', tags: [] });
+
+        post.clearDomainEvents();
+        expect(post.domainEvents).toHaveLength(0);
+    });
+});
@@ -0,0 +1,314 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * EVENT SOURCING UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventSourcedAggregateRoot } from '../../src/domain/entities/event-sourced-aggregate';
+import type { EntityProps } from '../../src/domain/entities/base.entity';
+import {
+    BaseDomainEvent,
+    eventMetadataFrom,
+    type AnyDomainEvent,
+    type DomainEventMetadata,
+} from '../../src/domain/events/domain-event';
+import { DomainEventRegistry } from '../../src/domain/events/event-registry';
+import {
+    EntityNotFoundError,
+    StreamVersionConflictError,
+} from '../../src/domain/errors/domain.error';
+import {
+    InMemoryEventStore,
+    InMemoryProjectionCheckpointStore,
+} from '../../src/infrastructure/database/in-memory/in-memory-event.store';
+import { EventSourcedRepository } from '../../src/infrastructure/events/event-sourced.repository';
+import { ProjectionRunner, type IProjection } from '../../src/infrastructure/events/projection-runner';
+import type { ILogger } from '../../src/application/ports/logger.port';
+import { isErr, isOk, unwrap } from '../../src/shared/utils/result';
+import { createMockLogger } from '../integration/setup';
+
+class MoneyDepositedEvent extends BaseDomainEvent<{ amount: number }> {
+    public readonly eventType = 'account.deposited';
+
+    constructor(aggregateId: string, amount: number, metadata?: DomainEventMetadata) {
+        super(aggregateId, { amount }, metadata);
+    }
+}
+
+interface AccountProps extends EntityProps {
+    balance: number;
+}
+
+class Account extends EventSourcedAggregateRoot<AccountProps> {
+    static empty(id: string): Account {
+        return new Account({ id, balance: 0 });
+    }
+
+    get balance(): number {
+        return this.props.balance;
+    }
+
+    deposit(amount: number): void {
+        this.raise(new MoneyDepositedEvent(this.id, amount));
+    }
+
+    protected when(event: AnyDomainEvent): void {
+        if (event instanceof MoneyDepositedEvent) {
+            this.props.balance += event.payload.amount;
+        }
+    }
+
+    toObject(): AccountProps {
+        return { ...this.props };
+    }
+}
+
+function createRegistry(): DomainEventRegistry {
+    return new DomainEventRegistry().register('account.deposited', 1, (data) =>
+        new MoneyDepositedEvent(
+            data.aggregateId,
+            (data.payload as { amount: number }).amount,
+            eventMetadataFrom(data)
+        )
+    );
+}
+
+describe('EventSourcedAggregateRoot', () => {
+    it('should apply raised events and track the next stream version', () => {
+        const account = Account.empty('acc-1');
+
+        account.deposit(10);
+        account.deposit(5);
+
+        expect(account.balance).toBe(15);
+        expect(account.streamVersion).toBe(0);
+        expect(account.nextStreamVersion).toBe(2);
+        expect(account.domainEvents).toHaveLength(2);
+    });
+
+    it('should rebuild state from history without pending events', () => {
+        const account = Account.empty('acc-1');
+
+        account.loadFromHistory([
+            new MoneyDepositedEvent('acc-1', 10),
+            new MoneyDepositedEvent('acc-1', 20),
+        ]);
+
+        expect(account.balance).toBe(30);
+        expect(account.streamVersion).toBe(2);
+        expect(account.domainEvents).toHaveLength(0);
+    });
+
+    it('should revive the timestamps of a serialized snapshot', () => {
+        const deletedAt = new Date('2024-03-01T00:00:00.000Z');
+        const account = Account.empty('acc-1');
+
+        account.restoreSnapshot(
+            JSON.parse(JSON.stringify({ id: 'acc-1', balance: 7, createdAt: deletedAt, deletedAt })),
+            3
+        );
+
+        expect(account.balance).toBe(7);
+        expect(account.createdAt).toBeInstanceOf(Date);
+        expect(account.deletedAt).toEqual(deletedAt);
+        expect(account.isDeleted).toBe(true);
+        expect(account.streamVersion).toBe(3);
+    });
+});
+
+describe('InMemoryEventStore', () => {
+    let store: InMemoryEventStore;
+
+    beforeEach(() => {
+        store = new InMemoryEventStore();
+    });
+
+    it('should append events when the expected version matches', async () => {
+        const result = await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 10)], 0);
+
+        expect(isOk(result) && result.value).toBe(1);
+        expect(await store.getStreamVersion('acc-1')).toBe(1);
+    });
+
+    it('should reject appends at a stale expected version', async () => {
+        await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 10)], 0);
+
+        const result = await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 5)], 0);
+
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+            expect(result.error).toBeInstanceOf(StreamVersionConflictError);
+        }
+        expect(await store.getStreamVersion('acc-1')).toBe(1);
+    });
+
+    it('should read all streams in global order', async () => {
+        await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 1)], 0);
+        await store.append('acc-2', [new MoneyDepositedEvent('acc-2', 2)], 0);
+        await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 3)], 1);
+
+        const events = await store.readAll(1, 10);
+
+        expect(events.map((e) => [e.streamId, e.position])).toEqual([
+            ['acc-2', 2],
+            ['acc-1', 3],
+        ]);
+    });
+});
+
+describe('EventSourcedRepository', () => {
+    let store: InMemoryEventStore;
+
+    beforeEach(() => {
+        store = new InMemoryEventStore();
+    });
+
+    it('should save and reload an aggregate', async () => {
+        const repository = new EventSourcedRepository(store, createRegistry(), Account.empty);
+        const account = Account.empty('acc-1');
+        account.deposit(10);
+        account.deposit(15);
+
+        await repository.save(account);
+        const loaded = unwrap(await repository.load('acc-1'));
+
+        expect(account.streamVersion).toBe(2);
+        expect(account.domainEvents).toHaveLength(0);
+        expect(loaded.balance).toBe(25);
+        expect(loaded.streamVersion).toBe(2);
+    });
+
+    it('should return not found for an empty stream', async () => {
+        const repository = new EventSourcedRepository(store, createRegistry(), Account.empty);
+
+        const result = await repository.load('missing');
+
+        expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+    });
+
+    it('should detect concurrent modifications', async () => {
+        const repository = new EventSourcedRepository(store, createRegistry(), Account.empty);
+        const account = Account.empty('acc-1');
+        account.deposit(10);
+        await repository.save(account);
+
+        const first = unwrap(await repository.load('acc-1'));
+        const second = unwrap(await repository.load('acc-1'));
+        first.deposit(1);
+        second.deposit(2);
+
+        expect(isOk(await repository.save(first))).toBe(true);
+        const result = await repository.save(second);
+        expect(isErr(result) && result.error).toBeInstanceOf(StreamVersionConflictError);
+    });
+
+    it('should snapshot every N events and load from the snapshot', async () => {
+        const repository = new EventSourcedRepository(store, createRegistry(), Account.empty, {
+            snapshotEvery: 2,
+        });
+        const account = Account.empty('acc-1');
+        account.deposit(1);
+        account.deposit(2);
+        account.deposit(3);
+        await repository.save(account);
+
+        const snapshot = await store.loadSnapshot('acc-1');
+        expect(snapshot?.streamVersion).toBe(3);
+        expect(snapshot?.state['balance']).toBe(6);
+
+        account.deposit(4);
+        await repository.save(account);
+        const loaded = unwrap(await repository.load('acc-1'));
+
+        expect(loaded.balance).toBe(10);
+        expect(loaded.streamVersion).toBe(4);
+        expect(loaded.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should log a failed dispatch and still report the save', async () => {
+        const logger = createMockLogger();
+        const repository = new EventSourcedRepository(store, createRegistry(), Account.empty, {
+            eventDispatcher: {
+                dispatch: async () => { throw new Error('bus down'); },
+                dispatchMany: async () => { throw new Error('bus down'); },
+            },
+            logger: logger as unknown as ILogger,
+        });
+        const account = Account.empty('acc-1');
+        account.deposit(10);
+
+        const result = await repository.save(account);
+
+        expect(isOk(result)).toBe(true);
+        expect(await store.readStream('acc-1')).toHaveLength(1);
+        expect(logger.logs.some((entry) => entry.level === 'error')).toBe(true);
+    });
+});
+
+describe('ProjectionRunner', () => {
+    let store: InMemoryEventStore;
+    let checkpoints: InMemoryProjectionCheckpointStore;
+    let logger: ILogger;
+
+    beforeEach(() => {
+        store = new InMemoryEventStore();
+        checkpoints = new InMemoryProjectionCheckpointStore();
+        logger = createMockLogger() as unknown as ILogger;
+    });
+
+    function createBalanceProjection(): IProjection & { balances: Map<string, number> } {
+        const balances = new Map<string, number>();
+        return {
+            name: 'balances',
+            balances,
+            handles: ['account.deposited'],
+            project: async (event) => {
+                const { amount } = event.payload as { amount: number };
+                balances.set(event.aggregateId, (balances.get(event.aggregateId) ?? 0) + amount);
+            },
+        };
+    }
+
+    it('should feed new events to projections and save checkpoints', async () => {
+        const projection = createBalanceProjection();
+        const runner = new ProjectionRunner(store, checkpoints, createRegistry(), logger)
+            .register(projection);
+        await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 10)], 0);
+        await store.append('acc-2', [new MoneyDepositedEvent('acc-2', 5)], 0);
+
+        expect(await runner.runOnce()).toBe(2);
+        await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 1)], 1);
+        expect(await runner.runOnce()).toBe(1);
+        expect(await runner.runOnce()).toBe(0);
+
+        expect(projection.balances.get('acc-1')).toBe(11);
+        expect(projection.balances.get('acc-2')).toBe(5);
+        expect(await checkpoints.get('balances')).toBe(3);
+    });
+
+    it('should retry a failing projection from its checkpoint', async () => {
+        let failures = 1;
+        const seen: string[] = [];
+        const projection: IProjection = {
+            name: 'flaky',
+            project: async (event) => {
+                if (failures > 0) {
+                    failures--;
+                    throw new Error('read model unavailable');
+                }
+                seen.push(event.eventId);
+            },
+        };
+        const runner = new ProjectionRunner(store, checkpoints, createRegistry(), logger)
+            .register(projection);
+        await store.append('acc-1', [new MoneyDepositedEvent('acc-1', 10)], 0);
+
+        await runner.runOnce();
+        expect(await checkpoints.get('flaky')).toBe(0);
+
+        await runner.runOnce();
+        expect(seen).toHaveLength(1);
+        expect(await checkpoints.get('flaky')).toBe(1);
+    });
+});
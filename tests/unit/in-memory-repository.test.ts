@@ -0,0 +1,309 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-MEMORY REPOSITORY UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import {
+    BaseDomainEvent,
+    type AnyDomainEvent,
+    type IDomainEventDispatcher,
+} from '../../src/domain/events/domain-event';
+import {
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+} from '../../src/domain/errors/domain.error';
+import {
+    InMemoryBaseRepository,
+    type InMemoryRecord,
+} from '../../src/infrastructure/database/repositories/in-memory-base.repository';
+import type { ILogger } from '../../src/application/ports/logger.port';
+import { isErr, unwrap } from '../../src/shared/utils/result';
+import { createMockLogger } from '../integration/setup';
+
+class NotePinnedEvent extends BaseDomainEvent {
+    public readonly eventType = 'note.pinned';
+}
+
+interface NoteProps extends EntityProps {
+    title: string;
+    pinned: boolean;
+}
+
+class Note extends AggregateRoot<NoteProps> {
+    get title(): string {
+        return this.props.title;
+    }
+
+    pin(): void {
+        this.props.pinned = true;
+        this.addDomainEvent(new NotePinnedEvent(this.id, {}));
+    }
+
+    toObject(): NoteProps {
+        return { ...this.props };
+    }
+}
+
+class InMemoryNoteRepository extends InMemoryBaseRepository<Note, NoteProps> {
+    protected readonly entityName = 'Note';
+
+    protected toDomain(record: InMemoryRecord<NoteProps>): Note {
+        return new Note(record);
+    }
+}
+
+function note(id: string, title: string, daysAgo = 0): Note {
+    return new Note({
+        id,
+        title,
+        pinned: false,
+        createdAt: new Date(Date.UTC(2024, 0, 31 - daysAgo)),
+    });
+}
+
+describe('InMemoryBaseRepository', () => {
+    let dispatched: AnyDomainEvent[];
+    let repository: InMemoryNoteRepository;
+
+    beforeEach(() => {
+        dispatched = [];
+        const dispatcher: IDomainEventDispatcher = {
+            dispatch: async (event) => { dispatched.push(event); },
+            dispatchMany: async (events) => { dispatched.push(...events); },
+        };
+        repository = new InMemoryNoteRepository({ eventDispatcher: dispatcher });
+    });
+
+    it('should create, find and update entities', async () => {
+        await repository.create(note('n1', 'Draft'));
+        const updated = new Note({ ...unwrap(await repository.findById('n1')).toObject(), title: 'Final' });
+
+        await repository.update(updated);
+
+        expect(unwrap(await repository.findById('n1')).title).toBe('Final');
+        const duplicate = await repository.create(note('n1', 'Again'));
+        expect(isErr(duplicate) && duplicate.error).toBeInstanceOf(EntityAlreadyExistsError);
+    });
+
+    it('should return not found errors for missing entities', async () => {
+        const results = await Promise.all([
+            repository.findById('missing'),
+            repository.update(note('missing', 'x')),
+            repository.delete('missing'),
+            repository.softDelete('missing'),
+        ]);
+
+        for (const result of results) {
+            expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+        }
+    });
+
+    it('should filter, order and exclude soft-deleted records', async () => {
+        await repository.create(note('n1', 'Old', 2));
+        await repository.create(note('n2', 'New', 0));
+        await repository.create(note('n3', 'Old', 1));
+        await repository.softDelete('n3');
+
+        const newestFirst = await repository.findMany();
+        const old = await repository.findMany({
+            where: { title: 'Old' },
+            orderBy: { field: 'createdAt', direction: 'asc' },
+            includeSoftDeleted: true,
+        });
+
+        expect(newestFirst.map((n) => n.id)).toEqual(['n2', 'n1']);
+        expect(old.map((n) => n.id)).toEqual(['n1', 'n3']);
+        expect(await repository.count()).toBe(2);
+        expect(await repository.count({ includeSoftDeleted: true })).toBe(3);
+    });
+
+    it('should paginate forward and backward with cursors', async () => {
+        for (const id of ['a', 'b', 'c', 'd', 'e']) {
+            await repository.create(note(id, id));
+        }
+
+        const first = await repository.findManyPaginated({ limit: 2 });
+        const second = await repository.findManyPaginated({
+            limit: 2,
+            cursor: first.pagination.nextCursor!,
+        });
+        const back = await repository.findManyPaginated({
+            limit: 2,
+            cursor: second.pagination.prevCursor!,
+        });
+
+        expect(first.data.map((n) => n.id)).toEqual(['a', 'b']);
+        expect(second.data.map((n) => n.id)).toEqual(['c', 'd']);
+        expect(second.pagination.hasPrevPage).toBe(true);
+        expect(back.data.map((n) => n.id)).toEqual(['a', 'b']);
+    });
+
+    it('should publish pending events after writes', async () => {
+        const pinned = note('n1', 'Pinned');
+        pinned.pin();
+
+        await repository.create(pinned);
+
+        expect(dispatched.map((e) => e.eventType)).toEqual(['note.pinned']);
+        expect(pinned.domainEvents).toHaveLength(0);
+    });
+
+    it('should roll back writes and keep events pending when a transaction fails', async () => {
+        await repository.create(note('n1', 'Kept'));
+        const pinned = note('n2', 'Pinned');
+        pinned.pin();
+
+        await expect(
+            repository.transaction(async (repo) => {
+                await repo.create(pinned);
+                await repo.delete('n1');
+                throw new Error('abort');
+            })
+        ).rejects.toThrow('abort');
+
+        expect(await repository.exists('n1')).toBe(true);
+        expect(await repository.exists('n2')).toBe(false);
+        expect(dispatched).toHaveLength(0);
+        expect(pinned.domainEvents).toHaveLength(1);
+    });
+
+    it('should restore the versions of entities written in a rolled back transaction', async () => {
+        await repository.create(note('n1', 'Draft'));
+        const loaded = unwrap(await repository.findById('n1'));
+
+        await expect(
+            repository.transaction(async (repo) => {
+                unwrap(await repo.update(loaded));
+                unwrap(await repo.upsert(loaded));
+                throw new Error('abort');
+            })
+        ).rejects.toThrow('abort');
+
+        expect(loaded.version).toBe(1);
+        expect(unwrap(await repository.update(loaded)).version).toBe(2);
+    });
+
+    it('should publish events once a transaction commits', async () => {
+        const pinned = note('n1', 'Pinned');
+        pinned.pin();
+
+        await repository.transaction(async (repo) => {
+            await repo.create(pinned);
+            expect(dispatched).toHaveLength(0);
+        });
+
+        expect(dispatched).toHaveLength(1);
+        expect(await repository.exists('n1')).toBe(true);
+    });
+
+    it('should publish lifecycle events when soft deleting and restoring', async () => {
+        await repository.create(note('n1', 'Draft'));
+        const loaded = unwrap(await repository.findById('n1'));
+
+        loaded.softDelete();
+        unwrap(await repository.softDelete(loaded));
+        const deleted = unwrap(await repository.findById('n1', { includeSoftDeleted: true }));
+        deleted.restore();
+        unwrap(await repository.restore(deleted));
+
+        expect(dispatched.map((e) => e.eventType)).toEqual(['entity.deleted', 'entity.restored']);
+        expect(dispatched[0]).toMatchObject({ aggregateId: 'n1', entityType: 'Note' });
+        expect(deleted.isDeleted).toBe(false);
+        expect(unwrap(await repository.findById('n1')).version).toBe(3);
+    });
+
+    it('should not publish events when restoring an entity that is not deleted', async () => {
+        await repository.create(note('n1', 'Draft'));
+        const loaded = unwrap(await repository.findById('n1'));
+        loaded.pin();
+
+        unwrap(await repository.restore(loaded));
+
+        expect(dispatched).toEqual([]);
+        expect(loaded.domainEvents).toHaveLength(1);
+        expect(unwrap(await repository.findById('n1')).version).toBe(1);
+    });
+});
+
+describe('InMemoryBaseRepository event publishing', () => {
+    let dispatcher: IDomainEventDispatcher;
+
+    const pinned = (id: string): Note => {
+        const entity = note(id, 'Pinned');
+        entity.pin();
+        return entity;
+    };
+
+    beforeEach(() => {
+        dispatcher = {
+            dispatch: vi.fn(async () => { }),
+            dispatchMany: vi.fn(async () => { }),
+        };
+    });
+
+    it('should publish and clear events after a successful create, update and delete', async () => {
+        const repository = new InMemoryNoteRepository({ eventDispatcher: dispatcher });
+        const created = pinned('n1');
+        const clear = vi.spyOn(created, 'clearDomainEvents');
+
+        unwrap(await repository.create(created));
+        expect(dispatcher.dispatchMany).toHaveBeenCalledTimes(1);
+        expect(clear).toHaveBeenCalledTimes(1);
+
+        const loaded = unwrap(await repository.findById('n1'));
+        loaded.pin();
+        unwrap(await repository.update(loaded));
+        expect(dispatcher.dispatchMany).toHaveBeenCalledTimes(2);
+
+        loaded.pin();
+        unwrap(await repository.delete(loaded));
+        expect(dispatcher.dispatchMany).toHaveBeenCalledTimes(3);
+        expect(loaded.domainEvents).toHaveLength(0);
+    });
+
+    it('should keep the events of failed writes pending', async () => {
+        const repository = new InMemoryNoteRepository({ eventDispatcher: dispatcher });
+        unwrap(await repository.create(note('n1', 'Stored')));
+        const duplicate = pinned('n1');
+        const missing = pinned('n2');
+
+        expect(isErr(await repository.create(duplicate))).toBe(true);
+        expect(isErr(await repository.update(missing))).toBe(true);
+        expect(isErr(await repository.delete(missing))).toBe(true);
+
+        expect(dispatcher.dispatchMany).not.toHaveBeenCalled();
+        expect(duplicate.domainEvents).toHaveLength(1);
+        expect(missing.domainEvents).toHaveLength(1);
+    });
+
+    it('should log a rejected dispatch and keep the write', async () => {
+        const logger = createMockLogger();
+        dispatcher.dispatchMany = vi.fn(async () => { throw new Error('bus down'); });
+        const repository = new InMemoryNoteRepository({
+            eventDispatcher: dispatcher,
+            logger: logger as unknown as ILogger,
+        });
+
+        const result = await repository.create(pinned('n1'));
+
+        expect(isErr(result)).toBe(false);
+        expect(await repository.exists('n1')).toBe(true);
+        expect(logger.logs.some((entry) => entry.level === 'error')).toBe(true);
+    });
+
+    it('should not publish when publishDomainEvents is false', async () => {
+        const repository = new InMemoryNoteRepository({
+            eventDispatcher: dispatcher,
+            publishDomainEvents: false,
+        });
+        const created = pinned('n1');
+
+        unwrap(await repository.create(created));
+
+        expect(dispatcher.dispatchMany).not.toHaveBeenCalled();
+        expect(created.domainEvents).toHaveLength(1);
+    });
+});
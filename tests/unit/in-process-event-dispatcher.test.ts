@@ -0,0 +1,211 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * IN-PROCESS EVENT DISPATCHER UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    EventDispatchError,
+    InProcessEventDispatcher,
+    WILDCARD_EVENT_TYPE,
+} from '../../src/infrastructure/events/in-process.event-dispatcher';
+import {
+    EntityCreatedEvent,
+    EntityDeletedEvent,
+    type IDomainEvent,
+    type IDomainEventHandler,
+} from '../../src/domain/events/domain-event';
+import type { ILogger } from '../../src/application/ports/logger.port';
+import { createMockLogger } from '../integration/setup';
+
+/**
+ * Handler that records the events it receives
+ */
+function createRecordingHandler(
+    eventType: string,
+    log: string[],
+    name: string,
+    behaviour: () => Promise<void> = async () => { }
+): IDomainEventHandler<IDomainEvent> {
+    return {
+        eventType,
+        handle: async (event) => {
+            log.push(`${name}:start:${event.eventType}`);
+            await behaviour();
+            log.push(`${name}:end:${event.eventType}`);
+        },
+    };
+}
+
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 5));
+
+describe('InProcessEventDispatcher', () => {
+    let logger: ReturnType<typeof createMockLogger>;
+    let dispatcher: InProcessEventDispatcher;
+    let log: string[];
+
+    beforeEach(() => {
+        logger = createMockLogger();
+        dispatcher = new InProcessEventDispatcher(logger as unknown as ILogger);
+        log = [];
+    });
+
+    describe('dispatch', () => {
+        it('should invoke handlers registered for the event type', async () => {
+            dispatcher.register(createRecordingHandler('entity.created', log, 'a'));
+            dispatcher.register(createRecordingHandler('entity.deleted', log, 'b'));
+
+            await dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}));
+
+            expect(log).toEqual(['a:start:entity.created', 'a:end:entity.created']);
+        });
+
+        it('should invoke wildcard handlers for every event', async () => {
+            dispatcher.register(createRecordingHandler(WILDCARD_EVENT_TYPE, log, 'all'));
+
+            await dispatcher.dispatchMany([
+                new EntityCreatedEvent('agg-1', 'User', {}),
+                new EntityDeletedEvent('agg-1', 'User'),
+            ]);
+
+            expect(log).toEqual([
+                'all:start:entity.created',
+                'all:end:entity.created',
+                'all:start:entity.deleted',
+                'all:end:entity.deleted',
+            ]);
+        });
+
+        it('should run sequential handlers one after another', async () => {
+            dispatcher.register(createRecordingHandler('entity.created', log, 'a', tick));
+            dispatcher.register(createRecordingHandler('entity.created', log, 'b', tick));
+
+            await dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}));
+
+            expect(log).toEqual([
+                'a:start:entity.created',
+                'a:end:entity.created',
+                'b:start:entity.created',
+                'b:end:entity.created',
+            ]);
+        });
+
+        it('should run parallel handlers concurrently', async () => {
+            dispatcher.register(createRecordingHandler('entity.created', log, 'a', tick), {
+                mode: 'parallel',
+            });
+            dispatcher.register(createRecordingHandler('entity.created', log, 'b', tick), {
+                mode: 'parallel',
+            });
+
+            await dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}));
+
+            expect(log.slice(0, 2)).toEqual([
+                'a:start:entity.created',
+                'b:start:entity.created',
+            ]);
+            expect(log).toHaveLength(4);
+        });
+
+        it('should isolate a failing handler from the others', async () => {
+            dispatcher.register(
+                createRecordingHandler('entity.created', log, 'failing', async () => {
+                    throw new Error('boom');
+                })
+            );
+            dispatcher.register(createRecordingHandler('entity.created', log, 'ok'));
+
+            await expect(
+                dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}))
+            ).resolves.toBeUndefined();
+
+            expect(log).toContain('ok:end:entity.created');
+            expect(logger.logs.some((entry) => entry.level === 'error')).toBe(true);
+            expect(logger.logs.some((entry) => entry.level === 'warn')).toBe(true);
+        });
+
+        it('should log each dispatch', async () => {
+            await dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}));
+
+            expect(logger.logs).toContainEqual(
+                expect.objectContaining({
+                    level: 'debug',
+                    message: 'Dispatching entity.created',
+                })
+            );
+        });
+    });
+
+    describe('rejectOnHandlerFailure', () => {
+        const failing = async () => {
+            throw new Error('boom');
+        };
+
+        beforeEach(() => {
+            dispatcher = new InProcessEventDispatcher(logger as unknown as ILogger, {
+                rejectOnHandlerFailure: true,
+            });
+        });
+
+        it('should reject once every handler has run', async () => {
+            dispatcher.register(createRecordingHandler('entity.created', log, 'failing', failing));
+            dispatcher.register(createRecordingHandler('entity.created', log, 'ok'));
+
+            await expect(
+                dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}))
+            ).rejects.toBeInstanceOf(EventDispatchError);
+
+            expect(log).toContain('ok:end:entity.created');
+        });
+
+        it('should report failed handlers by their registration name', async () => {
+            dispatcher.register(createRecordingHandler('entity.created', log, 'a', failing), {
+                name: 'SendWelcomeEmail',
+            });
+            dispatcher.register(createRecordingHandler('entity.created', log, 'b', failing));
+
+            const error = await dispatcher
+                .dispatch(new EntityCreatedEvent('agg-1', 'User', {}))
+                .catch((e: unknown) => e);
+
+            expect((error as EventDispatchError).failedHandlers).toEqual([
+                'SendWelcomeEmail',
+                'entity.created handler #2',
+            ]);
+        });
+
+        it('should dispatch every event before reporting failures', async () => {
+            dispatcher.register(createRecordingHandler('entity.created', log, 'failing', failing));
+            dispatcher.register(createRecordingHandler('entity.deleted', log, 'ok'));
+
+            const created = new EntityCreatedEvent('agg-1', 'User', {});
+            const error = await dispatcher
+                .dispatchMany([created, new EntityDeletedEvent('agg-1', 'User')])
+                .catch((e: unknown) => e);
+
+            expect(error).toBeInstanceOf(EventDispatchError);
+            expect((error as EventDispatchError).eventIds).toEqual([created.eventId]);
+            expect(log).toContain('ok:end:entity.deleted');
+        });
+    });
+
+    describe('registration', () => {
+        it('should report registered handlers including wildcards', () => {
+            expect(dispatcher.hasHandlers('entity.created')).toBe(false);
+
+            dispatcher.register(createRecordingHandler(WILDCARD_EVENT_TYPE, log, 'all'));
+
+            expect(dispatcher.hasHandlers('entity.created')).toBe(true);
+        });
+
+        it('should stop invoking an unregistered handler', async () => {
+            const handler = createRecordingHandler('entity.created', log, 'a');
+            dispatcher.register(handler).unregister(handler);
+
+            await dispatcher.dispatch(new EntityCreatedEvent('agg-1', 'User', {}));
+
+            expect(log).toEqual([]);
+        });
+    });
+});
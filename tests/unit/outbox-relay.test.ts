@@ -0,0 +1,253 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * OUTBOX RELAY UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    OutboxRelay,
+    UndeliverableEventError,
+    createRegistryDeserializer,
+    rehydrateOutboxMessage,
+} from '../../src/infrastructure/events/outbox-relay';
+import {
+    DomainEventRegistry,
+    createDomainEventRegistry,
+} from '../../src/domain/events/event-registry';
+import type {
+    IOutboxStore,
+    OutboxMessage,
+    OutboxStatus,
+} from '../../src/application/ports/outbox.port';
+import {
+    EntityCreatedEvent,
+    serializeDomainEvent,
+    type AnyDomainEvent,
+    type IDomainEventDispatcher,
+} from '../../src/domain/events/domain-event';
+import type { ILogger } from '../../src/application/ports/logger.port';
+import { createMockLogger } from '../integration/setup';
+
+interface StoredMessage extends OutboxMessage {
+    status: OutboxStatus;
+    nextAttemptAt: Date;
+    lastError: string | null;
+}
+
+/**
+ * In-memory outbox store for exercising the relay
+ */
+class FakeOutboxStore implements IOutboxStore {
+    readonly messages: StoredMessage[] = [];
+
+    add(event: EntityCreatedEvent): StoredMessage {
+        const message: StoredMessage = {
+            id: `row-${this.messages.length + 1}`,
+            eventId: event.eventId,
+            eventType: event.eventType,
+            aggregateId: event.aggregateId,
+            version: event.version,
+            payload: serializeDomainEvent(event),
+            occurredAt: event.occurredAt,
+            attempts: 0,
+            status: 'pending',
+            nextAttemptAt: new Date(0),
+            lastError: null,
+        };
+        this.messages.push(message);
+        return message;
+    }
+
+    async fetchPending(limit: number, now: Date): Promise<OutboxMessage[]> {
+        return this.messages
+            .filter((m) => m.status === 'pending' && m.nextAttemptAt <= now)
+            .slice(0, limit)
+            .map((m) => ({ ...m }));
+    }
+
+    async markProcessed(id: string): Promise<void> {
+        this.find(id).status = 'processed';
+    }
+
+    async markFailed(id: string, error: string, nextAttemptAt: Date): Promise<void> {
+        const message = this.find(id);
+        message.attempts++;
+        message.lastError = error;
+        message.nextAttemptAt = nextAttemptAt;
+    }
+
+    async markDeadLettered(id: string, error: string): Promise<void> {
+        const message = this.find(id);
+        message.attempts++;
+        message.lastError = error;
+        message.status = 'dead';
+    }
+
+    private find(id: string): StoredMessage {
+        const message = this.messages.find((m) => m.id === id);
+        if (!message) {
+            throw new Error(`Unknown outbox row ${id}`);
+        }
+        return message;
+    }
+}
+
+/**
+ * Dispatcher that fails a configurable number of times
+ */
+function createDispatcher(failures: number) {
+    const delivered: AnyDomainEvent[] = [];
+    let remaining = failures;
+
+    const dispatcher: IDomainEventDispatcher = {
+        dispatch: async (event) => {
+            if (remaining > 0) {
+                remaining--;
+                throw new Error('handler unavailable');
+            }
+            delivered.push(event);
+        },
+        dispatchMany: async () => { },
+    };
+
+    return { dispatcher, delivered };
+}
+
+describe('OutboxRelay', () => {
+    let store: FakeOutboxStore;
+    let logger: ILogger;
+
+    beforeEach(() => {
+        store = new FakeOutboxStore();
+        logger = createMockLogger() as unknown as ILogger;
+    });
+
+    it('should deliver pending messages and mark them processed', async () => {
+        const { dispatcher, delivered } = createDispatcher(0);
+        const event = new EntityCreatedEvent('agg-1', 'User', { name: 'Ada' });
+        store.add(event);
+
+        const relay = new OutboxRelay(store, dispatcher, logger);
+        const fetched = await relay.processBatch();
+
+        expect(fetched).toBe(1);
+        expect(store.messages[0]?.status).toBe('processed');
+        expect(delivered[0]).toMatchObject({
+            eventId: event.eventId,
+            eventType: 'entity.created',
+            aggregateId: 'agg-1',
+            payload: { name: 'Ada' },
+        });
+        expect(delivered[0]?.occurredAt).toEqual(event.occurredAt);
+    });
+
+    it('should schedule a retry with exponential backoff', async () => {
+        const { dispatcher } = createDispatcher(2);
+        store.add(new EntityCreatedEvent('agg-1', 'User', {}));
+        const relay = new OutboxRelay(store, dispatcher, logger, { baseBackoffMs: 100 });
+        const now = new Date('2024-01-01T00:00:00.000Z');
+
+        await relay.processBatch(now);
+        expect(store.messages[0]?.nextAttemptAt.getTime()).toBe(now.getTime() + 100);
+
+        // Not due yet
+        expect(await relay.processBatch(now)).toBe(0);
+
+        const later = new Date(now.getTime() + 100);
+        await relay.processBatch(later);
+        expect(store.messages[0]?.nextAttemptAt.getTime()).toBe(later.getTime() + 200);
+        expect(store.messages[0]?.attempts).toBe(2);
+
+        await relay.processBatch(new Date(later.getTime() + 200));
+        expect(store.messages[0]?.status).toBe('processed');
+    });
+
+    it('should dead-letter a message after the maximum attempts', async () => {
+        const { dispatcher } = createDispatcher(Infinity);
+        store.add(new EntityCreatedEvent('agg-1', 'User', {}));
+        const relay = new OutboxRelay(store, dispatcher, logger, {
+            maxAttempts: 2,
+            baseBackoffMs: 0,
+        });
+
+        await relay.processBatch();
+        await relay.processBatch();
+
+        expect(store.messages[0]?.status).toBe('dead');
+        expect(store.messages[0]?.lastError).toBe('handler unavailable');
+    });
+
+    it('should dead-letter messages that cannot be deserialized', async () => {
+        const { dispatcher, delivered } = createDispatcher(0);
+        store.add(new EntityCreatedEvent('agg-1', 'User', {}));
+        const relay = new OutboxRelay(store, dispatcher, logger, {
+            deserialize: () => {
+                throw new UndeliverableEventError('Unknown event type');
+            },
+        });
+
+        await relay.processBatch();
+
+        expect(delivered).toHaveLength(0);
+        expect(store.messages[0]?.status).toBe('dead');
+        expect(store.messages[0]?.attempts).toBe(1);
+    });
+
+    it('should restore registered event classes through the registry', async () => {
+        const { dispatcher, delivered } = createDispatcher(0);
+        store.add(new EntityCreatedEvent('agg-1', 'User', { name: 'Ada' }));
+        const relay = new OutboxRelay(store, dispatcher, logger, {
+            deserialize: createRegistryDeserializer(createDomainEventRegistry()),
+        });
+
+        await relay.processBatch();
+
+        expect(delivered[0]).toBeInstanceOf(EntityCreatedEvent);
+        expect((delivered[0] as EntityCreatedEvent).entityType).toBe('User');
+    });
+
+    it('should dead-letter events missing from the registry', async () => {
+        const { dispatcher } = createDispatcher(0);
+        store.add(new EntityCreatedEvent('agg-1', 'User', {}));
+        const relay = new OutboxRelay(store, dispatcher, logger, {
+            deserialize: createRegistryDeserializer(new DomainEventRegistry()),
+        });
+
+        await relay.processBatch();
+
+        expect(store.messages[0]?.status).toBe('dead');
+    });
+
+    it('should poll in the background until stopped', async () => {
+        const { dispatcher, delivered } = createDispatcher(0);
+        store.add(new EntityCreatedEvent('agg-1', 'User', {}));
+        const relay = new OutboxRelay(store, dispatcher, logger, { pollIntervalMs: 10 });
+
+        relay.start();
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        await relay.stop();
+
+        expect(delivered).toHaveLength(1);
+    });
+});
+
+describe('rehydrateOutboxMessage', () => {
+    it('should restore the serialized event fields', () => {
+        const store = new FakeOutboxStore();
+        const event = new EntityCreatedEvent('agg-9', 'Post', { title: 'Hello' });
+        const message = store.add(event);
+
+        const rehydrated = rehydrateOutboxMessage(message);
+
+        expect(rehydrated).toMatchObject({
+            eventId: event.eventId,
+            eventType: 'entity.created',
+            aggregateId: 'agg-9',
+            version: 1,
+            entityType: 'Post',
+            payload: { title: 'Hello' },
+        });
+        expect(rehydrated.occurredAt).toBeInstanceOf(Date);
+    });
+});
@@ -0,0 +1,78 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PAGINATION LINKS UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildPaginationLinks,
+    formatLinkHeader,
+} from '../../src/presentation/mappers/pagination.mapper';
+import type { PaginationMeta } from '../../src/application/dtos/pagination.dto';
+
+const meta = (overrides: Partial<PaginationMeta> = {}): PaginationMeta => ({
+    nextCursor: null,
+    prevCursor: null,
+    hasNextPage: false,
+    hasPrevPage: false,
+    count: 20,
+    ...overrides,
+});
+
+describe('buildPaginationLinks', () => {
+    it('should build cursor links that keep the other query parameters', () => {
+        const url = new URL('https://api.example.com/api/v1/posts?status=draft&limit=20&cursor=abc');
+
+        const links = buildPaginationLinks(url, meta({
+            nextCursor: 'next',
+            prevCursor: 'prev',
+            hasNextPage: true,
+            hasPrevPage: true,
+        }));
+
+        expect(links).toEqual({
+            self: url.href,
+            first: 'https://api.example.com/api/v1/posts?status=draft&limit=20',
+            next: 'https://api.example.com/api/v1/posts?status=draft&limit=20&cursor=next',
+            prev: 'https://api.example.com/api/v1/posts?status=draft&limit=20&cursor=prev',
+            last: null,
+        });
+    });
+
+    it('should build page links in offset mode', () => {
+        const url = new URL('https://api.example.com/users?page=2&includeTotal=true');
+
+        const links = buildPaginationLinks(url, meta({
+            hasNextPage: true,
+            hasPrevPage: true,
+            page: 2,
+            total: 100,
+            totalPages: 5,
+        }));
+
+        expect(links).toMatchObject({
+            first: 'https://api.example.com/users?page=1&includeTotal=true',
+            next: 'https://api.example.com/users?page=3&includeTotal=true',
+            prev: 'https://api.example.com/users?page=1&includeTotal=true',
+            last: 'https://api.example.com/users?page=5&includeTotal=true',
+        });
+    });
+});
+
+describe('formatLinkHeader', () => {
+    it('should list the available relations', () => {
+        const header = formatLinkHeader({
+            self: 'https://api.example.com/posts',
+            first: 'https://api.example.com/posts',
+            next: 'https://api.example.com/posts?cursor=n',
+            prev: null,
+            last: null,
+        });
+
+        expect(header).toBe(
+            '<https://api.example.com/posts>; rel="first", ' +
+            '<https://api.example.com/posts?cursor=n>; rel="next"'
+        );
+    });
+});
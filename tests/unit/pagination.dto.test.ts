@@ -0,0 +1,37 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * PAGINATION DTO UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from 'vitest';
+import { paginationRequestSchema } from '../../src/application/dtos/pagination.dto';
+
+describe('paginationRequestSchema', () => {
+    it('should coerce query string parameters', () => {
+        expect(paginationRequestSchema.parse({ limit: '5', page: '2', includeTotal: 'true' }))
+            .toEqual({ limit: 5, page: 2, includeTotal: true });
+    });
+
+    it('should default the limit and leave the paging mode to the cursor', () => {
+        expect(paginationRequestSchema.parse({ cursor: 'abc' })).toEqual({ limit: 20, cursor: 'abc' });
+    });
+
+    it('should reject a cursor and a page together', () => {
+        const result = paginationRequestSchema.safeParse({ cursor: 'abc', page: '2' });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues).toEqual([
+                expect.objectContaining({
+                    path: ['page'],
+                    message: 'Use either cursor or page, not both',
+                }),
+            ]);
+        }
+    });
+
+    it('should reject pages below 1', () => {
+        expect(paginationRequestSchema.safeParse({ page: '0' }).success).toBe(false);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * QUERY FILTER UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFilter, type Filter } from '../../src/domain/repositories/filter';
+import {
+    InvalidFilterError,
+    UnsupportedFilterError,
+} from '../../src/domain/errors/domain.error';
+import { toPrismaWhere } from '../../src/infrastructure/database/filters/prisma.filter';
+import { matchesFilter } from '../../src/domain/repositories/filter-matcher';
+import { toFirestoreFilter } from '../../src/infrastructure/database/filters/firestore.filter';
+import { toMongoFilter } from '../../src/infrastructure/database/filters/mongo.filter';
+
+interface Post {
+    title: string;
+    status: string;
+    views: number;
+    publishedAt: Date | null;
+}
+
+const post = (overrides: Partial<Post> = {}): Record<string, unknown> => ({
+    title: 'How to test',
+    status: 'published',
+    views: 10,
+    publishedAt: new Date('2024-01-10'),
+    ...overrides,
+});
+
+describe('parseFilter', () => {
+    it('should treat plain values as equality and null as isNull', () => {
+        expect(parseFilter<Post>({ status: 'draft', publishedAt: null })).toEqual({
+            kind: 'and',
+            nodes: [
+                { kind: 'condition', field: 'status', operator: 'eq', value: 'draft' },
+                { kind: 'condition', field: 'publishedAt', operator: 'isNull', value: true },
+            ],
+        });
+    });
+
+    it('should keep dates as values', () => {
+        const date = new Date('2024-01-01');
+
+        expect(parseFilter<Post>({ publishedAt: date })).toEqual({
+            kind: 'condition', field: 'publishedAt', operator: 'eq', value: date,
+        });
+    });
+
+    it('should reject unknown operators and mistyped operands', () => {
+        expect(() => parseFilter({ views: { between: [1, 2] } } as Filter<Post>))
+            .toThrow(InvalidFilterError);
+        expect(() => parseFilter<Post>({ status: { in: 'draft' as never } }))
+            .toThrow("'in' on 'status' expects an array");
+    });
+});
+
+describe('toPrismaWhere', () => {
+    it('should translate operators and groups', () => {
+        const where = toPrismaWhere(parseFilter<Post>({
+            views: { gte: 5, lt: 100 },
+            publishedAt: { isNull: false },
+            or: [{ title: { contains: 'test' } }, { status: { notIn: ['draft'] } }],
+            not: { status: 'archived' },
+        }));
+
+        expect(where).toEqual({
+            AND: [
+                { views: { gte: 5 } },
+                { views: { lt: 100 } },
+                { publishedAt: { not: null } },
+                { OR: [{ title: { contains: 'test' } }, { status: { notIn: ['draft'] } }] },
+                { NOT: { status: 'archived' } },
+            ],
+        });
+    });
+});
+
+describe('toMongoFilter', () => {
+    it('should push negations down and exclude missing values from them', () => {
+        const query = toMongoFilter(parseFilter<Post>({
+            not: { or: [{ status: 'archived' }, { publishedAt: { isNull: true } }] },
+        }));
+
+        expect(query).toEqual({
+            $and: [
+                { $and: [{ status: { $ne: null } }, { $nor: [{ status: 'archived' }] }] },
+                { publishedAt: { $ne: null } },
+            ],
+        });
+    });
+});
+
+describe('matchesFilter', () => {
+    const matches = (filter: Filter<Post>, record = post()): boolean =>
+        matchesFilter(record, parseFilter(filter));
+
+    it('should evaluate comparison operators', () => {
+        expect(matches({ views: { gt: 5, lte: 10 } })).toBe(true);
+        expect(matches({ views: { in: [1, 2] } })).toBe(false);
+        expect(matches({ status: { notIn: ['draft'] } })).toBe(true);
+        expect(matches({ publishedAt: { lt: new Date('2024-02-01') } })).toBe(true);
+    });
+
+    it('should evaluate string operators', () => {
+        expect(matches({ title: { startsWith: 'How' } })).toBe(true);
+        expect(matches({ title: { contains: 'test' } })).toBe(true);
+        expect(matches({ title: { contains: 'prod' } })).toBe(false);
+    });
+
+    it('should never match comparisons against missing values', () => {
+        const draft = post({ publishedAt: null });
+
+        expect(matches({ publishedAt: { lt: new Date() } }, draft)).toBe(false);
+        expect(matches({ publishedAt: { isNull: true } }, draft)).toBe(true);
+    });
+
+    it('should not match negated comparisons against missing values either', () => {
+        const draft = post({ publishedAt: null });
+
+        expect(matches({ not: { publishedAt: { lt: new Date() } } }, draft)).toBe(false);
+        expect(matches({ not: { publishedAt: { isNull: false } } }, draft)).toBe(true);
+        expect(matches({
+            not: { or: [{ publishedAt: { lt: new Date() } }, { status: 'draft' }] },
+        }, draft)).toBe(false);
+        expect(matches({
+            or: [{ not: { publishedAt: { lt: new Date() } } }, { status: 'published' }],
+        }, draft)).toBe(true);
+    });
+
+    it('should evaluate logical groups', () => {
+        expect(matches({ or: [{ status: 'draft' }, { views: { gt: 5 } }] })).toBe(true);
+        expect(matches({ and: [{ status: 'draft' }, { views: { gt: 5 } }] })).toBe(false);
+        expect(matches({ not: { status: 'draft' } })).toBe(true);
+    });
+});
+
+describe('toFirestoreFilter', () => {
+    const translate = (filter: Filter<Post>) => toFirestoreFilter(parseFilter(filter));
+
+    it('should translate supported filters', () => {
+        expect(translate({})).toBeNull();
+        expect(translate({
+            views: { gte: 5 },
+            title: { startsWith: 'How' },
+            or: [{ status: 'draft' }, { not: { views: 3 } }],
+        })).not.toBeNull();
+    });
+
+    it('should reject substring search', () => {
+        expect(() => translate({ title: { contains: 'test' } })).toThrow(UnsupportedFilterError);
+    });
+
+    it('should reject more than one inequality', () => {
+        expect(() => translate({ status: { notIn: ['draft'] }, not: { title: 'x' } }))
+            .toThrow("only one '!=' or 'not-in' condition per query");
+    });
+
+    it('should reject not-in combined with in or or', () => {
+        expect(() => translate({ status: { notIn: ['draft'] }, views: { in: [1] } }))
+            .toThrow("'not-in' cannot be combined");
+    });
+
+    it('should enforce the disjunction limits', () => {
+        const values = Array.from({ length: 11 }, (_, index) => `s${index}`);
+
+        expect(() => translate({ status: { notIn: values } }))
+            .toThrow("'not-in' on 'status' needs between 1 and 10 values");
+    });
+});
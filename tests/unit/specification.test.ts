@@ -0,0 +1,123 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * SPECIFICATION UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Entity, type EntityProps } from '../../src/domain/entities/base.entity';
+import type { Filter } from '../../src/domain/repositories/filter';
+import { Specification, specification } from '../../src/domain/specifications/specification';
+import {
+    InMemoryBaseRepository,
+    type InMemoryRecord,
+} from '../../src/infrastructure/database/repositories/in-memory-base.repository';
+
+interface PostProps extends EntityProps {
+    authorId: string;
+    published: boolean;
+    publishedAt: Date | null;
+}
+
+class Post extends Entity<PostProps> {
+    toObject(): PostProps {
+        return { ...this.props };
+    }
+}
+
+class PostRepository extends InMemoryBaseRepository<Post, PostProps> {
+    protected readonly entityName = 'Post';
+
+    protected toDomain(record: InMemoryRecord<PostProps>): Post {
+        return new Post(record);
+    }
+}
+
+class PublishedSince extends Specification<PostProps> {
+    constructor(private readonly since: Date) {
+        super();
+    }
+
+    toFilter(): Filter<PostProps> {
+        return { published: true, publishedAt: { gte: this.since } };
+    }
+}
+
+class WrittenBy extends Specification<PostProps> {
+    constructor(private readonly authorId: string) {
+        super();
+    }
+
+    toFilter(): Filter<PostProps> {
+        return { authorId: this.authorId };
+    }
+}
+
+const since = new Date('2024-01-01');
+
+function post(id: string, authorId: string, publishedAt: Date | null): Post {
+    return new Post({ id, authorId, published: publishedAt !== null, publishedAt });
+}
+
+describe('Specification', () => {
+    const recent = post('p1', 'ada', new Date('2024-01-15'));
+    const old = post('p2', 'ada', new Date('2023-06-01'));
+    const draft = post('p3', 'bob', null);
+
+    it('should check entities and plain props', () => {
+        const spec = new PublishedSince(since);
+
+        expect(spec.isSatisfiedBy(recent)).toBe(true);
+        expect(spec.isSatisfiedBy(old.toObject())).toBe(false);
+        expect(spec.isSatisfiedBy(draft)).toBe(false);
+    });
+
+    it('should compose with and, or and not', () => {
+        const byAda = new WrittenBy('ada');
+        const recentByAda = new PublishedSince(since).and(byAda);
+        const draftOrRecent = new PublishedSince(since).or(specification({ published: false }));
+
+        expect(recentByAda.isSatisfiedBy(recent)).toBe(true);
+        expect(recentByAda.isSatisfiedBy(old)).toBe(false);
+        expect(draftOrRecent.isSatisfiedBy(draft)).toBe(true);
+        expect(byAda.not().isSatisfiedBy(draft)).toBe(true);
+    });
+
+    it('should compile to a filter tree', () => {
+        expect(new WrittenBy('ada').and(new WrittenBy('bob').not()).toFilter()).toEqual({
+            and: [{ authorId: 'ada' }, { not: { authorId: 'bob' } }],
+        });
+    });
+
+    it('should re-evaluate time-relative rules on every use', () => {
+        let cutoff = new Date('2024-01-01');
+        const spec = specification<PostProps>(() => ({ publishedAt: { gte: cutoff } }));
+
+        expect(spec.isSatisfiedBy(recent)).toBe(true);
+        cutoff = new Date('2024-02-01');
+        expect(spec.isSatisfiedBy(recent)).toBe(false);
+    });
+
+    describe('repository queries', () => {
+        let repository: PostRepository;
+
+        beforeEach(async () => {
+            repository = new PostRepository({ publishDomainEvents: false });
+            for (const entity of [recent, old, draft]) {
+                await repository.create(entity);
+            }
+        });
+
+        it('should find and count entities by specification', async () => {
+            const spec = new PublishedSince(since).or(new WrittenBy('bob'));
+
+            const found = await repository.findBySpec(spec, {
+                orderBy: { field: 'id', direction: 'asc' },
+            });
+
+            expect(found.map((p) => p.id)).toEqual(['p1', 'p3']);
+            expect(await repository.countBySpec(spec)).toBe(2);
+            expect(await repository.countBySpec(spec.not())).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * ═══════════════════════════════════════════════════════════════════════════
+ * UNIT OF WORK UNIT TESTS
+ * ═══════════════════════════════════════════════════════════════════════════
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { DocumentData, DocumentReference, Transaction } from 'firebase-admin/firestore';
+import { AggregateRoot, type EntityProps } from '../../src/domain/entities/base.entity';
+import {
+    BaseDomainEvent,
+    type AnyDomainEvent,
+    type IDomainEventDispatcher,
+} from '../../src/domain/events/domain-event';
+import {
+    EntityAlreadyExistsError,
+    EntityNotFoundError,
+} from '../../src/domain/errors/domain.error';
+import {
+    InMemoryBaseRepository,
+    type InMemoryRecord,
+} from '../../src/infrastructure/database/repositories/in-memory-base.repository';
+import { InMemoryUnitOfWork } from '../../src/infrastructure/database/in-memory/in-memory-unit-of-work';
+import {
+    runUnitOfWork,
+    type TransactionScope,
+} from '../../src/infrastructure/database/repositories/unit-of-work';
+import { AggregateEventPublisher } from '../../src/infrastructure/database/repositories/aggregate-event.publisher';
+import { FirestoreTransaction } from '../../src/infrastructure/database/firebase/firestore-transaction';
+import { err, isErr, ok, unwrap } from '../../src/shared/utils/result';
+
+class ItemAddedEvent extends BaseDomainEvent {
+    public readonly eventType = 'item.added';
+}
+
+interface ItemProps extends EntityProps {
+    name: string;
+}
+
+class Item extends AggregateRoot<ItemProps> {
+    static add(id: string, name: string): Item {
+        const item = new Item({ id, name });
+        item.addDomainEvent(new ItemAddedEvent(id, {}));
+        return item;
+    }
+
+    toObject(): ItemProps {
+        return { ...this.props };
+    }
+}
+
+class InMemoryItemRepository extends InMemoryBaseRepository<Item, ItemProps> {
+    protected readonly entityName = 'Item';
+
+    protected toDomain(record: InMemoryRecord<ItemProps>): Item {
+        return new Item(record);
+    }
+}
+
+describe('InMemoryUnitOfWork', () => {
+    let dispatched: AnyDomainEvent[];
+    let orders: InMemoryItemRepository;
+    let invoices: InMemoryItemRepository;
+    let unitOfWork: InMemoryUnitOfWork<{
+        orders: InMemoryItemRepository;
+        invoices: InMemoryItemRepository;
+    }>;
+
+    beforeEach(() => {
+        dispatched = [];
+        const eventDispatcher: IDomainEventDispatcher = {
+            dispatch: async (event) => { dispatched.push(event); },
+            dispatchMany: async (events) => { dispatched.push(...events); },
+        };
+        orders = new InMemoryItemRepository({ eventDispatcher });
+        invoices = new InMemoryItemRepository({ eventDispatcher });
+        unitOfWork = new InMemoryUnitOfWork({ orders, invoices });
+    });
+
+    it('should commit writes to every repository and publish events afterwards', async () => {
+        const result = await unitOfWork.execute(async (repositories) => {
+            unwrap(await repositories.orders.create(Item.add('o1', 'Order')));
+            unwrap(await repositories.invoices.create(Item.add('i1', 'Invoice')));
+            expect(dispatched).toEqual([]);
+            return ok('done');
+        });
+
+        expect(unwrap(result)).toBe('done');
+        expect(await orders.exists('o1')).toBe(true);
+        expect(await invoices.exists('i1')).toBe(true);
+        expect(dispatched.map((event) => event.aggregateId).sort()).toEqual(['i1', 'o1']);
+    });
+
+    it('should roll back every repository when the work throws', async () => {
+        const failure = new Error('payment declined');
+
+        await expect(unitOfWork.execute(async (repositories) => {
+            unwrap(await repositories.orders.create(Item.add('o1', 'Order')));
+            throw failure;
+        })).rejects.toBe(failure);
+
+        expect(await orders.exists('o1')).toBe(false);
+        expect(dispatched).toEqual([]);
+    });
+
+    it('should roll back and return the result when the work returns an error', async () => {
+        const order = Item.add('o1', 'Order');
+
+        const result = await unitOfWork.execute(async (repositories) => {
+            unwrap(await repositories.orders.create(order));
+            const invoice = await repositories.invoices.findById('missing');
+            return isErr(invoice) ? invoice : ok(invoice.value);
+        });
+
+        expect(isErr(result) && result.error).toBeInstanceOf(EntityNotFoundError);
+        expect(await orders.exists('o1')).toBe(false);
+        expect(order.domainEvents).toHaveLength(1);
+    });
+});
+
+describe('runUnitOfWork', () => {
+    const transaction = async <T>(body: (tx: null) => Promise<T>): Promise<T> => body(null);
+
+    it('should defer event publication to the commit and drop it on rollback', async () => {
+        const dispatched: AnyDomainEvent[] = [];
+        const eventDispatcher: IDomainEventDispatcher = {
+            dispatch: async (event) => { dispatched.push(event); },
+            dispatchMany: async (events) => { dispatched.push(...events); },
+        };
+        const publish = async (item: Item, transactionScope: TransactionScope): Promise<void> => {
+            await new AggregateEventPublisher({ eventDispatcher, transactionScope }).publish(item);
+            expect(dispatched).toEqual([]);
+        };
+
+        const rolledBack = Item.add('a', 'Rolled back');
+        await runUnitOfWork(transaction, async (_, scope) => {
+            await publish(rolledBack, scope);
+            return err('conflict');
+        });
+        expect(dispatched).toEqual([]);
+        expect(rolledBack.domainEvents).toHaveLength(1);
+
+        await runUnitOfWork(transaction, async (_, scope) => {
+            await publish(Item.add('b', 'Committed'), scope);
+            return ok(undefined);
+        });
+        expect(dispatched.map((event) => event.aggregateId)).toEqual(['b']);
+    });
+});
+
+describe('FirestoreTransaction', () => {
+    type Ref = DocumentReference<DocumentData>;
+    const ref = (id: string): Ref => ({ id, path: `items/${id}` }) as Ref;
+
+    /**
+     * Transaction over stored documents that, like Firestore, rejects reads after writes
+     */
+    function createTransaction(stored: Record<string, DocumentData>) {
+        const applied: string[] = [];
+        const read = (doc: Ref) => {
+            if (applied.length > 0) {
+                throw new Error('Firestore transactions require all reads before all writes');
+            }
+            const data = stored[doc.id];
+            return {
+                id: doc.id,
+                ref: doc,
+                exists: data !== undefined,
+                get: (field: string) => data?.[field],
+                data: () => data,
+            };
+        };
+        const transaction = {
+            get: async (doc: Ref) => read(doc),
+            getAll: async (...docs: Ref[]) => docs.map(read),
+            create: (doc: Ref) => applied.push(`create ${doc.id}`),
+            update: (doc: Ref) => applied.push(`update ${doc.id}`),
+            delete: (doc: Ref) => applied.push(`delete ${doc.id}`),
+        };
+        return { tx: new FirestoreTransaction(transaction as unknown as Transaction), applied };
+    }
+
+    it('should stage writes until applied, so reads may follow them', async () => {
+        const { tx, applied } = createTransaction({ a: { version: 1 }, b: { version: 3 } });
+
+        tx.update(ref('a'), { version: 2 }, 'Item');
+        const [b] = await tx.getAll([ref('b')]);
+        tx.delete(b!.ref, 'Item');
+        expect(applied).toEqual([]);
+
+        tx.applyWrites();
+        expect(applied).toEqual(['update a', 'delete b']);
+    });
+
+    it('should read documents as left by the staged writes', async () => {
+        const { tx } = createTransaction({ a: { name: 'A', version: 1 } });
+
+        tx.update(ref('a'), { version: 2 }, 'Item');
+        tx.create(ref('c'), { name: 'C', version: 1 }, 'Item');
+
+        expect((await tx.get(ref('a'))).data()).toEqual({ name: 'A', version: 2 });
+        expect((await tx.get(ref('c'))).get('name')).toBe('C');
+
+        tx.delete(ref('a'), 'Item');
+        expect((await tx.get(ref('a'))).exists).toBe(false);
+    });
+
+    it('should describe commit failures of its writes as domain errors', () => {
+        const { tx } = createTransaction({});
+        tx.update(ref('a'), { version: 2 }, 'Item');
+        tx.create(ref('c'), { version: 1 }, 'Item');
+
+        expect(tx.commitFailure({ code: 6 })).toBeInstanceOf(EntityAlreadyExistsError);
+        expect(tx.commitFailure({ code: 5 })).toBeInstanceOf(EntityNotFoundError);
+        expect(tx.commitFailure(new Error('unavailable'))).toBeNull();
+    });
+});
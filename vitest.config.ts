@@ -6,7 +6,8 @@ export default defineConfig({
         globals: true,
         environment: 'node',
         include: ['tests/**/*.test.ts'],
-        exclude: ['node_modules', 'dist'],
+        // Integration tests need a database: npm run test:integration
+        exclude: ['node_modules', 'dist', 'tests/integration/**'],
         coverage: {
             provider: 'v8',
             reporter: ['text', 'json', 'html'],
@@ -0,0 +1,35 @@
+import { defineConfig } from 'vitest/config';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Throwaway SQLite database, created by the global setup and deleted afterwards
+const databaseFile = path.join(tmpdir(), `integration-${randomUUID()}.db`);
+
+export default defineConfig({
+    test: {
+        globals: true,
+        environment: 'node',
+        include: ['tests/integration/**/*.test.ts'],
+        exclude: ['node_modules', 'dist'],
+        globalSetup: ['tests/integration/global-setup.ts'],
+        env: {
+            DB_TYPE: 'sqlite',
+            DATABASE_URL: `file:${databaseFile}`,
+            JWT_SECRET: 'integration-test-secret-of-32-characters',
+        },
+        // Suites share the database file
+        fileParallelism: false,
+        testTimeout: 30000,
+        hookTimeout: 60000,
+    },
+    resolve: {
+        alias: {
+            '@domain': path.resolve(__dirname, './src/domain'),
+            '@application': path.resolve(__dirname, './src/application'),
+            '@infrastructure': path.resolve(__dirname, './src/infrastructure'),
+            '@presentation': path.resolve(__dirname, './src/presentation'),
+            '@shared': path.resolve(__dirname, './src/shared'),
+        },
+    },
+});